@@ -0,0 +1,214 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { Octokit } from "@octokit/rest";
+
+export interface CacheUsage {
+  hits: number; // served from disk without a request
+  revalidated: number; // conditional request answered 304 Not Modified
+  misses: number; // fetched from GitHub and stored
+  bypassed: number; // not cacheable (no ETag, non-GET, error)
+}
+
+interface CacheEntry {
+  key: string;
+  etag?: string;
+  storedAt: string;
+  response: { status: number; url: string; headers: Record<string, unknown>; data: unknown };
+}
+
+const usageStorage = new AsyncLocalStorage<CacheUsage>();
+
+const SHA = /^[0-9a-f]{40}$/;
+const PINNED = /(?:\/|ref=)[0-9a-f]{40}(?:$|[/?&])/;
+const COMPARE = /\/compare\/([^?]+)/;
+
+// A 40-character hex SHA in the path or the ref= query pins the response to
+// an immutable commit, tree or blob. A comparison is only pinned when both
+// sides are SHAs: `<sha>...main` changes every time main moves.
+export function isImmutableUrl(url: string): boolean {
+  const compare = url.match(COMPARE);
+  if (compare) {
+    const sides = decodeURIComponent(compare[1]).split(/\.\.\.?/);
+    return sides.length === 2 && sides.every((side) => SHA.test(side));
+  }
+  return PINNED.test(url);
+}
+
+function record(kind: keyof CacheUsage): void {
+  const usage = usageStorage.getStore();
+  if (usage) {
+    usage[kind]++;
+  }
+}
+
+// Collect cache hits and misses for everything awaited inside `fn`
+export async function trackCacheUsage<T>(fn: () => Promise<T>): Promise<{ result: T; usage: CacheUsage }> {
+  const usage: CacheUsage = { hits: 0, revalidated: 0, misses: 0, bypassed: 0 };
+  const result = await usageStorage.run(usage, fn);
+  return { result, usage };
+}
+
+// On-disk store of GitHub API responses, one JSON file per request URL,
+// evicted least-recently-used first once the directory exceeds maxBytes
+export class ResponseCache {
+  private pruning: Promise<void> | undefined;
+
+  constructor(
+    readonly directory: string,
+    readonly maxBytes: number
+  ) {}
+
+  get enabled(): boolean {
+    return this.maxBytes > 0;
+  }
+
+  private file(key: string): string {
+    return join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const file = this.file(key);
+    try {
+      const entry = JSON.parse(await readFile(file, "utf-8")) as CacheEntry;
+      const now = new Date();
+      await utimes(file, now, now).catch(() => undefined);
+      return entry.key === key ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.file(entry.key), JSON.stringify(entry), "utf-8");
+    this.pruning ||= this.prune().finally(() => {
+      this.pruning = undefined;
+    });
+  }
+
+  private async entries(): Promise<Array<{ file: string; size: number; mtime: number }>> {
+    const names = await readdir(this.directory).catch(() => [] as string[]);
+    const entries = [];
+    for (const name of names.filter((n) => n.endsWith(".json"))) {
+      const file = join(this.directory, name);
+      const info = await stat(file).catch(() => undefined);
+      if (info) {
+        entries.push({ file, size: info.size, mtime: info.mtimeMs });
+      }
+    }
+    return entries;
+  }
+
+  async prune(): Promise<void> {
+    const entries = await this.entries();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries.sort((a, b) => a.mtime - b.mtime)) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      await rm(entry.file, { force: true });
+      total -= entry.size;
+    }
+  }
+
+  // Remove every entry, or only those whose request URL contains `match`
+  async clear(match?: string): Promise<{ removed: number; bytesFreed: number }> {
+    let removed = 0;
+    let bytesFreed = 0;
+    for (const entry of await this.entries()) {
+      if (match) {
+        const content = await readFile(entry.file, "utf-8").catch(() => "");
+        const key = content.match(/^\{"key":"((?:[^"\\]|\\.)*)"/)?.[1] || "";
+        if (!key.includes(match)) {
+          continue;
+        }
+      }
+      await rm(entry.file, { force: true });
+      removed++;
+      bytesFreed += entry.size;
+    }
+    return { removed, bytesFreed };
+  }
+
+  async stats(): Promise<{ directory: string; entries: number; bytes: number; maxBytes: number }> {
+    const entries = await this.entries();
+    return {
+      directory: this.directory,
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxBytes: this.maxBytes,
+    };
+  }
+}
+
+export function createResponseCache(): ResponseCache {
+  const directory = process.env.CACHE_DIR || join(homedir(), ".cache", "api-test-mcp-server");
+  const maxMegabytes = Number(process.env.CACHE_MAX_MB ?? 200);
+  return new ResponseCache(directory, Number.isFinite(maxMegabytes) ? maxMegabytes * 1024 * 1024 : 0);
+}
+
+// Route every GET made through this Octokit instance via the cache: responses
+// for SHA-pinned URLs are served straight from disk, everything else is
+// revalidated with If-None-Match so unchanged data costs a 304. Entries are
+// keyed by a fingerprint of `token` too, so a response fetched with one token
+// is never served to a client using another.
+export function installResponseCache(octokit: Octokit, cache: ResponseCache, token = ""): void {
+  if (!cache.enabled) {
+    return;
+  }
+  const fingerprint = token ? createHash("sha256").update(token).digest("hex").slice(0, 16) : "anonymous";
+
+  octokit.hook.wrap("request", async (request, options) => {
+    const endpoint = octokit.request.endpoint.parse(options);
+    if (endpoint.method !== "GET") {
+      record("bypassed");
+      return request(options);
+    }
+
+    const accept = String(endpoint.headers.accept || "");
+    const key = `${fingerprint} ${endpoint.url} ${accept}`;
+    const cached = await cache.get(key);
+
+    if (cached && isImmutableUrl(endpoint.url)) {
+      record("hits");
+      return cached.response as Awaited<ReturnType<typeof request>>;
+    }
+
+    // Inner hooks (request logging, auth) were bound to this same options
+    // object, so the header has to be added in place rather than on a copy
+    if (cached?.etag) {
+      options.headers = { ...options.headers, "if-none-match": cached.etag };
+    }
+
+    try {
+      const response = await request(options);
+      const etag = response.headers.etag;
+      if (response.status === 200 && (etag || isImmutableUrl(endpoint.url))) {
+        record("misses");
+        await cache.set({
+          key,
+          etag,
+          storedAt: new Date().toISOString(),
+          response: {
+            status: response.status,
+            url: response.url,
+            headers: { etag, "content-type": response.headers["content-type"] },
+            data: response.data,
+          },
+        });
+      } else {
+        record("bypassed");
+      }
+      return response;
+    } catch (error) {
+      if (cached && (error as { status?: number }).status === 304) {
+        record("revalidated");
+        return cached.response as Awaited<ReturnType<typeof request>>;
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,251 @@
+import type {
+  EndpointDiffResult,
+  EndpointModification,
+  LocatedEndpoint,
+} from "./endpoint-diff.js";
+
+export type ChangeSeverity = "breaking" | "potentially-breaking" | "additive";
+
+export interface ClassifiedChange {
+  id: string;
+  severity: ChangeSeverity;
+  kind: string;
+  endpoint: string;
+  parameter?: string;
+  file: string;
+  reason: string;
+  evidence?: string;
+  acknowledged: boolean;
+}
+
+export interface ClassificationReport {
+  summary: Record<ChangeSeverity, number>;
+  gate: {
+    passed: boolean;
+    unacknowledgedBreaking: string[];
+  };
+  changes: ClassifiedChange[];
+}
+
+function returnType(endpoint: LocatedEndpoint): string | undefined {
+  if (endpoint.returnType) {
+    return endpoint.returnType;
+  }
+  const signature = endpoint.signature;
+  const arrow = signature.match(/\)\s*->\s*(.+)$/);
+  if (arrow) {
+    return arrow[1].trim();
+  }
+  if (!endpoint.handlerName) {
+    return undefined;
+  }
+  const prefix = signature.slice(0, signature.indexOf(`${endpoint.handlerName}(`)).trim();
+  const type = prefix
+    .replace(/\b(public|protected|private|static|final|synchronized|abstract|async|def|fun|suspend)\b/g, "")
+    .trim();
+  return type || undefined;
+}
+
+// Find the added or removed patch line that mentions the given text
+function findEvidence(
+  result: EndpointDiffResult,
+  file: string,
+  marker: "+" | "-",
+  needles: Array<string | undefined>
+): string | undefined {
+  const changed = result.comparison.files.find(
+    (f) => f.filename === file || f.previousFilename === file
+  );
+  if (!changed?.patch) {
+    return undefined;
+  }
+
+  const lines = changed.patch.split("\n").filter((l) => l.startsWith(marker));
+  for (const needle of needles) {
+    if (!needle) continue;
+    const line = lines.find((l) => l.includes(needle));
+    if (line) {
+      return line.trim();
+    }
+  }
+  return undefined;
+}
+
+function normalizePathVariables(path: string): string {
+  return path.replace(/\{[^}]*\}|:\w+|<[^>]*>/g, "{}");
+}
+
+function classifyModification(
+  result: EndpointDiffResult,
+  change: EndpointModification,
+  push: (c: Omit<ClassifiedChange, "id" | "acknowledged">) => void
+) {
+  const { before, after, key } = change;
+  const beforeParams = before.parameters || [];
+  const afterParams = after.parameters || [];
+  let found = false;
+
+  for (const param of afterParams.filter((p) => p.in !== "path")) {
+    const previous = beforeParams.find((p) => p.in === param.in && p.name === param.name);
+    const evidence = findEvidence(result, after.file, "+", [param.name, after.handlerName]);
+
+    if (!previous) {
+      push({
+        severity: param.required ? "breaking" : "additive",
+        kind: param.required ? "required-param-added" : "optional-param-added",
+        endpoint: key,
+        parameter: param.name,
+        file: after.file,
+        reason: `New ${param.required ? "required" : "optional"} ${param.in} parameter "${param.name}" (${param.type})`,
+        evidence,
+      });
+      found = true;
+    } else if (param.required && !previous.required) {
+      push({
+        severity: "breaking",
+        kind: "param-now-required",
+        endpoint: key,
+        parameter: param.name,
+        file: after.file,
+        reason: `${param.in} parameter "${param.name}" changed from optional to required`,
+        evidence,
+      });
+      found = true;
+    } else if (param.type !== previous.type) {
+      push({
+        severity: "potentially-breaking",
+        kind: "param-type-changed",
+        endpoint: key,
+        parameter: param.name,
+        file: after.file,
+        reason: `${param.in} parameter "${param.name}" type changed from ${previous.type} to ${param.type}`,
+        evidence,
+      });
+      found = true;
+    }
+  }
+
+  for (const param of beforeParams.filter((p) => p.in !== "path")) {
+    if (!afterParams.some((p) => p.in === param.in && p.name === param.name)) {
+      push({
+        severity: "potentially-breaking",
+        kind: "param-removed",
+        endpoint: key,
+        parameter: param.name,
+        file: after.file,
+        reason: `${param.in} parameter "${param.name}" is no longer read`,
+        evidence: findEvidence(result, before.file, "-", [param.name, before.handlerName]),
+      });
+      found = true;
+    }
+  }
+
+  const beforeType = returnType(before);
+  const afterType = returnType(after);
+  if (beforeType && afterType && beforeType !== afterType) {
+    push({
+      severity: "potentially-breaking",
+      kind: "response-type-changed",
+      endpoint: key,
+      file: after.file,
+      reason: `Response type changed from ${beforeType} to ${afterType}`,
+      evidence: findEvidence(result, after.file, "+", [after.handlerName]),
+    });
+    found = true;
+  }
+
+  if (!found) {
+    push({
+      severity: "potentially-breaking",
+      kind: "signature-changed",
+      endpoint: key,
+      file: after.file,
+      reason: `Handler signature changed from "${before.signature}" to "${after.signature}"`,
+      evidence: findEvidence(result, after.file, "+", [after.handlerName]),
+    });
+  }
+}
+
+// Tag every endpoint change as breaking, potentially breaking or additive,
+// with the patch line that shows it. Changes whose id is listed in
+// `acknowledged` do not fail the release gate.
+export function classifyApiChanges(
+  result: EndpointDiffResult,
+  acknowledged: string[] = []
+): ClassificationReport {
+  const changes: ClassifiedChange[] = [];
+  const push = (change: Omit<ClassifiedChange, "id" | "acknowledged">) => {
+    const id = `${change.kind}:${change.endpoint}${change.parameter ? `#${change.parameter}` : ""}`;
+    changes.push({ id, ...change, acknowledged: acknowledged.includes(id) });
+  };
+  const { diff } = result;
+
+  for (const endpoint of diff.removed) {
+    push({
+      severity: "breaking",
+      kind: "endpoint-removed",
+      endpoint: endpoint.key,
+      file: endpoint.file,
+      reason: `Endpoint ${endpoint.key} was removed`,
+      evidence: findEvidence(result, endpoint.file, "-", [endpoint.handler]),
+    });
+  }
+
+  for (const change of diff.methodChanged) {
+    push({
+      severity: "breaking",
+      kind: "method-changed",
+      endpoint: change.key,
+      file: change.after.file,
+      reason: `HTTP method changed from ${change.before.method} to ${change.after.method}`,
+      evidence: findEvidence(result, change.after.file, "+", [change.after.handler]),
+    });
+  }
+
+  for (const change of diff.pathChanged) {
+    const renamedVariable =
+      normalizePathVariables(change.before.path) === normalizePathVariables(change.after.path);
+    push({
+      severity: renamedVariable ? "potentially-breaking" : "breaking",
+      kind: renamedVariable ? "path-variable-renamed" : "path-changed",
+      endpoint: change.key,
+      file: change.after.file,
+      reason: renamedVariable
+        ? `Path variable renamed: ${change.before.path} -> ${change.after.path} (URLs are unchanged, generated clients are not)`
+        : `Path changed from ${change.before.path} to ${change.after.path}`,
+      evidence: findEvidence(result, change.after.file, "+", [change.after.handler]),
+    });
+  }
+
+  for (const change of diff.signatureChanged) {
+    classifyModification(result, change, push);
+  }
+
+  for (const endpoint of diff.added) {
+    push({
+      severity: "additive",
+      kind: "endpoint-added",
+      endpoint: endpoint.key,
+      file: endpoint.file,
+      reason: `Endpoint ${endpoint.key} was added`,
+      evidence: findEvidence(result, endpoint.file, "+", [endpoint.handler]),
+    });
+  }
+
+  const unacknowledgedBreaking = changes
+    .filter((c) => c.severity === "breaking" && !c.acknowledged)
+    .map((c) => c.id);
+
+  return {
+    summary: {
+      breaking: changes.filter((c) => c.severity === "breaking").length,
+      "potentially-breaking": changes.filter((c) => c.severity === "potentially-breaking").length,
+      additive: changes.filter((c) => c.severity === "additive").length,
+    },
+    gate: {
+      passed: unacknowledgedBreaking.length === 0,
+      unacknowledgedBreaking,
+    },
+    changes,
+  };
+}
@@ -0,0 +1,316 @@
+import { existsSync, statSync, watch, type FSWatcher } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, dirname, extname, isAbsolute, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { mapConcurrent } from "./concurrency.js";
+import { FRAMEWORK_PRESETS } from "./patterns.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import type { Framework } from "./types.js";
+
+const FRAMEWORKS = Object.keys(FRAMEWORK_PRESETS) as [Framework, ...Framework[]];
+
+export const ServiceConfigSchema = z
+  .object({
+    name: z.string().min(1),
+    repoOwner: z.string().min(1),
+    repoName: z.string().min(1),
+    automationRepoPath: z.string().min(1),
+    apiPatterns: z.array(z.string()).default([]), // Globs for API files; a leading "!" excludes
+    excludePatterns: z.array(z.string()).optional(), // Globs removed from the API files (tests, generated code)
+    framework: z.enum(FRAMEWORKS).optional(), // Adds the framework's built-in include/exclude globs
+    templatesPath: z.string().min(1).optional(), // Test template packs (default: <automationRepoPath>/.mcp-templates)
+    localRepoPath: z.string().min(1).optional(), // Local clone (bare or working tree) read instead of the GitHub API
+    baseBranch: z.string().min(1).optional(), // Default base branch and ref (default: DEFAULT_BASE_BRANCH or main)
+    token: z.string().min(1).optional(), // GitHub token for this repository (default: GITHUB_TOKEN)
+    // Environment variable holding the token, so it stays out of the config file
+    tokenEnv: z
+      .string()
+      .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Must be an environment variable name")
+      .optional(),
+    apiHost: z.string().url().optional(), // GitHub Enterprise API URL, e.g. https://github.example.com/api/v3
+  })
+  .strict();
+
+export type ServiceConfig = z.infer<typeof ServiceConfigSchema>;
+
+export interface ConfigParseResult {
+  services: ServiceConfig[];
+  errors: string[]; // one line per problem, prefixed with where it is
+}
+
+export type CheckStatus = "ok" | "warning" | "error";
+
+export interface ServiceCheck {
+  check: string;
+  status: CheckStatus;
+  message: string;
+}
+
+export interface ServiceValidation {
+  name: string;
+  provider: "github" | "local";
+  repo: string;
+  baseBranch: string;
+  status: CheckStatus; // the worst status among the checks
+  checks: ServiceCheck[];
+}
+
+// services[2] (bliklan-credit).apiPatterns[0]
+function issuePath(path: (string | number)[], raw: unknown[]): string {
+  const [index, ...rest] = path;
+  if (typeof index !== "number") {
+    return "services";
+  }
+  const name = (raw[index] as { name?: unknown } | null)?.name;
+  let location = `services[${index}]${typeof name === "string" ? ` (${name})` : ""}`;
+  for (const part of rest) {
+    location += typeof part === "number" ? `[${part}]` : `.${part}`;
+  }
+  return location;
+}
+
+function resolvePaths(service: ServiceConfig, directory: string): ServiceConfig {
+  const absolute = (path: string | undefined) =>
+    path === undefined || isAbsolute(path) ? path : resolve(directory, path);
+  return {
+    ...service,
+    automationRepoPath: absolute(service.automationRepoPath)!,
+    localRepoPath: absolute(service.localRepoPath),
+    templatesPath: absolute(service.templatesPath),
+  };
+}
+
+// Parse a configuration document: a JSON or YAML list of services, or an
+// object with a `services` list. Relative paths are resolved against
+// `directory` when it is given (the directory of the config file).
+export function parseServicesConfig(
+  text: string,
+  format: "json" | "yaml",
+  directory?: string
+): ConfigParseResult {
+  let document: unknown;
+  try {
+    document = format === "json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    return { services: [], errors: [`${format.toUpperCase()} syntax: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const raw =
+    Array.isArray(document)
+      ? document
+      : document && typeof document === "object" && Array.isArray((document as { services?: unknown }).services)
+        ? (document as { services: unknown[] }).services
+        : undefined;
+  if (!raw) {
+    return { services: [], errors: ["Expected a list of services or an object with a `services` list"] };
+  }
+
+  const parsed = z.array(ServiceConfigSchema).safeParse(raw);
+  if (!parsed.success) {
+    return {
+      services: [],
+      errors: parsed.error.issues.map((issue) => `${issuePath(issue.path, raw)}: ${issue.message}`),
+    };
+  }
+
+  // Services are looked up case-insensitively, so names must differ in more than case
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+  parsed.data.forEach((service, index) => {
+    const key = service.name.toLowerCase();
+    if (seen.has(key)) {
+      errors.push(`services[${index}] (${service.name}).name: Duplicates services[${seen.get(key)}]`);
+    } else {
+      seen.set(key, index);
+    }
+    if (service.token && service.tokenEnv) {
+      errors.push(`services[${index}] (${service.name}): Set either token or tokenEnv, not both`);
+    }
+  });
+  if (errors.length > 0) {
+    return { services: [], errors };
+  }
+
+  return {
+    services: directory ? parsed.data.map((service) => resolvePaths(service, directory)) : parsed.data,
+    errors: [],
+  };
+}
+
+export async function readServicesConfig(file: string): Promise<ConfigParseResult> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf-8");
+  } catch (error) {
+    return { services: [], errors: [`Cannot read ${file}: ${error instanceof Error ? error.message : error}`] };
+  }
+  const format = extname(file).toLowerCase() === ".json" ? "json" : "yaml";
+  return parseServicesConfig(text, format, dirname(resolve(file)));
+}
+
+// The configured services, read from a config file (reloaded whenever it
+// changes) or from the SERVICES_CONFIG environment variable. A reload that
+// fails validation keeps the previous services and records the errors.
+export class ServiceRegistry {
+  private current: ServiceConfig[] = [];
+  private errors: string[] = [];
+  private loadedAt: string | undefined;
+  private watcher: FSWatcher | undefined;
+  private pending: NodeJS.Timeout | undefined;
+  private readonly listeners: Array<(services: ServiceConfig[]) => void> = [];
+
+  constructor(
+    readonly file: string | undefined,
+    private readonly inline: string | undefined
+  ) {}
+
+  get services(): ServiceConfig[] {
+    return this.current;
+  }
+
+  get source(): string {
+    return this.file ? resolve(this.file) : this.inline ? "SERVICES_CONFIG" : "none";
+  }
+
+  // Re-read the configuration as it is now, without applying it
+  async read(): Promise<ConfigParseResult> {
+    if (this.file) {
+      return readServicesConfig(this.file);
+    }
+    return this.inline ? parseServicesConfig(this.inline, "json") : { services: [], errors: [] };
+  }
+
+  async reload(): Promise<boolean> {
+    const result = await this.read();
+    this.errors = result.errors;
+    if (result.errors.length > 0) {
+      console.error(`Invalid configuration in ${this.source}:\n${result.errors.map((e) => `  - ${e}`).join("\n")}`);
+      return false;
+    }
+    this.current = result.services;
+    this.loadedAt = new Date().toISOString();
+    for (const listener of this.listeners) {
+      listener(this.current);
+    }
+    return true;
+  }
+
+  onReload(listener: (services: ServiceConfig[]) => void): void {
+    this.listeners.push(listener);
+  }
+
+  // Watch the directory rather than the file: editors usually save by
+  // writing a new file and renaming it over the old one
+  watch(): void {
+    if (!this.file || this.watcher) {
+      return;
+    }
+    const name = basename(this.file);
+    this.watcher = watch(dirname(resolve(this.file)), { persistent: false }, (_event, changed) => {
+      if (changed && changed.toString() !== name) {
+        return;
+      }
+      clearTimeout(this.pending);
+      this.pending = setTimeout(() => {
+        this.reload().then(
+          (applied) => applied && console.error(`Reloaded ${this.current.length} services from ${this.source}`),
+          (error) => console.error(`Failed to reload ${this.source}: ${error}`)
+        );
+      }, 200);
+    });
+  }
+
+  close(): void {
+    clearTimeout(this.pending);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  status(): { source: string; loadedAt?: string; services: number; watching: boolean; errors: string[] } {
+    return {
+      source: this.source,
+      loadedAt: this.loadedAt,
+      services: this.current.length,
+      watching: !!this.watcher,
+      errors: this.errors,
+    };
+  }
+}
+
+function directoryCheck(check: string, path: string, required: boolean): ServiceCheck {
+  if (!existsSync(path)) {
+    return { check, status: required ? "error" : "warning", message: `${path} does not exist` };
+  }
+  if (!statSync(path).isDirectory()) {
+    return { check, status: "error", message: `${path} is not a directory` };
+  }
+  return { check, status: "ok", message: path };
+}
+
+async function refCheck(check: string, provider: RepositoryProvider, ref?: string): Promise<ServiceCheck> {
+  try {
+    const commits = await provider.listCommits({ ref, limit: 1 });
+    const head = commits.items[0];
+    return {
+      check,
+      status: "ok",
+      message: head ? `${ref || "default branch"} is at ${head.sha.slice(0, 7)}` : "No commits",
+    };
+  } catch (error) {
+    return { check, status: "error", message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+const SEVERITY: Record<CheckStatus, number> = { ok: 0, warning: 1, error: 2 };
+
+// Check that each service's repository and base branch can be read and that
+// the paths it points at exist
+export async function validateServices(
+  services: ServiceConfig[],
+  options: {
+    defaultBaseBranch: string;
+    defaultToken: string;
+    createProvider: (service: ServiceConfig) => RepositoryProvider;
+    checkRepositories: boolean;
+  }
+): Promise<ServiceValidation[]> {
+  return mapConcurrent(services, 4, async (service) => {
+    const baseBranch = service.baseBranch || options.defaultBaseBranch;
+    const checks: ServiceCheck[] = [directoryCheck("automationRepoPath", service.automationRepoPath, true)];
+    if (service.templatesPath) {
+      checks.push(directoryCheck("templatesPath", service.templatesPath, true));
+    }
+
+    if (service.localRepoPath) {
+      checks.push(directoryCheck("localRepoPath", service.localRepoPath, true));
+    } else if (service.tokenEnv && !process.env[service.tokenEnv]) {
+      checks.push({ check: "token", status: "error", message: `Environment variable ${service.tokenEnv} is not set` });
+    } else if (!service.token && !service.tokenEnv && !options.defaultToken) {
+      checks.push({
+        check: "token",
+        status: "warning",
+        message: "No token: private repositories are unreachable and GitHub allows 60 requests per hour",
+      });
+    }
+
+    const readable = !checks.some((c) => c.check === "localRepoPath" && c.status === "error");
+    if (options.checkRepositories && readable) {
+      const provider = options.createProvider(service);
+      const repository = await refCheck("repository", provider);
+      checks.push(repository);
+      if (repository.status === "ok") {
+        checks.push(await refCheck("baseBranch", provider, baseBranch));
+      }
+    }
+
+    return {
+      name: service.name,
+      provider: service.localRepoPath ? "local" : "github",
+      repo: `${service.repoOwner}/${service.repoName}`,
+      baseBranch,
+      status: checks.reduce<CheckStatus>((worst, c) => (SEVERITY[c.status] > SEVERITY[worst] ? c.status : worst), "ok"),
+      checks,
+    };
+  });
+}
@@ -0,0 +1,278 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import type { ServiceConfig } from "./config.js";
+import { collectServiceEndpoints } from "./endpoints.js";
+import { isGraphQlOperation } from "./graphql.js";
+import type { RepositoryProvider } from "./providers/index.js";
+
+export type TestFramework = "playwright" | "restassured" | "pytest" | "postman" | "javascript";
+
+// An HTTP call found in the automation repository
+export interface TestedCall {
+  method: string;
+  path: string;
+  file: string;
+  line?: number; // absent for Postman collections
+  framework: TestFramework;
+}
+
+export interface CoveredEndpoint {
+  method: string;
+  path: string;
+  file: string;
+  line: number;
+  tests: TestedCall[];
+}
+
+export interface CoverageReport {
+  service: string;
+  ref: string;
+  automationRepoPath: string;
+  testFilesScanned: number;
+  summary: {
+    endpoints: number;
+    covered: number;
+    uncovered: number;
+    orphaned: number;
+    coveragePercent: number;
+  };
+  covered: CoveredEndpoint[];
+  uncovered: Array<{ method: string; path: string; file: string; line: number }>;
+  orphaned: TestedCall[];
+}
+
+const SKIPPED_DIRECTORIES = new Set([
+  ".git",
+  "node_modules",
+  "target",
+  "build",
+  "dist",
+  "out",
+  ".gradle",
+  ".idea",
+  "venv",
+  ".venv",
+  "__pycache__",
+  "playwright-report",
+  "test-results",
+]);
+
+const TEST_SOURCE = /\.(java|kt|py|ts|js|mjs|cjs)$/;
+
+// `<receiver>.<verb>("<url>"` where the url looks like a route rather than a
+// map key: it starts with "/", a scheme, or a base-url placeholder. Covers
+// Playwright/supertest `request.get('/x')`, RestAssured `.when().get("/x")`
+// and python `requests.get(f"{BASE}/x")`.
+const HTTP_CALL =
+  /\.(get|post|put|patch|delete|head|options)\s*\(\s*(?:url\s*=\s*)?f?(["'`])((?:https?:\/\/|\/|\$?\{\{?[^}]+\}\}?\/)[^"'`]*)\2/gi;
+
+// Path parameters in any of the notations used by frameworks and test tools:
+// {id}, {id:\d+}, :id, <int:id>, ${id}, {{id}}
+const PLACEHOLDER_SEGMENT = /^(\{\{[^}]+\}\}|\$\{[^}]+\}|\{[^}]+\}|:\w+|<[^>]+>)$/;
+
+// Reduce a URL or route to comparable segments, with "*" for parameters
+export function normalizeRoute(url: string): string[] {
+  const path = url
+    .replace(/^https?:\/\/[^/]+/, "")
+    .replace(/^(\{\{[^}]+\}\}|\$?\{[^}]+\})(?=\/)/, "")
+    .split(/[?#]/)[0];
+
+  return path
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => (PLACEHOLDER_SEGMENT.test(segment) ? "*" : segment));
+}
+
+// A tested URL covers a route when every segment matches, allowing the test
+// to carry an extra context-path or gateway prefix before the route. A
+// parameter in the test only matches a parameter in the route, so
+// `/campaigns/${id}` does not count as testing `/campaigns/search`.
+function routeMatches(route: string[], tested: string[]): boolean {
+  if (tested.length < route.length) {
+    return false;
+  }
+  const offset = tested.length - route.length;
+  return route.every((segment, i) => {
+    const other = tested[offset + i];
+    return segment === "*" || segment === other;
+  });
+}
+
+function methodMatches(endpointMethod: string, testedMethod: string): boolean {
+  return endpointMethod === "ANY" || endpointMethod === testedMethod;
+}
+
+function detectFramework(file: string, content: string): TestFramework {
+  if (file.endsWith(".py")) return "pytest";
+  if (file.endsWith(".java") || file.endsWith(".kt")) return "restassured";
+  return /@playwright\/test/.test(content) ? "playwright" : "javascript";
+}
+
+function extractCalls(file: string, content: string): TestedCall[] {
+  const framework = detectFramework(file, content);
+  const calls: TestedCall[] = [];
+
+  content.split("\n").forEach((text, index) => {
+    for (const match of text.matchAll(HTTP_CALL)) {
+      calls.push({
+        method: match[1].toUpperCase(),
+        path: match[3],
+        file,
+        line: index + 1,
+        framework,
+      });
+    }
+  });
+  return calls;
+}
+
+interface PostmanItem {
+  name?: string;
+  item?: PostmanItem[];
+  request?: string | { method?: string; url?: string | { raw?: string; path?: string[] } };
+}
+
+function extractPostmanCalls(file: string, collection: { item?: PostmanItem[] }): TestedCall[] {
+  const calls: TestedCall[] = [];
+
+  const walk = (items: PostmanItem[]) => {
+    for (const item of items) {
+      if (item.item) {
+        walk(item.item);
+      }
+      if (!item.request) {
+        continue;
+      }
+      const request = typeof item.request === "string" ? { url: item.request } : item.request;
+      const url =
+        typeof request.url === "string"
+          ? request.url
+          : request.url?.raw || `/${(request.url?.path || []).join("/")}`;
+      calls.push({
+        method: (request.method || "GET").toUpperCase(),
+        path: url,
+        file,
+        framework: "postman",
+      });
+    }
+  };
+
+  walk(collection.item || []);
+  return calls;
+}
+
+// Test sources and JSON files (Postman collections, fixtures) under `root`
+export async function listTestFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (directory: string) => {
+    const entries = await readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+          await walk(path);
+        }
+      } else if (TEST_SOURCE.test(entry.name) || entry.name.endsWith(".json")) {
+        files.push(path);
+      }
+    }
+  };
+
+  await walk(root);
+  return files;
+}
+
+// Collect every HTTP call made by the tests in an automation repository
+export async function scanAutomationRepo(
+  root: string
+): Promise<{ files: number; calls: TestedCall[] }> {
+  let files: string[];
+  try {
+    files = await listTestFiles(root);
+  } catch (error) {
+    throw new Error(`Failed to read automation repo at ${root}: ${error}`);
+  }
+
+  const calls: TestedCall[] = [];
+  let scanned = 0;
+
+  for (const path of files) {
+    const file = relative(root, path);
+    const content = await readFile(path, "utf-8");
+
+    if (path.endsWith(".json")) {
+      // Only Postman collections are interesting among JSON files
+      if (!/"_postman_id"|postman_collection/.test(content)) {
+        continue;
+      }
+      try {
+        calls.push(...extractPostmanCalls(file, JSON.parse(content)));
+        scanned++;
+      } catch {
+        // not valid JSON after all
+      }
+      continue;
+    }
+
+    scanned++;
+    calls.push(...extractCalls(file, content));
+  }
+
+  return { files: scanned, calls };
+}
+
+// Cross-reference the endpoints in the service repository with the calls
+// made by its automation tests
+export async function findUntestedEndpoints(
+  provider: RepositoryProvider,
+  service: ServiceConfig,
+  ref: string
+): Promise<CoverageReport> {
+  const [sources, scan] = await Promise.all([
+    collectServiceEndpoints(provider, service, ref),
+    scanAutomationRepo(service.automationRepoPath),
+  ]);
+
+  const tested = scan.calls.map((call) => ({ call, route: normalizeRoute(call.path) }));
+  const matchedCalls = new Set<TestedCall>();
+  const covered: CoveredEndpoint[] = [];
+  const uncovered: CoverageReport["uncovered"] = [];
+
+  for (const { file, endpoints } of sources) {
+    for (const endpoint of endpoints.filter((e) => !isGraphQlOperation(e.method))) {
+      const route = normalizeRoute(endpoint.path);
+      const tests = tested
+        .filter(({ call, route: other }) => methodMatches(endpoint.method, call.method) && routeMatches(route, other))
+        .map(({ call }) => call);
+
+      const location = { method: endpoint.method, path: endpoint.path, file, line: endpoint.lineNumber };
+      if (tests.length > 0) {
+        tests.forEach((call) => matchedCalls.add(call));
+        covered.push({ ...location, tests });
+      } else {
+        uncovered.push(location);
+      }
+    }
+  }
+
+  const orphaned = scan.calls.filter((call) => !matchedCalls.has(call));
+  const total = covered.length + uncovered.length;
+
+  return {
+    service: service.name,
+    ref,
+    automationRepoPath: service.automationRepoPath,
+    testFilesScanned: scan.files,
+    summary: {
+      endpoints: total,
+      covered: covered.length,
+      uncovered: uncovered.length,
+      orphaned: orphaned.length,
+      coveragePercent: total === 0 ? 0 : Math.round((covered.length / total) * 1000) / 10,
+    },
+    covered,
+    uncovered,
+    orphaned,
+  };
+}
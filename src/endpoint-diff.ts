@@ -0,0 +1,230 @@
+import { mapConcurrent } from "./concurrency.js";
+import type { ServiceConfig } from "./config.js";
+import { extractApiEndpoints } from "./endpoints.js";
+import { isApiFile } from "./patterns.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import type { ApiEndpoint, Comparison } from "./types.js";
+
+// An extracted endpoint together with where it lives and the declaration of
+// the method that handles it
+export interface LocatedEndpoint extends ApiEndpoint {
+  key: string;
+  file: string;
+  signature: string;
+}
+
+export interface EndpointModification {
+  key: string;
+  before: LocatedEndpoint;
+  after: LocatedEndpoint;
+}
+
+export interface EndpointDiff {
+  added: LocatedEndpoint[];
+  removed: LocatedEndpoint[];
+  methodChanged: EndpointModification[];
+  pathChanged: EndpointModification[];
+  signatureChanged: EndpointModification[];
+}
+
+export interface EndpointDiffResult {
+  base: string;
+  head: string;
+  baseRef: string;
+  comparison: Comparison;
+  filesAnalyzed: Array<{ filename: string; status: string }>;
+  diff: EndpointDiff;
+}
+
+export function endpointKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+// Find the declaration that handles an endpoint. Decorator-style frameworks
+// (Spring, FastAPI, DRF) put it after the annotation block; inline
+// registrations (Express, Gin) carry the handler on the same line.
+export function findHandlerSignature(
+  lines: string[],
+  lineNumber: number
+): { name?: string; signature: string } {
+  const start = lineNumber - 1;
+  const first = (lines[start] || "").trim();
+
+  if (!first.startsWith("@")) {
+    const name = first.match(/,\s*([A-Za-z_$][\w$.]*)\s*\)\s*;?\s*$/)?.[1];
+    return { name, signature: first };
+  }
+
+  let depth = 0;
+  let declaration = "";
+  for (let i = start; i < Math.min(lines.length, start + 40); i++) {
+    const line = lines[i].trim();
+    const inAnnotation =
+      declaration === "" &&
+      (depth > 0 || line === "" || /^(@|\/\/|\/\*|\*)/.test(line));
+    depth += parenDelta(line);
+
+    if (inAnnotation) {
+      depth = Math.max(depth, 0);
+      continue;
+    }
+
+    declaration += (declaration ? " " : "") + line;
+    if (depth <= 0 && declaration.includes("(")) {
+      break;
+    }
+  }
+
+  const signature = declaration
+    .replace(/\s*\{.*$/, "")
+    .replace(/:\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  const name = signature.match(/([A-Za-z_$][\w$]*)\s*\(/)?.[1];
+  return { name, signature };
+}
+
+function parenDelta(line: string): number {
+  let delta = 0;
+  for (const ch of line.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, "")) {
+    if (ch === "(") delta++;
+    else if (ch === ")") delta--;
+  }
+  return delta;
+}
+
+export function locateEndpoints(content: string, filename: string): LocatedEndpoint[] {
+  const lines = content.split("\n");
+  const located = new Map<string, LocatedEndpoint>();
+
+  for (const endpoint of extractApiEndpoints(content, filename)) {
+    const key = endpointKey(endpoint.method, endpoint.path);
+    if (located.has(key)) {
+      continue;
+    }
+    const { name, signature } = findHandlerSignature(lines, endpoint.lineNumber);
+    located.set(key, {
+      ...endpoint,
+      key,
+      file: filename,
+      handlerName: endpoint.handlerName || name,
+      signature,
+    });
+  }
+
+  return [...located.values()];
+}
+
+// Compare two endpoint sets keyed by method+path. Endpoints present on only
+// one side are paired up as method or path changes when they share a
+// handler, otherwise they are reported as added/removed.
+export function diffEndpoints(
+  before: LocatedEndpoint[],
+  after: LocatedEndpoint[]
+): EndpointDiff {
+  const baseMap = new Map(before.map((e) => [e.key, e]));
+  const headMap = new Map(after.map((e) => [e.key, e]));
+
+  const diff: EndpointDiff = {
+    added: [],
+    removed: [],
+    methodChanged: [],
+    pathChanged: [],
+    signatureChanged: [],
+  };
+
+  for (const [key, base] of baseMap) {
+    const head = headMap.get(key);
+    if (head && head.signature !== base.signature) {
+      diff.signatureChanged.push({ key, before: base, after: head });
+    }
+  }
+
+  const removed = [...baseMap.values()].filter((e) => !headMap.has(e.key));
+  const added = [...headMap.values()].filter((e) => !baseMap.has(e.key));
+
+  const sameHandler = (a: LocatedEndpoint, b: LocatedEndpoint) =>
+    a.handlerName ? a.handlerName === b.handlerName : a.signature === b.signature;
+
+  for (const base of removed) {
+    const methodMatch = added.findIndex(
+      (head) =>
+        head.path === base.path &&
+        head.method !== base.method &&
+        (head.file === base.file || sameHandler(base, head))
+    );
+    if (methodMatch !== -1) {
+      const [head] = added.splice(methodMatch, 1);
+      diff.methodChanged.push({ key: base.key, before: base, after: head });
+      continue;
+    }
+
+    const pathMatch = added.findIndex(
+      (head) =>
+        head.method === base.method &&
+        head.path !== base.path &&
+        sameHandler(base, head)
+    );
+    if (pathMatch !== -1) {
+      const [head] = added.splice(pathMatch, 1);
+      diff.pathChanged.push({ key: base.key, before: base, after: head });
+      continue;
+    }
+
+    diff.removed.push(base);
+  }
+  diff.added.push(...added);
+
+  return diff;
+}
+
+// Run endpoint extraction on every API file touched between two refs, at
+// both the merge base and the head, and diff the results. Pass a comparison
+// the caller already fetched to avoid comparing the refs twice.
+export async function diffApiEndpoints(
+  provider: RepositoryProvider,
+  service: ServiceConfig,
+  base: string,
+  head: string,
+  existingComparison?: Comparison
+): Promise<EndpointDiffResult> {
+  const comparison = existingComparison || (await provider.compareCommits(base, head));
+  const baseRef = comparison.mergeBaseSha || base;
+  const apiFiles = comparison.files.filter(
+    (f) =>
+      isApiFile(f.filename, service) ||
+      (f.previousFilename !== undefined && isApiFile(f.previousFilename, service))
+  );
+
+  const before: LocatedEndpoint[] = [];
+  const after: LocatedEndpoint[] = [];
+
+  // Two content reads per file, so keep a large pull request from sending
+  // hundreds of requests at once
+  await mapConcurrent(apiFiles, 8, async (file) => {
+    const basePath = file.previousFilename || file.filename;
+    const [baseContent, headContent] = await Promise.all([
+      file.status === "added" ? undefined : provider.getFileContent(basePath, baseRef),
+      file.status === "removed" ? undefined : provider.getFileContent(file.filename, head),
+    ]);
+
+    if (baseContent !== undefined) {
+      before.push(...locateEndpoints(baseContent, basePath));
+    }
+    if (headContent !== undefined) {
+      after.push(...locateEndpoints(headContent, file.filename));
+    }
+  });
+
+  const bySource = (a: LocatedEndpoint, b: LocatedEndpoint) =>
+    a.file.localeCompare(b.file) || a.lineNumber - b.lineNumber;
+
+  return {
+    base,
+    head,
+    baseRef,
+    comparison,
+    filesAnalyzed: apiFiles.map((f) => ({ filename: f.filename, status: f.status })),
+    diff: diffEndpoints(before.sort(bySource), after.sort(bySource)),
+  };
+}
@@ -0,0 +1,147 @@
+import { mapConcurrent } from "./concurrency.js";
+import { extractGraphQlOperations, isGraphQlSchemaFile } from "./graphql.js";
+import { extractProtoOperations, isProtoFile } from "./protobuf.js";
+import { isApiFile, type PatternConfig } from "./patterns.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import { extractSpringEndpoints } from "./spring.js";
+import type { ApiEndpoint, ChangedFile } from "./types.js";
+
+// Extensions worth running endpoint extraction on when walking a whole tree
+const SOURCE_EXTENSIONS = /\.(java|kt|ts|js|mjs|py|go|cs|rb|php)$/;
+
+export interface FileEndpoints {
+  file: string;
+  content: string;
+  endpoints: ApiEndpoint[];
+}
+
+export function detectApiChanges(
+  files: ChangedFile[],
+  patterns: PatternConfig
+): Array<{
+  filename: string;
+  status: string;
+  changes: string[];
+  isApiFile: boolean;
+}> {
+  return files
+    .filter((file) => isApiFile(file.filename, patterns))
+    .map((file) => {
+      const changes: string[] = [];
+
+      if (file.patch) {
+        // Parse the patch to extract meaningful changes
+        const lines = file.patch.split("\n");
+        let currentEndpoint = "";
+
+        for (const line of lines) {
+          // Every definition and field in a GraphQL or protobuf schema is API surface
+          if (
+            (isGraphQlSchemaFile(file.filename) && /^[+-](?![+-])\s*[^\s#]/.test(line)) ||
+            (isProtoFile(file.filename) && /^[+-](?![+-])\s*(?!\/\/)\S/.test(line))
+          ) {
+            changes.push(line.trim());
+            continue;
+          }
+
+          // Detect common API patterns
+          const routePatterns = [
+            /(@(Get|Post|Put|Delete|Patch|RequestMapping))/i, // Spring/Java
+            /app\.(get|post|put|delete|patch)\s*\(/i, // Express.js
+            /router\.(get|post|put|delete|patch)\s*\(/i, // Express Router
+            /@(api_view|action)\s*\(/i, // Django/DRF
+            /def\s+(get|post|put|delete|patch)\s*\(/i, // Python
+            /func\s+\(.*\)\s+(Get|Post|Put|Delete|Patch)/i, // Go
+            /\[Http(Get|Post|Put|Delete|Patch)\]/i, // ASP.NET
+            /@(QueryMapping|MutationMapping|SubscriptionMapping|SchemaMapping|BatchMapping)\b/, // Spring for GraphQL
+          ];
+
+          for (const pattern of routePatterns) {
+            if (pattern.test(line)) {
+              changes.push(line.trim());
+              break;
+            }
+          }
+        }
+      }
+
+      return {
+        filename: file.filename,
+        status: file.status,
+        changes,
+        isApiFile: true,
+      };
+    });
+}
+
+export function extractApiEndpoints(content: string, filename: string): ApiEndpoint[] {
+  if (isGraphQlSchemaFile(filename)) {
+    return extractGraphQlOperations(content, filename);
+  }
+  if (isProtoFile(filename)) {
+    return extractProtoOperations(content, filename);
+  }
+  if (filename.endsWith(".java")) {
+    const springEndpoints = [
+      ...extractSpringEndpoints(content),
+      ...extractGraphQlOperations(content, filename),
+    ];
+    if (springEndpoints.length > 0) {
+      return springEndpoints;
+    }
+  }
+
+  const endpoints: ApiEndpoint[] = [];
+
+  const lines = content.split("\n");
+
+  // Common patterns for different frameworks
+  const patterns = [
+    // Express.js
+    { regex: /(app|router)\.(get|post|put|delete|patch)\s*\(\s*['"`]([^'"`]+)['"`]/gi, methodIndex: 2, pathIndex: 3 },
+    // Spring Boot
+    { regex: /@(GetMapping|PostMapping|PutMapping|DeleteMapping|PatchMapping)\s*\(\s*(?:value\s*=\s*)?['"`]?([^'"`\)]+)['"`]?/gi, methodIndex: 1, pathIndex: 2 },
+    // FastAPI
+    { regex: /@app\.(get|post|put|delete|patch)\s*\(\s*['"`]([^'"`]+)['"`]/gi, methodIndex: 1, pathIndex: 2 },
+    // Django REST Framework
+    { regex: /@action\s*\(\s*.*methods\s*=\s*\[\s*['"`](\w+)['"`]/gi, methodIndex: 1, pathIndex: null },
+    // Go Gin
+    { regex: /(GET|POST|PUT|DELETE|PATCH)\s*\(\s*['"`]([^'"`]+)['"`]/gi, methodIndex: 1, pathIndex: 2 },
+  ];
+
+  lines.forEach((line, index) => {
+    for (const pattern of patterns) {
+      const matches = [...line.matchAll(pattern.regex)];
+      for (const match of matches) {
+        // Spring's @GetMapping etc. report the HTTP verb, not the annotation name
+        const method = match[pattern.methodIndex]?.toUpperCase().replace(/MAPPING$/, "") || "UNKNOWN";
+        const path = pattern.pathIndex ? match[pattern.pathIndex] : "";
+        // One route can match several patterns: app.get("/x") is Express,
+        // FastAPI and Gin alike
+        if (endpoints.some((e) => e.lineNumber === index + 1 && e.method === method && e.path === path)) {
+          continue;
+        }
+        endpoints.push({ method, path, handler: line.trim(), lineNumber: index + 1 });
+      }
+    }
+  });
+
+  return endpoints;
+}
+
+// Extract endpoints from every source file matching the API patterns at a ref
+export async function collectServiceEndpoints(
+  provider: RepositoryProvider,
+  patterns: PatternConfig,
+  ref: string
+): Promise<FileEndpoints[]> {
+  const files = (await provider.listFiles(ref)).filter(
+    (file) => SOURCE_EXTENSIONS.test(file) && isApiFile(file, patterns)
+  );
+
+  const results = await mapConcurrent(files, 8, async (file) => {
+    const content = await provider.getFileContent(file, ref);
+    return { file, content, endpoints: extractApiEndpoints(content, file) };
+  });
+  return results.filter((result) => result.endpoints.length > 0);
+}
@@ -0,0 +1,185 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { ZodError } from "zod";
+
+export type ErrorCode =
+  | "SERVICE_NOT_FOUND"
+  | "REPOSITORY_NOT_FOUND"
+  | "REF_NOT_FOUND"
+  | "FILE_NOT_FOUND"
+  | "NOT_A_FILE"
+  | "PULL_REQUEST_NOT_FOUND"
+  | "AUTH_FAILED"
+  | "PERMISSION_DENIED"
+  | "RATE_LIMITED"
+  | "COMPARISON_TOO_LARGE"
+  | "GITHUB_UNAVAILABLE"
+  | "UNSUPPORTED"
+  | "INVALID_ARGUMENTS"
+  | "INVALID_CONFIG"
+  | "WRITE_CONFLICT"
+  | "UNKNOWN_TOOL"
+  | "OPERATION_FAILED";
+
+// Codes attached to results that succeeded but are incomplete or at risk
+export type WarningCode = "COMPARISON_TRUNCATED" | "RATE_LIMIT_LOW";
+
+export interface ToolWarning {
+  code: WarningCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// Errors that are worth retrying later without changing the request
+const RETRYABLE = new Set<ErrorCode>(["RATE_LIMITED", "GITHUB_UNAVAILABLE"]);
+
+// A failure with a machine-readable code, so the assistant can tell a
+// missing file from an expired token
+export class ToolError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.has(this.code);
+  }
+
+  toJSON() {
+    return { code: this.code, message: this.message, retryable: this.retryable, ...this.details };
+  }
+}
+
+// The shape of the errors Octokit throws for HTTP failures
+interface HttpError {
+  status: number;
+  message: string;
+  response?: { headers?: Record<string, string | number | undefined>; data?: unknown };
+}
+
+export function isHttpError(error: unknown): error is HttpError {
+  return typeof (error as HttpError | undefined)?.status === "number" && error instanceof Error;
+}
+
+function header(error: HttpError, name: string): string | undefined {
+  const value = error.response?.headers?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+// Primary (x-ratelimit-remaining: 0) and secondary (retry-after, or the
+// message GitHub sends) rate limits
+export function rateLimitOf(error: unknown): { resetAt?: string; retryAfterSeconds?: number } | undefined {
+  if (!isHttpError(error) || (error.status !== 403 && error.status !== 429)) {
+    return undefined;
+  }
+  const retryAfter = header(error, "retry-after");
+  const reset = header(error, "x-ratelimit-reset");
+  const exhausted = header(error, "x-ratelimit-remaining") === "0";
+  if (!retryAfter && !exhausted && !/rate limit/i.test(error.message)) {
+    return undefined;
+  }
+  const resetAt = reset ? new Date(Number(reset) * 1000).toISOString() : undefined;
+  const retryAfterSeconds = retryAfter
+    ? Number(retryAfter)
+    : reset
+      ? Math.max(0, Math.ceil(Number(reset) - Date.now() / 1000))
+      : undefined;
+  return { resetAt, retryAfterSeconds };
+}
+
+// Map a GitHub API failure to a ToolError. `notFound` names what a 404
+// means for the request at hand; GitHub also answers 404 for private
+// repositories the token cannot see.
+export function fromGitHubError(
+  error: unknown,
+  notFound?: { code: ErrorCode; message: string; details?: Record<string, unknown> }
+): unknown {
+  if (error instanceof ToolError || !isHttpError(error)) {
+    return error;
+  }
+  const limit = rateLimitOf(error);
+  if (limit) {
+    const when = limit.resetAt
+      ? ` until ${limit.resetAt}`
+      : limit.retryAfterSeconds
+        ? ` for ${limit.retryAfterSeconds}s`
+        : "";
+    return new ToolError("RATE_LIMITED", `GitHub rate limit exceeded${when}: ${error.message}`, limit);
+  }
+  switch (error.status) {
+    case 401:
+      return new ToolError("AUTH_FAILED", "GitHub rejected the token: it is missing, expired or revoked");
+    case 403:
+      return new ToolError("PERMISSION_DENIED", `The token is not allowed to do this: ${error.message}`);
+    case 404:
+      return notFound
+        ? new ToolError(notFound.code, notFound.message, notFound.details)
+        : new ToolError(
+            "REPOSITORY_NOT_FOUND",
+            `GitHub answered 404 (${error.message}): the repository does not exist, or the token cannot see it`
+          );
+  }
+  if (error.status >= 500) {
+    return new ToolError("GITHUB_UNAVAILABLE", `GitHub answered ${error.status}: ${error.message}`, {
+      status: error.status,
+    });
+  }
+  return error;
+}
+
+export function toToolError(error: unknown): ToolError {
+  const mapped = fromGitHubError(error);
+  if (mapped instanceof ToolError) {
+    return mapped;
+  }
+  if (mapped instanceof ZodError) {
+    return new ToolError(
+      "INVALID_ARGUMENTS",
+      mapped.issues.map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`).join("; ")
+    );
+  }
+  return new ToolError("OPERATION_FAILED", mapped instanceof Error ? mapped.message : String(mapped));
+}
+
+// An MCP tool error result: the assistant sees it as a failed call, and the
+// JSON carries the code
+export function toolErrorResult(error: unknown) {
+  const toolError = toToolError(error);
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({ error: toolError }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+const warningStorage = new AsyncLocalStorage<ToolWarning[]>();
+
+// Attach a warning to the tool call in progress. A warning repeated with the
+// same code and message keeps the latest details.
+export function reportWarning(code: WarningCode, message: string, details?: Record<string, unknown>): void {
+  const warnings = warningStorage.getStore();
+  if (!warnings) {
+    return;
+  }
+  const warning = { code, message, ...(details ? { details } : {}) };
+  const index = warnings.findIndex((w) => w.code === code && w.message === message);
+  if (index === -1) {
+    warnings.push(warning);
+  } else {
+    warnings[index] = warning;
+  }
+}
+
+// Collect the warnings reported by everything awaited inside `fn`
+export async function trackWarnings<T>(fn: () => Promise<T>): Promise<{ result: T; warnings: ToolWarning[] }> {
+  const warnings: ToolWarning[] = [];
+  const result = await warningStorage.run(warnings, fn);
+  return { result, warnings };
+}
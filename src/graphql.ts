@@ -0,0 +1,730 @@
+import type { ChangeSeverity } from "./classify.js";
+import { mapConcurrent } from "./concurrency.js";
+import {
+  findClosing,
+  lineNumberAt,
+  MODIFIERS,
+  normalizeType,
+  parseAnnotationArguments,
+  readAnnotation,
+  readDeclaration,
+  skipString,
+  splitTopLevel,
+  stripComments,
+} from "./java.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import type { ApiEndpoint } from "./types.js";
+
+export type GraphQlTypeKind = "type" | "interface" | "input" | "enum" | "union" | "scalar";
+
+export type OperationType = "query" | "mutation" | "subscription";
+
+export interface GraphQlArgument {
+  name: string;
+  type: string;
+  defaultValue?: string;
+}
+
+export interface GraphQlField {
+  name: string;
+  type: string; // SDL notation such as "[User!]!", or the Java return type for resolvers
+  arguments: GraphQlArgument[];
+  defaultValue?: string; // input fields only
+  deprecated: boolean;
+  file: string;
+  line: number;
+}
+
+export interface GraphQlType {
+  name: string;
+  kind: GraphQlTypeKind;
+  fields: GraphQlField[];
+  values: string[]; // enum values or union members
+  file: string;
+  line: number;
+}
+
+export interface GraphQlSchema {
+  types: Record<string, GraphQlType>;
+  operationTypes: Record<OperationType, string>;
+}
+
+export interface GraphQlChange {
+  severity: ChangeSeverity;
+  kind: string;
+  location: string;
+  description: string;
+  file?: string;
+  line?: number;
+}
+
+export interface GraphQlDiffResult {
+  baseRef: string;
+  files: Array<{ file: string; status: string; source: "sdl" | "resolvers" }>;
+  operations: {
+    before: Record<OperationType, string[]>;
+    after: Record<OperationType, string[]>;
+  };
+  changes: GraphQlChange[];
+}
+
+const SCHEMA_FILE = /\.(graphqls?|gqls?)$/i;
+
+const RESOLVER_ANNOTATION = /@(QueryMapping|MutationMapping|SubscriptionMapping|SchemaMapping|BatchMapping)\b/g;
+
+const DEFAULT_OPERATION_TYPES: Record<OperationType, string> = {
+  query: "Query",
+  mutation: "Mutation",
+  subscription: "Subscription",
+};
+
+// Endpoint "methods" used for GraphQL root fields alongside HTTP verbs
+const OPERATION_METHODS: Record<OperationType, string> = {
+  query: "QUERY",
+  mutation: "MUTATION",
+  subscription: "SUBSCRIPTION",
+};
+
+export function isGraphQlSchemaFile(path: string): boolean {
+  return SCHEMA_FILE.test(path) && !path.includes("node_modules/");
+}
+
+export function hasGraphQlResolvers(content: string): boolean {
+  return new RegExp(RESOLVER_ANNOTATION.source).test(content);
+}
+
+export function isGraphQlOperation(method: string): boolean {
+  return Object.values(OPERATION_METHODS).includes(method);
+}
+
+function emptySchema(): GraphQlSchema {
+  return { types: {}, operationTypes: { ...DEFAULT_OPERATION_TYPES } };
+}
+
+interface Token {
+  kind: "name" | "punctuator" | "string" | "value";
+  value: string;
+  line: number;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === "\n") {
+      line++;
+      i++;
+    } else if (/[\s,\uFEFF]/.test(ch)) {
+      i++;
+    } else if (ch === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (ch === '"') {
+      const end = skipString(source, i);
+      const value = source.slice(i, end);
+      tokens.push({ kind: "string", value, line });
+      line += value.split("\n").length - 1;
+      i = end;
+    } else if (source.startsWith("...", i)) {
+      tokens.push({ kind: "punctuator", value: "...", line });
+      i += 3;
+    } else if ("{}()[]:!=@|&$".includes(ch)) {
+      tokens.push({ kind: "punctuator", value: ch, line });
+      i++;
+    } else {
+      const word = source.slice(i).match(/^(?:[_A-Za-z][_0-9A-Za-z]*|-?\d[\d.eE+-]*)/)?.[0];
+      if (!word) {
+        throw new Error(`Unexpected character "${ch}" at line ${line}`);
+      }
+      tokens.push({ kind: /^[_A-Za-z]/.test(word) ? "name" : "value", value: word, line });
+      i += word.length;
+    }
+  }
+  return tokens;
+}
+
+// Recursive-descent reader for the type system part of the GraphQL SDL;
+// executable documents (queries, fragments) are not supported
+class SdlParser {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly file: string,
+    private readonly schema: GraphQlSchema
+  ) {}
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error(`${this.file}: unexpected end of schema`);
+    }
+    return token;
+  }
+
+  private is(value: string): boolean {
+    const token = this.peek();
+    return token !== undefined && token.kind !== "string" && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.value !== value) {
+      throw new Error(`${this.file}: expected "${value}" but found "${token.value}" at line ${token.line}`);
+    }
+    return token;
+  }
+
+  private name(): Token {
+    const token = this.next();
+    if (token.kind !== "name") {
+      throw new Error(`${this.file}: expected a name but found "${token.value}" at line ${token.line}`);
+    }
+    return token;
+  }
+
+  private skipDescription(): void {
+    if (this.peek()?.kind === "string") {
+      this.position++;
+    }
+  }
+
+  // Read the tokens of a nested value or argument list back into text
+  private balanced(open: string, close: string): string {
+    const parts: string[] = [];
+    let depth = 0;
+    do {
+      const token = this.next();
+      if (token.kind !== "string" && token.value === open) depth++;
+      if (token.kind !== "string" && token.value === close) depth--;
+      parts.push(token.value);
+    } while (depth > 0);
+    return parts.join(" ").replace(/([[{(]) /g, "$1").replace(/ ([\]})])/g, "$1").replace(/ :/g, ":");
+  }
+
+  private directives(): string[] {
+    const names: string[] = [];
+    while (this.is("@")) {
+      this.next();
+      names.push(this.name().value);
+      if (this.is("(")) {
+        this.balanced("(", ")");
+      }
+    }
+    return names;
+  }
+
+  private type(): string {
+    let type: string;
+    if (this.is("[")) {
+      this.next();
+      type = `[${this.type()}]`;
+      this.expect("]");
+    } else {
+      type = this.name().value;
+    }
+    if (this.is("!")) {
+      this.next();
+      type += "!";
+    }
+    return type;
+  }
+
+  private value(): string {
+    if (this.is("[")) return this.balanced("[", "]");
+    if (this.is("{")) return this.balanced("{", "}");
+    if (this.is("$")) {
+      this.next();
+      return `$${this.name().value}`;
+    }
+    return this.next().value;
+  }
+
+  private inputValues(close: string): GraphQlArgument[] {
+    const values: GraphQlArgument[] = [];
+    while (!this.is(close)) {
+      this.skipDescription();
+      const name = this.name().value;
+      this.expect(":");
+      const argument: GraphQlArgument = { name, type: this.type() };
+      if (this.is("=")) {
+        this.next();
+        argument.defaultValue = this.value();
+      }
+      this.directives();
+      values.push(argument);
+    }
+    this.expect(close);
+    return values;
+  }
+
+  private fields(input: boolean): GraphQlField[] {
+    const fields: GraphQlField[] = [];
+    this.expect("{");
+    while (!this.is("}")) {
+      this.skipDescription();
+      const name = this.name();
+      let args: GraphQlArgument[] = [];
+      if (!input && this.is("(")) {
+        this.next();
+        args = this.inputValues(")");
+      }
+      this.expect(":");
+      const type = this.type();
+      let defaultValue: string | undefined;
+      if (input && this.is("=")) {
+        this.next();
+        defaultValue = this.value();
+      }
+      fields.push({
+        name: name.value,
+        type,
+        arguments: args,
+        defaultValue,
+        deprecated: this.directives().includes("deprecated"),
+        file: this.file,
+        line: name.line,
+      });
+    }
+    this.expect("}");
+    return fields;
+  }
+
+  private define(kind: GraphQlTypeKind, name: Token, extend: boolean): GraphQlType {
+    const existing = this.schema.types[name.value];
+    if (existing && (extend || existing.kind === kind)) {
+      return existing;
+    }
+    const type: GraphQlType = { name: name.value, kind, fields: [], values: [], file: this.file, line: name.line };
+    this.schema.types[name.value] = type;
+    return type;
+  }
+
+  parse(): void {
+    while (this.peek()) {
+      this.skipDescription();
+      let keyword = this.name();
+      const extend = keyword.value === "extend";
+      if (extend) {
+        keyword = this.name();
+      }
+
+      switch (keyword.value) {
+        case "schema": {
+          this.directives();
+          if (this.is("{")) {
+            this.next();
+            while (!this.is("}")) {
+              const operation = this.name().value as OperationType;
+              this.expect(":");
+              this.schema.operationTypes[operation] = this.name().value;
+            }
+            this.expect("}");
+          }
+          break;
+        }
+        case "type":
+        case "interface":
+        case "input": {
+          const type = this.define(keyword.value, this.name(), extend);
+          if (this.is("implements")) {
+            this.next();
+            do {
+              if (this.is("&")) this.next();
+              this.name();
+            } while (this.is("&"));
+          }
+          this.directives();
+          if (this.is("{")) {
+            type.fields.push(...this.fields(keyword.value === "input"));
+          }
+          break;
+        }
+        case "enum": {
+          const type = this.define("enum", this.name(), extend);
+          this.directives();
+          if (this.is("{")) {
+            this.next();
+            while (!this.is("}")) {
+              this.skipDescription();
+              type.values.push(this.name().value);
+              this.directives();
+            }
+            this.expect("}");
+          }
+          break;
+        }
+        case "union": {
+          const type = this.define("union", this.name(), extend);
+          this.directives();
+          if (this.is("=")) {
+            this.next();
+            do {
+              if (this.is("|")) this.next();
+              type.values.push(this.name().value);
+            } while (this.is("|"));
+          }
+          break;
+        }
+        case "scalar":
+          this.define("scalar", this.name(), extend);
+          this.directives();
+          break;
+        case "directive": {
+          this.expect("@");
+          this.name();
+          if (this.is("(")) {
+            this.next();
+            this.inputValues(")");
+          }
+          if (this.is("repeatable")) this.next();
+          this.expect("on");
+          do {
+            if (this.is("|")) this.next();
+            this.name();
+          } while (this.is("|"));
+          break;
+        }
+        default:
+          throw new Error(`${this.file}: unexpected "${keyword.value}" at line ${keyword.line}`);
+      }
+    }
+  }
+}
+
+// Parse SDL into `schema`, merging with what is already there so that a
+// schema split across several files (or using `extend type`) reads as one
+export function parseGraphQlSchema(content: string, file: string, schema = emptySchema()): GraphQlSchema {
+  new SdlParser(tokenize(content), file, schema).parse();
+  return schema;
+}
+
+function literal(text: string | undefined): string | undefined {
+  return text?.trim().replace(/^"(.*)"$/s, "$1");
+}
+
+// Spring for GraphQL controllers: @QueryMapping, @MutationMapping and
+// @SubscriptionMapping methods are root fields; @SchemaMapping and
+// @BatchMapping methods resolve a field on the type named by `typeName`,
+// the class-level @SchemaMapping, or the type of the source parameter
+export function extractGraphQlResolvers(content: string, file: string, schema = emptySchema()): GraphQlSchema {
+  const source = stripComments(content);
+  let classTypeName: string | undefined;
+
+  for (const match of source.matchAll(RESOLVER_ANNOTATION)) {
+    const annotation = readAnnotation(source, match.index!);
+    if (!annotation) continue;
+
+    const args = parseAnnotationArguments(annotation.args);
+    const { header, start, paramsStart } = readDeclaration(source, annotation.end);
+    if (/\b(class|interface|record)\s+\w+/.test(header)) {
+      classTypeName = literal(args.get("typeName")?.[0]);
+      continue;
+    }
+
+    const prefix = (paramsStart === -1 ? header : source.slice(start, paramsStart)).replace(MODIFIERS, "").trim();
+    const methodName = prefix.match(/([A-Za-z_$][\w$]*)\s*$/)?.[1];
+    if (!methodName) continue;
+    const returnType = normalizeType(prefix.slice(0, prefix.length - methodName.length).replace(/^<[^>]*>\s*/, ""));
+
+    const parameters = paramsStart === -1 ? [] : splitTopLevel(source.slice(paramsStart + 1, findClosing(source, paramsStart)));
+    const argumentsOf: GraphQlArgument[] = [];
+    let sourceType: string | undefined;
+    for (const parameter of parameters) {
+      const argument = parameter.match(/@Argument\b\s*(?:\(([^)]*)\))?/);
+      const declaration = parameter.replace(/@[\w.]+(\s*\([^)]*\))?/g, "").replace(/\bfinal\b/, "").trim();
+      const tokens = declaration.split(/\s+/);
+      const javaName = tokens.pop() || "";
+      const type = normalizeType(tokens.join(" "));
+      if (argument) {
+        const named = parseAnnotationArguments(argument[1] || "");
+        argumentsOf.push({ name: literal((named.get("name") || named.get("value"))?.[0]) || javaName, type });
+      } else if (!sourceType && !/@/.test(parameter)) {
+        sourceType = type.replace(/^(?:List|Collection|Set)<(.+)>$/, "$1");
+      }
+    }
+
+    const kind = match[1];
+    const operation = (
+      { QueryMapping: "query", MutationMapping: "mutation", SubscriptionMapping: "subscription" } as Record<string, OperationType | undefined>
+    )[kind];
+    const typeName = operation
+      ? schema.operationTypes[operation]
+      : literal(args.get("typeName")?.[0]) || classTypeName || sourceType;
+    if (!typeName) continue;
+    const fieldName = literal((args.get(operation ? "name" : "field") || args.get("value"))?.[0]) || methodName;
+
+    const type = (schema.types[typeName] ||= {
+      name: typeName,
+      kind: "type",
+      fields: [],
+      values: [],
+      file,
+      line: lineNumberAt(source, annotation.start),
+    });
+    type.fields.push({
+      name: fieldName,
+      type: returnType,
+      arguments: argumentsOf,
+      deprecated: false,
+      file,
+      line: lineNumberAt(source, annotation.start),
+    });
+  }
+
+  return schema;
+}
+
+function rootFields(schema: GraphQlSchema): Array<{ operation: OperationType; field: GraphQlField }> {
+  return (Object.keys(OPERATION_METHODS) as OperationType[]).flatMap((operation) =>
+    (schema.types[schema.operationTypes[operation]]?.fields || []).map((field) => ({ operation, field }))
+  );
+}
+
+// Root fields of an SDL file or resolver class as endpoints, so that
+// GraphQL operations show up next to REST handlers
+export function extractGraphQlOperations(content: string, file: string): ApiEndpoint[] {
+  const isSchema = isGraphQlSchemaFile(file);
+  if (!isSchema && !hasGraphQlResolvers(content)) {
+    return [];
+  }
+  let schema: GraphQlSchema;
+  try {
+    schema = isSchema ? parseGraphQlSchema(content, file) : extractGraphQlResolvers(content, file);
+  } catch {
+    return [];
+  }
+
+  const lines = content.split("\n");
+  return rootFields(schema).map(({ operation, field }) => ({
+    method: OPERATION_METHODS[operation],
+    path: field.name,
+    handler: lines[field.line - 1].trim(),
+    lineNumber: field.line,
+    // Resolver methods are named after the Java method by locateEndpoints
+    handlerName: isSchema ? field.name : undefined,
+    returnType: field.type,
+  }));
+}
+
+// Differences that only add or remove "!" markers
+function nullabilityOnly(before: string, after: string): boolean {
+  return before !== after && before.replace(/!/g, "") === after.replace(/!/g, "");
+}
+
+function strictness(type: string): number {
+  return (type.match(/!/g) || []).length;
+}
+
+class SchemaDiffer {
+  private readonly changes: GraphQlChange[] = [];
+
+  constructor(
+    private readonly before: GraphQlSchema,
+    private readonly after: GraphQlSchema
+  ) {}
+
+  private push(
+    severity: ChangeSeverity,
+    kind: string,
+    location: string,
+    description: string,
+    at?: { file: string; line: number }
+  ): void {
+    this.changes.push({ severity, kind, location, description, file: at?.file, line: at?.line });
+  }
+
+  run(): GraphQlChange[] {
+    for (const [name, before] of Object.entries(this.before.types)) {
+      const after = this.after.types[name];
+      if (!after) {
+        this.push("breaking", "type-removed", name, `${before.kind} ${name} was removed`, before);
+      } else if (after.kind !== before.kind) {
+        this.push("breaking", "type-kind-changed", name, `${name} changed from ${before.kind} to ${after.kind}`, after);
+      } else if (before.kind === "enum" || before.kind === "union") {
+        this.diffMembers(before, after);
+      } else {
+        this.diffFields(before, after);
+      }
+    }
+    for (const [name, after] of Object.entries(this.after.types)) {
+      if (!this.before.types[name]) {
+        this.push("additive", "type-added", name, `${after.kind} ${name} was added`, after);
+      }
+    }
+    return this.changes;
+  }
+
+  private diffMembers(before: GraphQlType, after: GraphQlType): void {
+    const noun = before.kind === "enum" ? "enum-value" : "union-member";
+    for (const value of before.values.filter((v) => !after.values.includes(v))) {
+      this.push("breaking", `${noun}-removed`, `${before.name}.${value}`, `${value} was removed from ${before.name}`, after);
+    }
+    for (const value of after.values.filter((v) => !before.values.includes(v))) {
+      this.push(
+        "potentially-breaking",
+        `${noun}-added`,
+        `${after.name}.${value}`,
+        `${value} was added to ${after.name}; clients that handle every value may not expect it`,
+        after
+      );
+    }
+  }
+
+  private diffFields(before: GraphQlType, after: GraphQlType): void {
+    const input = before.kind === "input";
+    for (const field of before.fields) {
+      const location = `${before.name}.${field.name}`;
+      const next = after.fields.find((f) => f.name === field.name);
+      if (!next) {
+        this.push(
+          "breaking",
+          input ? "input-field-removed" : "field-removed",
+          location,
+          `Field ${location} was removed${field.deprecated ? " (it was deprecated)" : ""}`,
+          field
+        );
+        continue;
+      }
+      if (input) {
+        this.diffInputType(location, field.type, next.type, "input-field", next);
+      } else {
+        this.diffOutputType(location, field.type, next.type, next);
+        this.diffArguments(location, field.arguments, next.arguments, next);
+      }
+    }
+
+    for (const field of after.fields.filter((f) => !before.fields.some((b) => b.name === f.name))) {
+      const location = `${after.name}.${field.name}`;
+      const required = input && field.type.endsWith("!") && field.defaultValue === undefined;
+      this.push(
+        required ? "breaking" : "additive",
+        required ? "required-input-field-added" : input ? "input-field-added" : "field-added",
+        location,
+        `${required ? "Required field" : "Field"} ${location} was added`,
+        field
+      );
+    }
+  }
+
+  // A field may always return more precisely than before (nullable to
+  // non-null) but not less
+  private diffOutputType(location: string, before: string, after: string, at: GraphQlField): void {
+    if (before === after) return;
+    if (nullabilityOnly(before, after) && strictness(after) > strictness(before)) {
+      this.push("additive", "field-now-non-null", location, `${location} changed from ${before} to ${after}`, at);
+    } else if (nullabilityOnly(before, after)) {
+      this.push("breaking", "field-now-nullable", location, `${location} changed from ${before} to ${after}; clients may now receive null`, at);
+    } else {
+      this.push("breaking", "field-type-changed", location, `${location} changed type from ${before} to ${after}`, at);
+    }
+  }
+
+  // Arguments and input fields may be relaxed (non-null to nullable) but
+  // not tightened
+  private diffInputType(location: string, before: string, after: string, noun: string, at: GraphQlField): void {
+    if (before === after) return;
+    if (nullabilityOnly(before, after) && strictness(after) > strictness(before)) {
+      this.push("breaking", `${noun}-now-required`, location, `${location} changed from ${before} to ${after}; clients that omit it will fail`, at);
+    } else if (nullabilityOnly(before, after)) {
+      this.push("additive", `${noun}-now-optional`, location, `${location} changed from ${before} to ${after}`, at);
+    } else {
+      this.push("breaking", `${noun}-type-changed`, location, `${location} changed type from ${before} to ${after}`, at);
+    }
+  }
+
+  private diffArguments(field: string, before: GraphQlArgument[], after: GraphQlArgument[], at: GraphQlField): void {
+    for (const argument of before) {
+      const location = `${field}(${argument.name})`;
+      const next = after.find((a) => a.name === argument.name);
+      if (!next) {
+        this.push("breaking", "argument-removed", location, `Argument ${argument.name} of ${field} was removed`, at);
+        continue;
+      }
+      this.diffInputType(location, argument.type, next.type, "argument", at);
+      if (argument.defaultValue !== next.defaultValue && argument.type === next.type) {
+        this.push(
+          "potentially-breaking",
+          "argument-default-changed",
+          location,
+          `Default of ${argument.name} on ${field} changed from ${argument.defaultValue ?? "none"} to ${next.defaultValue ?? "none"}`,
+          at
+        );
+      }
+    }
+    for (const argument of after.filter((a) => !before.some((b) => b.name === a.name))) {
+      const required = argument.type.endsWith("!") && argument.defaultValue === undefined;
+      this.push(
+        required ? "breaking" : "additive",
+        required ? "required-argument-added" : "argument-added",
+        `${field}(${argument.name})`,
+        `${required ? "Required argument" : "Argument"} ${argument.name}: ${argument.type} was added to ${field}`,
+        at
+      );
+    }
+  }
+}
+
+export function diffGraphQlSchema(before: GraphQlSchema, after: GraphQlSchema): GraphQlChange[] {
+  return new SchemaDiffer(before, after).run();
+}
+
+function operationNames(schema: GraphQlSchema): Record<OperationType, string[]> {
+  const names: Record<OperationType, string[]> = { query: [], mutation: [], subscription: [] };
+  for (const { operation, field } of rootFields(schema)) {
+    names[operation].push(field.name);
+  }
+  return names;
+}
+
+// Read the SDL files and resolver classes changed between two refs into one
+// schema per side and diff them. Files that did not change contribute the
+// same definitions to both sides, so they can be left out.
+export async function diffGraphQlChanges(
+  provider: RepositoryProvider,
+  base: string,
+  head: string
+): Promise<GraphQlDiffResult> {
+  const comparison = await provider.compareCommits(base, head);
+  const baseRef = comparison.mergeBaseSha || base;
+  const before = emptySchema();
+  const after = emptySchema();
+  const files: GraphQlDiffResult["files"] = [];
+
+  const candidates = comparison.files.filter(
+    (f) => isGraphQlSchemaFile(f.filename) || /\.(java|kt)$/.test(f.filename)
+  );
+  const contents = await mapConcurrent(candidates, 8, async (file) => {
+    const basePath = file.previousFilename || file.filename;
+    const [baseContent, headContent] = await Promise.all([
+      file.status === "added" ? undefined : provider.getFileContent(basePath, baseRef),
+      file.status === "removed" ? undefined : provider.getFileContent(file.filename, head),
+    ]);
+    return { file, basePath, baseContent, headContent };
+  });
+
+  for (const { file, basePath, baseContent, headContent } of contents) {
+    if (isGraphQlSchemaFile(file.filename)) {
+      if (baseContent !== undefined) parseGraphQlSchema(baseContent, basePath, before);
+      if (headContent !== undefined) parseGraphQlSchema(headContent, file.filename, after);
+      files.push({ file: file.filename, status: file.status, source: "sdl" });
+    } else if (hasGraphQlResolvers(baseContent || "") || hasGraphQlResolvers(headContent || "")) {
+      if (baseContent !== undefined) extractGraphQlResolvers(baseContent, basePath, before);
+      if (headContent !== undefined) extractGraphQlResolvers(headContent, file.filename, after);
+      files.push({ file: file.filename, status: file.status, source: "resolvers" });
+    }
+  }
+
+  return {
+    baseRef,
+    files,
+    operations: { before: operationNames(before), after: operationNames(after) },
+    changes: diffGraphQlSchema(before, after),
+  };
+}
@@ -0,0 +1,254 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  bearerTokens: string[]; // accepted in "Authorization: Bearer <token>"
+  apiKeys: string[]; // accepted in "X-API-Key: <key>"
+  sessionIdleMinutes: number; // sessions without requests for this long are closed
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+interface Session {
+  kind: "streamable" | "sse";
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  clientId: string; // the credential that opened the session
+  lastSeen: number;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK = new Set(["127.0.0.1", "::1", "localhost"]);
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Compare digests so the check takes the same time whichever byte differs
+function isAccepted(candidate: string, accepted: Buffer[]): boolean {
+  const hashed = digest(candidate);
+  return accepted.some((credential) => timingSafeEqual(hashed, credential));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "content-type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, code: number, message: string, headers?: Record<string, string>): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null }, headers);
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw Object.assign(new Error("Request body too large"), { status: 413 });
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw Object.assign(new Error("Parse error: invalid JSON"), { status: 400 });
+  }
+}
+
+// Serve MCP over Streamable HTTP at /mcp, the older HTTP+SSE transport at
+// /sse and /messages, and an unauthenticated /health. Every session gets its
+// own Server from `createServer`.
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const open = options.bearerTokens.length + options.apiKeys.length === 0;
+  if (open && !LOOPBACK.has(options.host)) {
+    throw new Error(
+      `Refusing to serve on ${options.host} without authentication: set MCP_AUTH_TOKENS or MCP_API_KEYS, or bind to 127.0.0.1`
+    );
+  }
+  const bearerDigests = options.bearerTokens.map(digest);
+  const apiKeyDigests = options.apiKeys.map(digest);
+
+  // Without credentials only local clients can connect, so reject requests
+  // whose Host header shows they came through DNS rebinding. Set once the
+  // server listens, since PORT=0 only picks the port then.
+  let allowedHosts: string[] | undefined;
+
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+
+  const authenticate = (req: IncomingMessage): AuthInfo | undefined => {
+    if (open) {
+      return { token: "", clientId: "local", scopes: [] };
+    }
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const apiKey = req.headers["x-api-key"];
+    const candidates: Array<[string | undefined, Buffer[], string]> = [
+      [bearer, bearerDigests, "bearer"],
+      [typeof apiKey === "string" ? apiKey : undefined, apiKeyDigests, "api-key"],
+    ];
+    for (const [value, accepted, kind] of candidates) {
+      if (value && isAccepted(value, accepted)) {
+        // Identify the client by a fingerprint of its credential, never the credential itself
+        return { token: value, clientId: `${kind}:${digest(value).toString("hex").slice(0, 12)}`, scopes: [] };
+      }
+    }
+    return undefined;
+  };
+
+  const findSession = (
+    res: ServerResponse,
+    sessionId: string | undefined,
+    kind: Session["kind"],
+    auth: AuthInfo
+  ): Session | undefined => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== kind) {
+      sendRpcError(res, 404, -32001, "Session not found");
+      return undefined;
+    }
+    if (session.clientId !== auth.clientId) {
+      sendRpcError(res, 403, -32001, "Session belongs to another client");
+      return undefined;
+    }
+    session.lastSeen = Date.now();
+    return session;
+  };
+
+  const handleMcp = async (req: AuthenticatedRequest, res: ServerResponse, auth: AuthInfo) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+
+    if (req.method === "POST" && !sessionId) {
+      const body = await readJson(req);
+      if (!isInitializeRequest(body)) {
+        sendRpcError(res, 400, -32000, "Bad Request: no session ID and not an initialize request");
+        return;
+      }
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: !!allowedHosts,
+        allowedHosts,
+        onsessioninitialized: (id) => {
+          sessions.set(id, { kind: "streamable", transport, server, clientId: auth.clientId, lastSeen: Date.now() });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    const session = findSession(res, sessionId, "streamable", auth);
+    if (!session) {
+      return;
+    }
+    const transport = session.transport as StreamableHTTPServerTransport;
+    await transport.handleRequest(req, res, req.method === "POST" ? await readJson(req) : undefined);
+  };
+
+  const httpServer = createHttpServer(async (req: AuthenticatedRequest, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        const streamable = [...sessions.values()].filter((s) => s.kind === "streamable").length;
+        sendJson(res, 200, {
+          status: "ok",
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+          sessions: { streamable, sse: sessions.size - streamable },
+        });
+        return;
+      }
+
+      const auth = authenticate(req);
+      if (!auth) {
+        sendRpcError(res, 401, -32001, "Unauthorized", { "www-authenticate": 'Bearer realm="api-test-mcp-server"' });
+        return;
+      }
+      req.auth = auth;
+
+      if (url.pathname === "/mcp") {
+        await handleMcp(req, res, auth);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        const transport = new SSEServerTransport("/messages", res, {
+          enableDnsRebindingProtection: !!allowedHosts,
+          allowedHosts,
+        });
+        const server = createServer();
+        const id = transport.sessionId;
+        sessions.set(id, { kind: "sse", transport, server, clientId: auth.clientId, lastSeen: Date.now() });
+        transport.onclose = () => {
+          sessions.delete(id);
+        };
+        await server.connect(transport);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        const session = findSession(res, url.searchParams.get("sessionId") || undefined, "sse", auth);
+        if (session) {
+          await (session.transport as SSEServerTransport).handlePostMessage(req, res, await readJson(req));
+        }
+      } else {
+        sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+      }
+    } catch (error) {
+      const status = (error as { status?: number }).status || 500;
+      console.error(`HTTP ${req.method} ${url.pathname} failed:`, error);
+      if (!res.headersSent) {
+        sendRpcError(res, status, status === 400 ? -32700 : -32603, error instanceof Error ? error.message : String(error));
+      }
+    }
+  });
+
+  // Close sessions whose clients went away without ending them
+  const idleLimit = options.sessionIdleMinutes * 60 * 1000;
+  const sweeper = setInterval(() => {
+    for (const [id, session] of sessions) {
+      if (session.kind === "streamable" && Date.now() - session.lastSeen > idleLimit) {
+        sessions.delete(id);
+        session.server.close().catch(() => undefined);
+      }
+    }
+  }, 60 * 1000);
+  sweeper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+  const address = httpServer.address();
+  const port = typeof address === "object" && address ? address.port : options.port;
+  if (open) {
+    allowedHosts = [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+  }
+  const url = `http://${options.host.includes(":") ? `[${options.host}]` : options.host}:${port}`;
+
+  return {
+    url,
+    async close() {
+      clearInterval(sweeper);
+      const closing = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      await Promise.all([...sessions.values()].map((session) => session.server.close().catch(() => undefined)));
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await closing;
+    },
+  };
+}
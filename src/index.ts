@@ -2,41 +2,99 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolRequest,
+  type CompleteRequest,
+  type GetPromptRequest,
+  type ReadResourceRequest,
+  type ServerNotification,
+  type ServerRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { Octokit } from "@octokit/rest";
 import { z } from "zod";
 import * as Diff from "diff";
-
-// Configuration - Update these with your details
-interface ServiceConfig {
-  name: string;
-  repoOwner: string;
-  repoName: string;
-  automationRepoPath: string;
-  apiPatterns: string[]; // File patterns to detect API changes
-}
+import { stringify as stringifyYaml } from "yaml";
+import {
+  GitHubProvider,
+  LocalGitProvider,
+  type RepositoryProvider,
+} from "./providers/index.js";
+import { detectApiChanges, extractApiEndpoints } from "./endpoints.js";
+import { classifyFile, isApiFile, resolvePatterns } from "./patterns.js";
+import { diffApiEndpoints } from "./endpoint-diff.js";
+import { startHttpServer } from "./http.js";
+import { createResponseCache, installResponseCache, trackCacheUsage } from "./cache.js";
+import { toToolError, ToolError, toolErrorResult, trackWarnings } from "./errors.js";
+import { installRetry, observedRateLimits } from "./rate-limit.js";
+import { createGitHubRecording, installRecorder } from "./recording.js";
+import { findUntestedEndpoints } from "./coverage.js";
+import { scanServices, type ScanRange } from "./scan.js";
+import { compareReleases, VersionResolver } from "./releases.js";
+import { classifyApiChanges } from "./classify.js";
+import { ServiceRegistry, validateServices, readServicesConfig, type ServiceConfig } from "./config.js";
+import { ModelResolver } from "./models.js";
+import { diffGraphQlChanges } from "./graphql.js";
+import { diffOpenApiSpecs, generateOpenApi } from "./openapi.js";
+import { diffProtoChanges, resolveGrpcMethod } from "./protobuf.js";
+import { buildTemplateContext, renderTestTemplate } from "./templates.js";
+import { analyzePullRequest, filterPullRequestsTouchingApi, MAX_PULL_REQUESTS_CHECKED } from "./pull-requests.js";
+import { generateTestsForChanges } from "./test-generation.js";
+import { writeTestFile } from "./test-writer.js";
+import { completePromptArgument, getPrompt, listPrompts } from "./prompts.js";
+import {
+  completeResourceArgument,
+  listServiceResources,
+  readServiceResource,
+  resourceVersion,
+  ResourceSubscriptions,
+  RESOURCE_TEMPLATES,
+  type ResourceContext,
+} from "./resources.js";
 
 // Load configuration from environment or config file
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN || "";
 const DEFAULT_BASE_BRANCH = process.env.DEFAULT_BASE_BRANCH || "main";
 
-// Service configurations - customize for your 7 services
-const SERVICES: ServiceConfig[] = JSON.parse(
-  process.env.SERVICES_CONFIG || "[]"
-);
+// Command-line flags take precedence over their environment variables
+function option(flag: string, env: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return (index !== -1 ? process.argv[index + 1] : undefined) || process.env[env];
+}
+
+// stdio serves the local client; http serves remote sessions
+const TRANSPORT = option("--transport", "MCP_TRANSPORT") || "stdio";
+
+// Services come from the file given with --config or CONFIG_FILE (JSON or
+// YAML, reloaded on change), falling back to the SERVICES_CONFIG JSON string
+const registry = new ServiceRegistry(option("--config", "CONFIG_FILE"), process.env.SERVICES_CONFIG);
 
-const octokit = new Octokit({ auth: GITHUB_TOKEN });
+const responseCache = createResponseCache();
+
+// Record GitHub traffic to a fixture file, or replay it without a network
+const githubRecording = createGitHubRecording();
+
+// Deployed versions per environment, for "deployed" in compare_versions
+const DEPLOYMENTS_FILE = process.env.DEPLOYMENTS_FILE;
 
 // Tool input schemas
 const GetApiChangesSchema = z.object({
   serviceName: z.string().describe("Name of the service to check for API changes"),
   baseBranch: z.string().optional().describe("Base branch to compare against (default: main)"),
   headBranch: z.string().optional().describe("Head branch or commit to compare (default: latest commit)"),
+  classify: z.boolean().optional().describe("Classify endpoint changes as breaking, potentially breaking or additive"),
+  acknowledgedChanges: z.array(z.string()).optional().describe("Change ids already accepted as breaking"),
+  limit: z.number().int().positive().optional().describe("Maximum number of commits to list (default: all)"),
 });
 
 const GetApiDetailsSchema = z.object({
@@ -51,17 +109,30 @@ const GetTestTemplateSchema = z.object({
   serviceName: z.string().describe("Name of the service"),
   apiType: z.enum(["REST", "GraphQL", "gRPC"]).describe("Type of API"),
   httpMethod: z.string().optional().describe("HTTP method for REST APIs"),
+  framework: z.string().optional().describe("Test framework template pack (default: playwright)"),
+  path: z.string().optional().describe("Endpoint path for REST APIs"),
+  rpc: z.string().optional().describe("RPC for gRPC templates: Method, Service/Method or /package.Service/Method"),
+  ref: z.string().optional().describe("Git ref to read .proto files from (default: main)"),
 });
 
 const GetRecentCommitsSchema = z.object({
   serviceName: z.string().describe("Name of the service"),
   since: z.string().optional().describe("ISO date string to get commits since"),
-  perPage: z.number().optional().describe("Number of commits to fetch (default: 10)"),
+  limit: z.number().int().positive().optional().describe("Number of commits to fetch (default: 10)"),
+  perPage: z.number().int().positive().optional().describe("Deprecated alias of limit"),
 });
 
 const GetPullRequestsSchema = z.object({
   serviceName: z.string().describe("Name of the service"),
-  state: z.enum(["open", "closed", "all"]).optional().describe("PR state filter"),
+  state: z.enum(["open", "closed", "all"]).optional().describe("PR state filter (default: open)"),
+  limit: z.number().int().positive().optional().describe("Maximum number of pull requests (default: all)"),
+  touchesApiFiles: z.boolean().optional().describe("Only return pull requests that change API files"),
+});
+
+const AnalyzePullRequestSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  number: z.number().int().positive().describe("Pull request number"),
+  acknowledgedChanges: z.array(z.string()).optional().describe("Change ids already accepted as breaking"),
 });
 
 const AnalyzeApiEndpointSchema = z.object({
@@ -70,167 +141,212 @@ const AnalyzeApiEndpointSchema = z.object({
   ref: z.string().optional().describe("Git ref to read from"),
 });
 
+const DiffApiEndpointsSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  baseBranch: z.string().optional().describe("Base branch or commit (default: main)"),
+  headBranch: z.string().describe("Head branch or commit to compare"),
+});
+
+const CompareBranchesSchema = z.object({
+  serviceName: z.string(),
+  baseBranch: z.string().optional(),
+  headBranch: z.string(),
+  classify: z.boolean().optional(),
+  acknowledgedChanges: z.array(z.string()).optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+const GetEndpointModelsSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  filePath: z.string().describe("Path to the controller file"),
+  ref: z.string().optional().describe("Git ref to read from"),
+  method: z.string().optional().describe("Only endpoints with this HTTP method"),
+  path: z.string().optional().describe("Only endpoints with this path"),
+});
+
+const DiffOpenApiSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  baseBranch: z.string().optional().describe("Base branch or commit (default: main)"),
+  headBranch: z.string().describe("Head branch or commit to compare"),
+  specPath: z.string().optional().describe("Path of the spec file (default: every openapi*/swagger* file)"),
+});
+
+const DiffProtoSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  baseBranch: z.string().optional().describe("Base branch or commit (default: main)"),
+  headBranch: z.string().describe("Head branch or commit to compare"),
+});
+
+const DiffGraphQlSchemaSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  baseBranch: z.string().optional().describe("Base branch or commit (default: main)"),
+  headBranch: z.string().describe("Head branch or commit to compare"),
+});
+
+const GenerateOpenApiSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  ref: z.string().optional().describe("Git ref to read from"),
+  format: z.enum(["json", "yaml"]).optional().describe("Output format (default: json)"),
+  includeModels: z.boolean().optional().describe("Resolve request/response DTOs into schemas (default: true)"),
+});
+
+const ExplainFileClassificationSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  paths: z.array(z.string()).min(1).describe("Repository-relative file paths to classify"),
+});
+
+const ListReleasesSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  tagPattern: z.string().optional().describe("Only tags and releases matching this glob (e.g. \"v*\")"),
+  limit: z.number().int().positive().optional().describe("Maximum number of tags and releases to return (default: 20)"),
+});
+
+const CompareVersionsSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  from: z
+    .string()
+    .optional()
+    .describe("Version to compare from (default: \"deployed\" with a manifest, otherwise \"latest\")"),
+  to: z.string().optional().describe("Version to compare to (default: the service's base branch)"),
+  tagPattern: z.string().optional().describe("Only tags and releases matching this glob count"),
+  manifestPath: z.string().optional().describe("Deployment manifest for \"deployed\" (default: DEPLOYMENTS_FILE)"),
+  acknowledgedChanges: z.array(z.string()).optional().describe("Change ids already accepted as breaking"),
+  limit: z.number().int().positive().optional().describe("Maximum number of commits to read (default: all)"),
+});
+
+const ScanAllServicesSchema = z.object({
+  serviceNames: z.array(z.string()).optional().describe("Only scan these services (default: every configured service)"),
+  baseBranch: z.string().optional().describe("Base of a branch pair (default: each service's base branch)"),
+  headBranch: z.string().optional().describe("Head of a branch pair, or the branch a tag or date range is read on"),
+  tagPattern: z.string().optional().describe("Compare the newest tag matching this glob (e.g. \"v*\") with the head branch"),
+  since: z.string().optional().describe("Start of a date range (ISO 8601); the base is the last commit before it"),
+  until: z.string().optional().describe("End of a date range (default: the branch tip)"),
+  concurrency: z.number().int().min(1).max(10).optional().describe("Services scanned at the same time (default: 4)"),
+  limit: z.number().int().positive().optional().describe("Maximum number of commits to read per service (default: all)"),
+});
+
+const FindUntestedEndpointsSchema = z.object({
+  serviceName: z.string().optional().describe("Name of the service (default: every configured service)"),
+  ref: z.string().optional().describe("Git ref of the service repository to read endpoints from"),
+});
+
+const GenerateTestsForChangesSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  baseBranch: z.string().optional().describe("Base branch or commit (default: main)"),
+  headBranch: z.string().describe("Head branch or commit containing the changes"),
+  endpoints: z.array(z.string()).optional().describe('Only generate tests for these endpoints, e.g. "POST /api/v1/campaigns"'),
+});
+
+const WriteTestFileSchema = z.object({
+  serviceName: z.string().describe("Name of the service"),
+  path: z.string().describe("File path relative to the service's automationRepoPath"),
+  content: z.string().describe("Test file content"),
+  dryRun: z.boolean().optional().describe("Only return the diff without writing"),
+  onConflict: z.enum(["merge", "overwrite", "fail"]).optional().describe("What to do when the file exists (default: merge)"),
+  branch: z.string().optional().describe("Create or switch to this git branch in the automation repo before writing"),
+  commit: z.boolean().optional().describe("Commit the file in the automation repo"),
+  commitMessage: z.string().optional().describe("Commit message"),
+});
+
+const ValidateConfigSchema = z.object({
+  path: z
+    .string()
+    .optional()
+    .describe("Config file to validate instead of the active configuration; it is not applied. Not available over HTTP"),
+  checkRepositories: z.boolean().optional().describe("Read each repository and base branch (default: true)"),
+});
+
+const GetRateLimitStatusSchema = z.object({
+  serviceName: z.string().optional().describe("Only the token and API host used by this service"),
+});
+
+const ClearCacheSchema = z.object({
+  serviceName: z.string().optional().describe("Only clear cached responses for this service's repository"),
+});
+
 // Helper functions
 function getServiceConfig(serviceName: string): ServiceConfig | undefined {
-  return SERVICES.find(
+  return registry.services.find(
     (s) => s.name.toLowerCase() === serviceName.toLowerCase()
   );
 }
 
-async function getFileContent(
-  owner: string,
-  repo: string,
-  path: string,
-  ref?: string
-): Promise<string> {
-  try {
-    const response = await octokit.repos.getContent({
-      owner,
-      repo,
-      path,
-      ref: ref || DEFAULT_BASE_BRANCH,
-    });
-
-    if ("content" in response.data) {
-      return Buffer.from(response.data.content, "base64").toString("utf-8");
-    }
-    throw new Error("Not a file");
-  } catch (error) {
-    throw new Error(`Failed to fetch file: ${error}`);
+// The named service, or a SERVICE_NOT_FOUND error listing the configured ones
+function requireService(serviceName: string): ServiceConfig {
+  const service = getServiceConfig(serviceName);
+  if (!service) {
+    const available = registry.services.map((s) => s.name);
+    throw new ToolError(
+      "SERVICE_NOT_FOUND",
+      `Service "${serviceName}" not found. Available services: ${available.join(", ") || "none"}`,
+      { serviceName, availableServices: available }
+    );
   }
+  return service;
 }
 
-async function compareCommits(
-  owner: string,
-  repo: string,
-  base: string,
-  head: string
-) {
-  const response = await octokit.repos.compareCommits({
-    owner,
-    repo,
-    base,
-    head,
-  });
-  return response.data;
+function baseBranchOf(service: ServiceConfig): string {
+  return service.baseBranch || DEFAULT_BASE_BRANCH;
 }
 
-function detectApiChanges(
-  files: Array<{ filename: string; status: string; patch?: string }>,
-  apiPatterns: string[]
-): Array<{
-  filename: string;
-  status: string;
-  changes: string[];
-  isApiFile: boolean;
-}> {
-  return files
-    .filter((file) => {
-      return apiPatterns.some((pattern) => {
-        const regex = new RegExp(pattern.replace(/\*/g, ".*"));
-        return regex.test(file.filename);
-      });
-    })
-    .map((file) => {
-      const changes: string[] = [];
-
-      if (file.patch) {
-        // Parse the patch to extract meaningful changes
-        const lines = file.patch.split("\n");
-        let currentEndpoint = "";
-
-        for (const line of lines) {
-          // Detect common API patterns
-          const routePatterns = [
-            /(@(Get|Post|Put|Delete|Patch|RequestMapping))/i, // Spring/Java
-            /app\.(get|post|put|delete|patch)\s*\(/i, // Express.js
-            /router\.(get|post|put|delete|patch)\s*\(/i, // Express Router
-            /@(api_view|action)\s*\(/i, // Django/DRF
-            /def\s+(get|post|put|delete|patch)\s*\(/i, // Python
-            /func\s+\(.*\)\s+(Get|Post|Put|Delete|Patch)/i, // Go
-            /\[Http(Get|Post|Put|Delete|Patch)\]/i, // ASP.NET
-          ];
-
-          for (const pattern of routePatterns) {
-            if (pattern.test(line)) {
-              changes.push(line.trim());
-              break;
-            }
-          }
-        }
-      }
+// One Octokit per API host and token, all sharing the response cache
+const octokits = new Map<string, Octokit>();
 
-      return {
-        filename: file.filename,
-        status: file.status,
-        changes,
-        isApiFile: true,
-      };
-    });
+function tokenOf(service: ServiceConfig): string {
+  return service.token || (service.tokenEnv ? process.env[service.tokenEnv] || "" : GITHUB_TOKEN);
 }
 
-function extractApiEndpoints(content: string, filename: string): Array<{
-  method: string;
-  path: string;
-  handler: string;
-  lineNumber: number;
-}> {
-  const endpoints: Array<{
-    method: string;
-    path: string;
-    handler: string;
-    lineNumber: number;
-  }> = [];
-
-  const lines = content.split("\n");
-
-  // Common patterns for different frameworks
-  const patterns = [
-    // Express.js
-    { regex: /(app|router)\.(get|post|put|delete|patch)\s*\(\s*['"`]([^'"`]+)['"`]/gi, methodIndex: 2, pathIndex: 3 },
-    // Spring Boot
-    { regex: /@(GetMapping|PostMapping|PutMapping|DeleteMapping|PatchMapping)\s*\(\s*(?:value\s*=\s*)?['"`]?([^'"`\)]+)['"`]?/gi, methodIndex: 1, pathIndex: 2 },
-    // FastAPI
-    { regex: /@app\.(get|post|put|delete|patch)\s*\(\s*['"`]([^'"`]+)['"`]/gi, methodIndex: 1, pathIndex: 2 },
-    // Django REST Framework
-    { regex: /@action\s*\(\s*.*methods\s*=\s*\[\s*['"`](\w+)['"`]/gi, methodIndex: 1, pathIndex: null },
-    // Go Gin
-    { regex: /(GET|POST|PUT|DELETE|PATCH)\s*\(\s*['"`]([^'"`]+)['"`]/gi, methodIndex: 1, pathIndex: 2 },
-  ];
-
-  lines.forEach((line, index) => {
-    for (const pattern of patterns) {
-      const matches = [...line.matchAll(pattern.regex)];
-      for (const match of matches) {
-        endpoints.push({
-          method: match[pattern.methodIndex]?.toUpperCase() || "UNKNOWN",
-          path: pattern.pathIndex ? match[pattern.pathIndex] : "",
-          handler: line.trim(),
-          lineNumber: index + 1,
-        });
-      }
+// Where a service's token comes from, without revealing it
+function tokenSourceOf(service: ServiceConfig): string {
+  if (service.token) {
+    return "token in the service config";
+  }
+  const env = service.tokenEnv || "GITHUB_TOKEN";
+  return tokenOf(service) ? `$${env}` : `none ($${env} is not set)`;
+}
+
+function getOctokit(service: ServiceConfig): Octokit {
+  const auth = tokenOf(service);
+  const baseUrl = service.apiHost?.replace(/\/+$/, "");
+  const key = `${baseUrl || ""} ${auth}`;
+  let octokit = octokits.get(key);
+  if (!octokit) {
+    octokit = new Octokit({ auth, ...(baseUrl ? { baseUrl } : {}) });
+    if (githubRecording) {
+      installRecorder(octokit, githubRecording);
     }
-  });
+    // The retry hook sits inside the cache, so cached responses never wait
+    installRetry(octokit, { retries: Number(process.env.GITHUB_MAX_RETRIES ?? 3) });
+    // A recording has to see every request, and a replay needs no cache
+    if (!githubRecording) {
+      installResponseCache(octokit, responseCache, auth);
+    }
+    octokits.set(key, octokit);
+  }
+  return octokit;
+}
 
-  return endpoints;
+// Services with a localRepoPath read from that clone; everything else goes
+// through the GitHub API
+function createRepositoryProvider(service: ServiceConfig): RepositoryProvider {
+  return service.localRepoPath
+    ? new LocalGitProvider(service.localRepoPath)
+    : new GitHubProvider(getOctokit(service), service.repoOwner, service.repoName);
 }
 
-// Create MCP Server
-const server = new Server(
-  {
-    name: "api-test-mcp-server",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
-    },
+const providers = new Map<string, RepositoryProvider>();
+
+function getRepositoryProvider(service: ServiceConfig): RepositoryProvider {
+  let provider = providers.get(service.name);
+  if (!provider) {
+    provider = createRepositoryProvider(service);
+    providers.set(service.name, provider);
   }
-);
+  return provider;
+}
 
 // List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function listTools() {
   return {
     tools: [
       {
@@ -260,6 +376,19 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Head branch or commit to compare",
             },
+            classify: {
+              type: "boolean",
+              description: "Also diff endpoints at both refs and classify each change as breaking, potentially breaking or additive (default: false)",
+            },
+            acknowledgedChanges: {
+              type: "array",
+              items: { type: "string" },
+              description: "Ids of breaking changes already accepted; they no longer fail the release gate",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of commits to list (default: all)",
+            },
           },
           required: ["serviceName"],
         },
@@ -300,10 +429,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "ISO date string to get commits since",
             },
-            perPage: {
+            limit: {
               type: "number",
               description: "Number of commits to fetch (default: 10)",
             },
+            perPage: {
+              type: "number",
+              description: "Deprecated alias of limit",
+            },
           },
           required: ["serviceName"],
         },
@@ -321,12 +454,43 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             state: {
               type: "string",
               enum: ["open", "closed", "all"],
-              description: "PR state filter",
+              description: "PR state filter (default: open)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of pull requests to return (default: all)",
+            },
+            touchesApiFiles: {
+              type: "boolean",
+              description: `Only return pull requests that change API files, listing those files; applied after limit, and to at most the ${MAX_PULL_REQUESTS_CHECKED} most recent pull requests (default: false)`,
             },
           },
           required: ["serviceName"],
         },
       },
+      {
+        name: "analyze_pull_request",
+        description: "Analyze the API impact of a pull request: compares it against its own base branch using the PR's file list, and returns endpoint changes with breaking-change classification, linked issues, review status and labels",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            number: {
+              type: "number",
+              description: "Pull request number",
+            },
+            acknowledgedChanges: {
+              type: "array",
+              items: { type: "string" },
+              description: "Ids of breaking changes already accepted; they no longer fail the release gate",
+            },
+          },
+          required: ["serviceName", "number"],
+        },
+      },
       {
         name: "analyze_api_endpoint",
         description: "Analyze an API file and extract all endpoint definitions with their methods, paths, and handlers",
@@ -351,7 +515,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "get_test_template",
-        description: "Get a test template based on API type and service",
+        description: "Get a test template for an API type and test framework, from the built-in packs or the automation repo's own templates",
         inputSchema: {
           type: "object",
           properties: {
@@ -368,6 +532,22 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "HTTP method for REST APIs",
             },
+            framework: {
+              type: "string",
+              description: "Test framework template pack: restassured, karate, pytest, playwright or a custom pack (default: playwright)",
+            },
+            path: {
+              type: "string",
+              description: "Endpoint path for REST APIs (default: /api/v1/endpoint)",
+            },
+            rpc: {
+              type: "string",
+              description: "RPC for gRPC templates, as Method, Service/Method or /package.Service/Method; filled in from the service's .proto files (default: the first RPC found)",
+            },
+            ref: {
+              type: "string",
+              description: "Git ref to read .proto files from (default: main)",
+            },
           },
           required: ["serviceName", "apiType"],
         },
@@ -390,188 +570,1029 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Head branch to compare",
             },
+            classify: {
+              type: "boolean",
+              description: "Also diff endpoints at both refs and classify each change as breaking, potentially breaking or additive (default: false)",
+            },
+            acknowledgedChanges: {
+              type: "array",
+              items: { type: "string" },
+              description: "Ids of breaking changes already accepted; they no longer fail the release gate",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of commits to list (default: all)",
+            },
           },
           required: ["serviceName", "headBranch"],
         },
       },
-    ],
-  };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "list_services": {
-        if (SERVICES.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    error: "No services configured",
-                    help: "Set SERVICES_CONFIG environment variable with your service configurations",
-                    example: [
-                      {
-                        name: "user-service",
-                        repoOwner: "your-org",
-                        repoName: "user-service",
-                        automationRepoPath: "/path/to/automation/user-service",
-                        apiPatterns: ["**/controllers/**", "**/routes/**"],
-                      },
-                    ],
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  services: SERVICES.map((s) => ({
-                    name: s.name,
-                    repo: `${s.repoOwner}/${s.repoName}`,
-                    automationPath: s.automationRepoPath,
-                    apiPatterns: s.apiPatterns,
-                  })),
-                },
-                null,
-                2
-              ),
+      {
+        name: "diff_api_endpoints",
+        description: "Extract endpoints from every changed API file at both the base and head ref and return a structured diff keyed by method+path: added, removed, method changed, path changed and handler signature changed",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
             },
-          ],
-        };
-      }
-
-      case "get_api_changes": {
-        const parsed = GetApiChangesSchema.parse(args);
-        const service = getServiceConfig(parsed.serviceName);
-
-        if (!service) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Service "${parsed.serviceName}" not found. Available services: ${SERVICES.map((s) => s.name).join(", ")}`,
-              },
-            ],
-          };
-        }
-
-        const base = parsed.baseBranch || DEFAULT_BASE_BRANCH;
-        const head = parsed.headBranch || DEFAULT_BASE_BRANCH;
-
-        const comparison = await compareCommits(
-          service.repoOwner,
-          service.repoName,
-          base,
-          head
-        );
-
-        const apiChanges = detectApiChanges(
-          comparison.files || [],
-          service.apiPatterns
-        );
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  service: service.name,
-                  comparison: {
-                    base,
-                    head,
-                    aheadBy: comparison.ahead_by,
-                    behindBy: comparison.behind_by,
-                    totalCommits: comparison.total_commits,
-                  },
-                  apiChanges,
-                  allChangedFiles: comparison.files?.map((f) => ({
-                    filename: f.filename,
-                    status: f.status,
-                  })),
-                },
-                null,
-                2
-              ),
+            baseBranch: {
+              type: "string",
+              description: "Base branch or commit (default: main)",
             },
-          ],
-        };
-      }
-
-      case "get_api_details": {
-        const parsed = GetApiDetailsSchema.parse(args);
-        const service = getServiceConfig(parsed.serviceName);
-
-        if (!service) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Service "${parsed.serviceName}" not found.`,
-              },
-            ],
-          };
-        }
-
-        const content = await getFileContent(
-          service.repoOwner,
-          service.repoName,
-          parsed.filePath,
-          parsed.ref
-        );
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  service: service.name,
-                  filePath: parsed.filePath,
-                  ref: parsed.ref || DEFAULT_BASE_BRANCH,
-                  content,
-                },
-                null,
-                2
-              ),
+            headBranch: {
+              type: "string",
+              description: "Head branch or commit to compare",
+            },
+          },
+          required: ["serviceName", "headBranch"],
+        },
+      },
+      {
+        name: "get_endpoint_models",
+        description: "Follow each endpoint's @RequestBody and return type to their DTO classes at the same ref, and return JSON-Schema-like models with Bean Validation constraints, a valid sample payload and boundary/negative cases per constraint",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            filePath: {
+              type: "string",
+              description: "Path to the controller file",
+            },
+            ref: {
+              type: "string",
+              description: "Git ref to read from",
+            },
+            method: {
+              type: "string",
+              description: "Only endpoints with this HTTP method",
+            },
+            path: {
+              type: "string",
+              description: "Only endpoints with this path",
+            },
+          },
+          required: ["serviceName", "filePath"],
+        },
+      },
+      {
+        name: "diff_openapi",
+        description: "Diff the OpenAPI/Swagger spec files (JSON or YAML) committed in a service repo between two refs: operations, parameters, request/response schemas and response codes, each flagged breaking, potentially breaking or additive",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            baseBranch: {
+              type: "string",
+              description: "Base branch or commit (default: main)",
+            },
+            headBranch: {
+              type: "string",
+              description: "Head branch or commit to compare",
+            },
+            specPath: {
+              type: "string",
+              description: "Path of the spec file (default: every openapi*/swagger* file in the repo)",
+            },
+          },
+          required: ["serviceName", "headBranch"],
+        },
+      },
+      {
+        name: "diff_graphql_schema",
+        description: "Diff the GraphQL schema between two refs, read from changed .graphql/.graphqls SDL files and Spring for GraphQL resolvers (@QueryMapping, @MutationMapping, @SchemaMapping): added, removed and changed types, fields, arguments and enum values, each flagged breaking, potentially breaking or additive",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            baseBranch: {
+              type: "string",
+              description: "Base branch or commit (default: main)",
+            },
+            headBranch: {
+              type: "string",
+              description: "Head branch or commit to compare",
+            },
+          },
+          required: ["serviceName", "headBranch"],
+        },
+      },
+      {
+        name: "diff_proto",
+        description: "Diff the protobuf contract (.proto files) between two refs: services, RPCs, messages, field numbers and types, flagging wire-incompatible changes such as reused or changed field numbers, type changes, removed RPCs and streaming mode changes",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            baseBranch: {
+              type: "string",
+              description: "Base branch or commit (default: main)",
+            },
+            headBranch: {
+              type: "string",
+              description: "Head branch or commit to compare",
+            },
+          },
+          required: ["serviceName", "headBranch"],
+        },
+      },
+      {
+        name: "generate_openapi",
+        description: "Walk every file matching a service's apiPatterns at a ref, extract its endpoints and assemble an OpenAPI 3.1 document with paths, methods, path/query/header parameters, request bodies where known and the source file and line as x-source",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            ref: {
+              type: "string",
+              description: "Git ref to read from",
+            },
+            format: {
+              type: "string",
+              enum: ["json", "yaml"],
+              description: "Output format (default: json)",
+            },
+            includeModels: {
+              type: "boolean",
+              description: "Resolve request/response DTO classes into schemas (default: true)",
+            },
+          },
+          required: ["serviceName"],
+        },
+      },
+      {
+        name: "explain_file_classification",
+        description: "Explain whether each path counts as an API file for a service, which include pattern matched it and which exclude pattern (if any) removed it",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            paths: {
+              type: "array",
+              items: { type: "string" },
+              description: "Repository-relative file paths to classify",
+            },
+          },
+          required: ["serviceName", "paths"],
+        },
+      },
+      {
+        name: "list_releases",
+        description: "List a service's GitHub releases and tags, newest version first, with the commit each tag points at and the release \"latest\" resolves to",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            tagPattern: {
+              type: "string",
+              description: "Only tags and releases matching this glob (e.g. \"v*\")",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of tags and releases to return (default: 20)",
+            },
+          },
+          required: ["serviceName"],
+        },
+      },
+      {
+        name: "compare_versions",
+        description: "Compare the API of two versions of a service, e.g. what is deployed to production against what is about to ship. Each version can be latest (newest release), deployed or deployed:<environment> (from the deployment manifest), a tag name, a semver range such as ^1.4 (newest matching tag), or a branch or commit SHA. Returns the resolved refs, the classified endpoint changes and a Markdown API changelog for release notes",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            from: {
+              type: "string",
+              description: "Version to compare from (default: \"deployed\" with a manifest, otherwise \"latest\")",
+            },
+            to: {
+              type: "string",
+              description: "Version to compare to (default: the service's base branch)",
+            },
+            tagPattern: {
+              type: "string",
+              description: "Only tags and releases matching this glob count",
+            },
+            manifestPath: {
+              type: "string",
+              description: "Deployment manifest for \"deployed\" (default: DEPLOYMENTS_FILE)",
+            },
+            acknowledgedChanges: {
+              type: "array",
+              items: { type: "string" },
+              description: "Change ids already accepted as breaking",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of commits to read (default: all)",
+            },
+          },
+          required: ["serviceName"],
+        },
+      },
+      {
+        name: "scan_all_services",
+        description: "Run API change detection for every configured service over one common range (a branch pair, the newest tag matching a pattern, or a date range) and return a consolidated report with endpoint changes, breaking-change counts and totals. Failing services are reported without stopping the sweep; progress notifications are sent when the request has a progressToken",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceNames: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only scan these services (default: every configured service)",
+            },
+            baseBranch: {
+              type: "string",
+              description: "Base of a branch pair (default: each service's base branch)",
+            },
+            headBranch: {
+              type: "string",
+              description: "Head of a branch pair, or the branch a tag or date range is read on",
+            },
+            tagPattern: {
+              type: "string",
+              description: "Compare the newest tag matching this glob (e.g. \"v*\") with the head branch",
+            },
+            since: {
+              type: "string",
+              description: "Start of a date range (ISO 8601); the base is the last commit before it",
+            },
+            until: {
+              type: "string",
+              description: "End of a date range (default: the branch tip)",
+            },
+            concurrency: {
+              type: "number",
+              description: "Services scanned at the same time (default: 4)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of commits to read per service (default: all)",
+            },
+          },
+        },
+      },
+      {
+        name: "find_untested_endpoints",
+        description: "Scan a service's automation repository for HTTP calls made by tests (Playwright, RestAssured, pytest requests, Postman collections) and cross-reference them with the endpoints in the service repository, listing covered, uncovered and orphaned (tested but no longer existing) endpoints",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service (default: every configured service)",
+            },
+            ref: {
+              type: "string",
+              description: "Git ref of the service repository to read endpoints from",
+            },
+          },
+        },
+      },
+      {
+        name: "generate_tests_for_changes",
+        description: "Generate one Playwright API test file per endpoint added or changed between two refs, with the real method and path, path parameter placeholders, auth header, a request body sample and positive, validation and authentication cases, and the target path in the automation repository",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            baseBranch: {
+              type: "string",
+              description: "Base branch or commit (default: main)",
+            },
+            headBranch: {
+              type: "string",
+              description: "Head branch or commit containing the changes",
+            },
+            endpoints: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Only generate tests for these endpoints, e.g. "POST /api/v1/campaigns"',
+            },
+          },
+          required: ["serviceName", "headBranch"],
+        },
+      },
+      {
+        name: "write_test_file",
+        description: "Write generated test content into a service's automation repository. Paths outside the repo are refused, an existing test file gets only the new test cases merged in, dryRun returns a unified diff instead of writing, and the file can optionally be committed on a new git branch",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Name of the service",
+            },
+            path: {
+              type: "string",
+              description: "File path relative to the service's automationRepoPath",
+            },
+            content: {
+              type: "string",
+              description: "Test file content",
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Only return the diff without writing",
+            },
+            onConflict: {
+              type: "string",
+              enum: ["merge", "overwrite", "fail"],
+              description: "What to do when the file exists (default: merge)",
+            },
+            branch: {
+              type: "string",
+              description: "Create or switch to this git branch in the automation repo before writing",
+            },
+            commit: {
+              type: "boolean",
+              description: "Commit the file in the automation repo",
+            },
+            commitMessage: {
+              type: "string",
+              description: "Commit message",
+            },
+          },
+          required: ["serviceName", "path", "content"],
+        },
+      },
+      {
+        name: "validate_config",
+        description: "Validate the service configuration: schema errors with their location, unreachable repositories or base branches, missing automation, template and local clone paths, and missing tokens",
+        inputSchema: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "Config file to validate instead of the active configuration; it is not applied. Not available over HTTP",
+            },
+            checkRepositories: {
+              type: "boolean",
+              description: "Read each repository and base branch (default: true)",
+            },
+          },
+        },
+      },
+      {
+        name: "clear_cache",
+        description: "Clear the on-disk cache of GitHub API responses, for every repository or only one service's",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Only clear cached responses for this service's repository",
+            },
+          },
+        },
+      },
+      {
+        name: "get_rate_limit_status",
+        description:
+          "Show the remaining GitHub API rate limit of every token and API host the services use, and which services share each one",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceName: {
+              type: "string",
+              description: "Only the token and API host used by this service",
+            },
+          },
+        },
+      },
+    ],
+  };
+}
+
+// Handle tool calls
+// Sends notifications/progress for requests that carry a progressToken
+type ProgressReporter = (progress: number, total: number, message: string) => Promise<void>;
+
+async function handleCallTool(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) {
+  const progressToken = request.params._meta?.progressToken;
+  const reportProgress: ProgressReporter | undefined =
+    progressToken === undefined
+      ? undefined
+      : (progress, total, message) =>
+          extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress, total, message },
+          });
+  const {
+    result: { result, usage },
+    warnings,
+  } = await trackWarnings(() =>
+    trackCacheUsage(() => callTool(request.params.name, request.params.arguments, reportProgress))
+  );
+  const meta = {
+    ...(usage.hits + usage.revalidated + usage.misses > 0 ? { cache: usage } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+  if (warnings.length > 0) {
+    // Also in the content, where the assistant reads it
+    result.content.push({ type: "text", text: JSON.stringify({ warnings }, null, 2) });
+  }
+  return Object.keys(meta).length > 0 ? { ...result, _meta: meta } : result;
+}
+
+async function callTool(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  reportProgress?: ProgressReporter
+) {
+  try {
+    switch (name) {
+      case "list_services": {
+        if (registry.services.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "No services configured",
+                    help: "Pass --config <file> or set CONFIG_FILE to a JSON or YAML list of services, or set the SERVICES_CONFIG environment variable",
+                    config: registry.status(),
+                    example: [
+                      {
+                        name: "user-service",
+                        repoOwner: "your-org",
+                        repoName: "user-service",
+                        automationRepoPath: "/path/to/automation/user-service",
+                        apiPatterns: ["**/controllers/**", "**/routes/**"],
+                      },
+                    ],
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  services: registry.services.map((s) => ({
+                    name: s.name,
+                    repo: `${s.repoOwner}/${s.repoName}`,
+                    automationPath: s.automationRepoPath,
+                    localRepoPath: s.localRepoPath,
+                    apiHost: s.apiHost,
+                    baseBranch: baseBranchOf(s),
+                    framework: s.framework,
+                    apiPatterns: s.apiPatterns,
+                    excludePatterns: s.excludePatterns,
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "get_api_changes": {
+        const parsed = GetApiChangesSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const base = parsed.baseBranch || baseBranchOf(service);
+        const head = parsed.headBranch || baseBranchOf(service);
+
+        const comparison = await getRepositoryProvider(service).compareCommits(base, head, {
+          limit: parsed.limit,
+        });
+
+        const apiChanges = detectApiChanges(comparison.files, service);
+
+        const classification = parsed.classify
+          ? classifyApiChanges(
+              await diffApiEndpoints(getRepositoryProvider(service), service, base, head, comparison),
+              parsed.acknowledgedChanges
+            )
+          : undefined;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  comparison: {
+                    base,
+                    head,
+                    aheadBy: comparison.aheadBy,
+                    behindBy: comparison.behindBy,
+                    totalCommits: comparison.totalCommits,
+                    commitsListed: comparison.commits.length,
+                    filesChanged: comparison.files.length,
+                    truncated: comparison.truncated,
+                  },
+                  apiChanges,
+                  classification,
+                  allChangedFiles: comparison.files.map((f) => ({
+                    filename: f.filename,
+                    status: f.status,
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "get_api_details": {
+        const parsed = GetApiDetailsSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const content = await getRepositoryProvider(service).getFileContent(
+          parsed.filePath,
+          parsed.ref || baseBranchOf(service)
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  filePath: parsed.filePath,
+                  ref: parsed.ref || baseBranchOf(service),
+                  content,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "get_recent_commits": {
+        const parsed = GetRecentCommitsSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const commits = await getRepositoryProvider(service).listCommits({
+          since: parsed.since,
+          limit: parsed.limit || parsed.perPage || 10,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  count: commits.items.length,
+                  truncated: commits.truncated,
+                  commits: commits.items,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "get_pull_requests": {
+        const parsed = GetPullRequestsSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const provider = getRepositoryProvider(service);
+        const limit = parsed.touchesApiFiles
+          ? Math.min(parsed.limit ?? MAX_PULL_REQUESTS_CHECKED, MAX_PULL_REQUESTS_CHECKED)
+          : parsed.limit;
+        const pullRequests = await provider.listPullRequests(parsed.state || "open", limit);
+        const items = parsed.touchesApiFiles
+          ? await filterPullRequestsTouchingApi(provider, service, pullRequests.items)
+          : pullRequests.items;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  count: items.length,
+                  truncated: pullRequests.truncated,
+                  pullRequests: items,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "analyze_pull_request": {
+        const parsed = AnalyzePullRequestSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const analysis = await analyzePullRequest(
+          getRepositoryProvider(service),
+          service,
+          parsed.number,
+          parsed.acknowledgedChanges
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(analysis, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "analyze_api_endpoint": {
+        const parsed = AnalyzeApiEndpointSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const content = await getRepositoryProvider(service).getFileContent(
+          parsed.filePath,
+          parsed.ref || baseBranchOf(service)
+        );
+
+        const endpoints = extractApiEndpoints(content, parsed.filePath);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  filePath: parsed.filePath,
+                  endpoints,
+                  totalEndpoints: endpoints.length,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "get_test_template": {
+        const parsed = GetTestTemplateSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+        const automationPath = service.automationRepoPath;
+        const framework = parsed.framework || "playwright";
+        const grpc =
+          parsed.apiType === "gRPC"
+            ? await resolveGrpcMethod(
+                getRepositoryProvider(service),
+                parsed.ref || baseBranchOf(service),
+                parsed.rpc
+              )
+            : undefined;
+
+        const { pack, content } = await renderTestTemplate(
+          service,
+          framework,
+          parsed.apiType,
+          buildTemplateContext({
+            serviceName: service.name,
+            automationPath,
+            apiType: parsed.apiType,
+            httpMethod: parsed.httpMethod,
+            path: parsed.path,
+            grpc,
+          })
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  apiType: parsed.apiType,
+                  httpMethod: parsed.httpMethod,
+                  framework: pack.name,
+                  fileExtension: pack.fileExtension,
+                  templateSource: pack.templates[parsed.apiType],
+                  rpc: grpc && `/${grpc.clientPath}/${grpc.method}`,
+                  template: content,
+                  automationRepoPath: automationPath,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "compare_branches": {
+        const parsed = CompareBranchesSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const base = parsed.baseBranch || baseBranchOf(service);
+        const comparison = await getRepositoryProvider(service).compareCommits(base, parsed.headBranch, {
+          limit: parsed.limit,
+        });
+
+        const apiFiles = comparison.files.filter((f) =>
+          isApiFile(f.filename, service)
+        );
+
+        const classification = parsed.classify
+          ? classifyApiChanges(
+              await diffApiEndpoints(
+                getRepositoryProvider(service),
+                service,
+                base,
+                parsed.headBranch,
+                comparison
+              ),
+              parsed.acknowledgedChanges
+            )
+          : undefined;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  comparison: {
+                    base,
+                    head: parsed.headBranch,
+                    status: comparison.status,
+                    aheadBy: comparison.aheadBy,
+                    behindBy: comparison.behindBy,
+                    totalCommits: comparison.totalCommits,
+                    commitsListed: comparison.commits.length,
+                    truncated: comparison.truncated,
+                  },
+                  summary: {
+                    totalFilesChanged: comparison.files.length,
+                    apiFilesChanged: apiFiles.length,
+                  },
+                  apiFiles: apiFiles.map((f) => ({
+                    filename: f.filename,
+                    status: f.status,
+                    additions: f.additions,
+                    deletions: f.deletions,
+                  })),
+                  classification,
+                  commits: comparison.commits.map((c) => ({
+                    sha: c.sha.substring(0, 7),
+                    message: c.message.split("\n")[0],
+                    author: c.author,
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "diff_api_endpoints": {
+        const parsed = DiffApiEndpointsSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const result = await diffApiEndpoints(
+          getRepositoryProvider(service),
+          service,
+          parsed.baseBranch || baseBranchOf(service),
+          parsed.headBranch
+        );
+        const { diff } = result;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  comparison: {
+                    base: result.base,
+                    head: result.head,
+                    mergeBase: result.baseRef,
+                    totalCommits: result.comparison.totalCommits,
+                  },
+                  summary: {
+                    filesAnalyzed: result.filesAnalyzed.length,
+                    added: diff.added.length,
+                    removed: diff.removed.length,
+                    methodChanged: diff.methodChanged.length,
+                    pathChanged: diff.pathChanged.length,
+                    signatureChanged: diff.signatureChanged.length,
+                  },
+                  ...diff,
+                  filesAnalyzed: result.filesAnalyzed,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "get_endpoint_models": {
+        const parsed = GetEndpointModelsSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const ref = parsed.ref || baseBranchOf(service);
+        const resolver = new ModelResolver(getRepositoryProvider(service), ref);
+        const content = await getRepositoryProvider(service).getFileContent(
+          parsed.filePath,
+          ref
+        );
+        const controller = resolver.sourceFromContent(parsed.filePath, content);
+
+        const endpoints = extractApiEndpoints(content, parsed.filePath).filter(
+          (e) =>
+            (!parsed.method || e.method === parsed.method.toUpperCase()) &&
+            (!parsed.path || e.path === parsed.path)
+        );
+        const models = [];
+        for (const endpoint of endpoints) {
+          models.push(await resolver.describeEndpoint(endpoint, controller));
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  filePath: parsed.filePath,
+                  ref,
+                  models,
+                  unresolvedTypes: [...resolver.unresolved],
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "diff_openapi": {
+        const parsed = DiffOpenApiSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const base = parsed.baseBranch || baseBranchOf(service);
+        const { baseRef, specs } = await diffOpenApiSpecs(
+          getRepositoryProvider(service),
+          base,
+          parsed.headBranch,
+          parsed.specPath
+        );
+
+        if (specs.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    service: service.name,
+                    specs: [],
+                    message: "No OpenAPI or Swagger spec found in the repository. Use get_api_changes or diff_api_endpoints to detect changes from the controllers instead.",
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const changes = specs.flatMap((spec) => spec.changes);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  comparison: {
+                    base,
+                    head: parsed.headBranch,
+                    mergeBase: baseRef,
+                  },
+                  summary: {
+                    specsChanged: specs.filter((s) => s.status !== "unchanged").length,
+                    breaking: changes.filter((c) => c.severity === "breaking").length,
+                    potentiallyBreaking: changes.filter((c) => c.severity === "potentially-breaking").length,
+                    additive: changes.filter((c) => c.severity === "additive").length,
+                  },
+                  specs,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case "diff_graphql_schema": {
+        const parsed = DiffGraphQlSchemaSchema.parse(args);
+        const service = requireService(parsed.serviceName);
+
+        const base = parsed.baseBranch || baseBranchOf(service);
+        const result = await diffGraphQlChanges(getRepositoryProvider(service), base, parsed.headBranch);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  service: service.name,
+                  comparison: {
+                    base,
+                    head: parsed.headBranch,
+                    mergeBase: result.baseRef,
+                  },
+                  summary: {
+                    filesChanged: result.files.length,
+                    breaking: result.changes.filter((c) => c.severity === "breaking").length,
+                    potentiallyBreaking: result.changes.filter((c) => c.severity === "potentially-breaking").length,
+                    additive: result.changes.filter((c) => c.severity === "additive").length,
+                  },
+                  files: result.files,
+                  operations: result.operations,
+                  changes: result.changes,
+                  message:
+                    result.files.length === 0
+                      ? "No GraphQL schema files or resolvers changed between these refs."
+                      : undefined,
+                },
+                null,
+                2
+              ),
             },
           ],
         };
       }
 
-      case "get_recent_commits": {
-        const parsed = GetRecentCommitsSchema.parse(args);
-        const service = getServiceConfig(parsed.serviceName);
-
-        if (!service) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Service "${parsed.serviceName}" not found.`,
-              },
-            ],
-          };
-        }
+      case "diff_proto": {
+        const parsed = DiffProtoSchema.parse(args);
+        const service = requireService(parsed.serviceName);
 
-        const commits = await octokit.repos.listCommits({
-          owner: service.repoOwner,
-          repo: service.repoName,
-          since: parsed.since,
-          per_page: parsed.perPage || 10,
-        });
+        const base = parsed.baseBranch || baseBranchOf(service);
+        const result = await diffProtoChanges(getRepositoryProvider(service), base, parsed.headBranch);
 
         return {
           content: [
@@ -580,13 +1601,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   service: service.name,
-                  commits: commits.data.map((c) => ({
-                    sha: c.sha,
-                    message: c.commit.message,
-                    author: c.commit.author?.name,
-                    date: c.commit.author?.date,
-                    url: c.html_url,
-                  })),
+                  comparison: {
+                    base,
+                    head: parsed.headBranch,
+                    mergeBase: result.baseRef,
+                  },
+                  summary: {
+                    filesChanged: result.files.length,
+                    breaking: result.changes.filter((c) => c.severity === "breaking").length,
+                    potentiallyBreaking: result.changes.filter((c) => c.severity === "potentially-breaking").length,
+                    additive: result.changes.filter((c) => c.severity === "additive").length,
+                  },
+                  files: result.files,
+                  rpcs: result.rpcs,
+                  changes: result.changes,
+                  message:
+                    result.files.length === 0 ? "No .proto files changed between these refs." : undefined,
                 },
                 null,
                 2
@@ -596,27 +1626,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case "get_pull_requests": {
-        const parsed = GetPullRequestsSchema.parse(args);
-        const service = getServiceConfig(parsed.serviceName);
+      case "generate_openapi": {
+        const parsed = GenerateOpenApiSchema.parse(args);
+        const service = requireService(parsed.serviceName);
 
-        if (!service) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Service "${parsed.serviceName}" not found.`,
-              },
-            ],
-          };
-        }
+        const generated = await generateOpenApi(
+          getRepositoryProvider(service),
+          service,
+          parsed.ref || baseBranchOf(service),
+          parsed.includeModels ?? true
+        );
+        const document = {
+          ...generated.document,
+          "x-generated": {
+            files: generated.files,
+            operations: generated.operations,
+            skipped: generated.skipped,
+          },
+        };
 
-        const prs = await octokit.pulls.list({
-          owner: service.repoOwner,
-          repo: service.repoName,
-          state: parsed.state || "open",
-          per_page: 20,
-        });
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                parsed.format === "yaml"
+                  ? stringifyYaml(document)
+                  : JSON.stringify(document, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "explain_file_classification": {
+        const parsed = ExplainFileClassificationSchema.parse(args);
+        const service = requireService(parsed.serviceName);
 
         return {
           content: [
@@ -625,16 +1669,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   service: service.name,
-                  pullRequests: prs.data.map((pr) => ({
-                    number: pr.number,
-                    title: pr.title,
-                    state: pr.state,
-                    author: pr.user?.login,
-                    createdAt: pr.created_at,
-                    headBranch: pr.head.ref,
-                    baseBranch: pr.base.ref,
-                    url: pr.html_url,
-                  })),
+                  patterns: resolvePatterns(service),
+                  files: parsed.paths.map((path) => classifyFile(path, service)),
                 },
                 null,
                 2
@@ -644,29 +1680,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case "analyze_api_endpoint": {
-        const parsed = AnalyzeApiEndpointSchema.parse(args);
-        const service = getServiceConfig(parsed.serviceName);
-
-        if (!service) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Service "${parsed.serviceName}" not found.`,
-              },
-            ],
-          };
-        }
-
-        const content = await getFileContent(
-          service.repoOwner,
-          service.repoName,
-          parsed.filePath,
-          parsed.ref
-        );
+      case "list_releases": {
+        const parsed = ListReleasesSchema.parse(args);
+        const service = requireService(parsed.serviceName);
 
-        const endpoints = extractApiEndpoints(content, parsed.filePath);
+        const limit = parsed.limit || 20;
+        const resolver = new VersionResolver(getRepositoryProvider(service), service, {
+          tagPattern: parsed.tagPattern,
+        });
+        const [tags, releases] = await Promise.all([resolver.listTags(), resolver.listReleases()]);
+        // No release or version tag yet is a normal answer; any other failure is not
+        const latest = await resolver.resolve("latest").catch((error: unknown) => {
+          if (error instanceof ToolError && error.code === "REF_NOT_FOUND") {
+            return undefined;
+          }
+          throw error;
+        });
 
         return {
           content: [
@@ -675,9 +1704,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   service: service.name,
-                  filePath: parsed.filePath,
-                  endpoints,
-                  totalEndpoints: endpoints.length,
+                  latest,
+                  releases: releases.slice(0, limit),
+                  tags: tags.slice(0, limit),
+                  totalReleases: releases.length,
+                  totalTags: tags.length,
                 },
                 null,
                 2
@@ -687,163 +1718,174 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case "get_test_template": {
-        const parsed = GetTestTemplateSchema.parse(args);
-        const service = getServiceConfig(parsed.serviceName);
+      case "compare_versions": {
+        const parsed = CompareVersionsSchema.parse(args);
+        const service = requireService(parsed.serviceName);
 
-        let template = "";
-        const automationPath = service?.automationRepoPath || "/path/to/automation";
+        const manifestPath = parsed.manifestPath || DEPLOYMENTS_FILE;
+        const result = await compareReleases(
+          getRepositoryProvider(service),
+          service,
+          parsed.from || (manifestPath ? "deployed" : "latest"),
+          parsed.to || baseBranchOf(service),
+          {
+            tagPattern: parsed.tagPattern,
+            manifestPath,
+            limit: parsed.limit,
+            acknowledgedChanges: parsed.acknowledgedChanges,
+          }
+        );
 
-        if (parsed.apiType === "REST") {
-          template = `
-// Test file location: ${automationPath}/tests/api/
-// Generated test template for ${parsed.serviceName} - ${parsed.httpMethod || "HTTP"} endpoint
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
 
-import { test, expect } from '@playwright/test';
-import { APIRequestContext } from '@playwright/test';
+      case "scan_all_services": {
+        const parsed = ScanAllServicesSchema.parse(args);
+        const services = parsed.serviceNames ? parsed.serviceNames.map(requireService) : registry.services;
 
-test.describe('${parsed.serviceName} API Tests', () => {
-  let apiContext: APIRequestContext;
+        if (parsed.tagPattern && parsed.since) {
+          throw new ToolError("INVALID_ARGUMENTS", "Pass either tagPattern or since, not both");
+        }
+        if (parsed.until && !parsed.since) {
+          throw new ToolError("INVALID_ARGUMENTS", "until needs since");
+        }
+        let range: ScanRange;
+        if (parsed.tagPattern) {
+          range = { kind: "tag", pattern: parsed.tagPattern, head: parsed.headBranch };
+        } else if (parsed.since) {
+          range = { kind: "dates", since: parsed.since, until: parsed.until, branch: parsed.headBranch };
+        } else if (parsed.headBranch) {
+          range = { kind: "branches", base: parsed.baseBranch, head: parsed.headBranch };
+        } else {
+          throw new ToolError(
+            "INVALID_ARGUMENTS",
+            "Pass headBranch for a branch pair, tagPattern for the latest release tag, or since for a date range"
+          );
+        }
 
-  test.beforeAll(async ({ playwright }) => {
-    apiContext = await playwright.request.newContext({
-      baseURL: process.env.API_BASE_URL,
-      extraHTTPHeaders: {
-        'Authorization': \`Bearer \${process.env.API_TOKEN}\`,
-        'Content-Type': 'application/json',
-      },
-    });
-  });
+        const report = await scanServices(services, range, {
+          concurrency: parsed.concurrency || 4,
+          limit: parsed.limit,
+          defaultBaseBranch: baseBranchOf,
+          providerFor: getRepositoryProvider,
+          onProgress: reportProgress,
+        });
 
-  test.afterAll(async () => {
-    await apiContext.dispose();
-  });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      }
 
-  test('${parsed.httpMethod || "GET"} /endpoint - should return success', async () => {
-    const response = await apiContext.${(parsed.httpMethod || "get").toLowerCase()}('/api/v1/endpoint');
-    
-    expect(response.ok()).toBeTruthy();
-    expect(response.status()).toBe(200);
-    
-    const body = await response.json();
-    // Add assertions based on expected response structure
-    expect(body).toHaveProperty('data');
-  });
+      case "find_untested_endpoints": {
+        const parsed = FindUntestedEndpointsSchema.parse(args);
+        const services = parsed.serviceName ? [requireService(parsed.serviceName)] : registry.services;
 
-  test('${parsed.httpMethod || "GET"} /endpoint - should handle invalid request', async () => {
-    const response = await apiContext.${(parsed.httpMethod || "get").toLowerCase()}('/api/v1/endpoint/invalid');
-    
-    expect(response.status()).toBe(404);
-  });
+        if (services.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No services configured.",
+              },
+            ],
+          };
+        }
 
-  test('${parsed.httpMethod || "GET"} /endpoint - should require authentication', async () => {
-    const unauthContext = await apiContext.newContext({
-      baseURL: process.env.API_BASE_URL,
-    });
-    
-    const response = await unauthContext.${(parsed.httpMethod || "get").toLowerCase()}('/api/v1/endpoint');
-    expect(response.status()).toBe(401);
-  });
-});
-`;
-        } else if (parsed.apiType === "GraphQL") {
-          template = `
-// Test file location: ${automationPath}/tests/graphql/
-// Generated test template for ${parsed.serviceName} - GraphQL endpoint
-
-import { test, expect } from '@playwright/test';
-
-test.describe('${parsed.serviceName} GraphQL Tests', () => {
-  const graphqlEndpoint = process.env.GRAPHQL_ENDPOINT || '/graphql';
-
-  test('Query - should fetch data successfully', async ({ request }) => {
-    const response = await request.post(graphqlEndpoint, {
-      data: {
-        query: \`
-          query GetData {
-            data {
-              id
-              name
-            }
+        const reports = [];
+        for (const service of services) {
+          try {
+            reports.push(
+              await findUntestedEndpoints(getRepositoryProvider(service), service, parsed.ref || baseBranchOf(service))
+            );
+          } catch (error) {
+            const failure = toToolError(error);
+            reports.push({ service: service.name, error: failure.message, errorCode: failure.code });
           }
-        \`,
-      },
-    });
+        }
 
-    expect(response.ok()).toBeTruthy();
-    const body = await response.json();
-    expect(body.errors).toBeUndefined();
-    expect(body.data).toBeDefined();
-  });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ services: reports }, null, 2),
+            },
+          ],
+        };
+      }
 
-  test('Mutation - should create data successfully', async ({ request }) => {
-    const response = await request.post(graphqlEndpoint, {
-      data: {
-        query: \`
-          mutation CreateData($input: DataInput!) {
-            createData(input: $input) {
-              id
-              name
-            }
-          }
-        \`,
-        variables: {
-          input: {
-            name: 'Test Data',
-          },
-        },
-      },
-    });
+      case "generate_tests_for_changes": {
+        const parsed = GenerateTestsForChangesSchema.parse(args);
+        const service = requireService(parsed.serviceName);
 
-    expect(response.ok()).toBeTruthy();
-    const body = await response.json();
-    expect(body.errors).toBeUndefined();
-  });
-});
-`;
-        } else if (parsed.apiType === "gRPC") {
-          template = `
-// Test file location: ${automationPath}/tests/grpc/
-// Generated test template for ${parsed.serviceName} - gRPC endpoint
-
-import * as grpc from '@grpc/grpc-js';
-import * as protoLoader from '@grpc/proto-loader';
-import { expect } from 'chai';
-
-describe('${parsed.serviceName} gRPC Tests', () => {
-  let client: any;
-
-  before(() => {
-    const packageDefinition = protoLoader.loadSync('path/to/service.proto');
-    const proto = grpc.loadPackageDefinition(packageDefinition);
-    
-    client = new (proto as any).ServiceName(
-      process.env.GRPC_ENDPOINT || 'localhost:50051',
-      grpc.credentials.createInsecure()
-    );
-  });
+        const generated = await generateTestsForChanges(
+          getRepositoryProvider(service),
+          service,
+          parsed.baseBranch || baseBranchOf(service),
+          parsed.headBranch,
+          parsed.endpoints
+        );
 
-  after(() => {
-    client.close();
-  });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ service: service.name, ...generated }, null, 2),
+            },
+          ],
+        };
+      }
 
-  it('should call RPC method successfully', (done) => {
-    client.methodName({ field: 'value' }, (err: Error | null, response: any) => {
-      expect(err).to.be.null;
-      expect(response).to.have.property('result');
-      done();
-    });
-  });
+      case "write_test_file": {
+        const parsed = WriteTestFileSchema.parse(args);
+        const service = requireService(parsed.serviceName);
 
-  it('should handle errors gracefully', (done) => {
-    client.methodName({ invalidField: 'value' }, (err: Error | null, response: any) => {
-      expect(err).to.not.be.null;
-      done();
-    });
-  });
-});
-`;
+        const result = await writeTestFile(service.automationRepoPath, parsed.path, parsed.content, {
+          dryRun: parsed.dryRun,
+          onConflict: parsed.onConflict,
+          branch: parsed.branch,
+          commit: parsed.commit,
+          commitMessage: parsed.commitMessage,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ service: service.name, ...result }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "validate_config": {
+        const parsed = ValidateConfigSchema.parse(args);
+        // Remote clients must not get the server to read files of their choosing
+        if (parsed.path && TRANSPORT === "http") {
+          throw new ToolError(
+            "UNSUPPORTED",
+            "validate_config only validates the active configuration over HTTP; path is accepted over stdio",
+            { path: parsed.path }
+          );
         }
+        const config = parsed.path ? await readServicesConfig(parsed.path) : await registry.read();
+        const services = await validateServices(config.services, {
+          defaultBaseBranch: DEFAULT_BASE_BRANCH,
+          defaultToken: GITHUB_TOKEN,
+          createProvider: createRepositoryProvider,
+          checkRepositories: parsed.checkRepositories ?? true,
+        });
 
         return {
           content: [
@@ -851,11 +1893,11 @@ describe('${parsed.serviceName} gRPC Tests', () => {
               type: "text",
               text: JSON.stringify(
                 {
-                  service: parsed.serviceName,
-                  apiType: parsed.apiType,
-                  httpMethod: parsed.httpMethod,
-                  template,
-                  automationRepoPath: automationPath,
+                  source: parsed.path || registry.source,
+                  valid: config.errors.length === 0 && services.every((s) => s.status !== "error"),
+                  errors: config.errors,
+                  services,
+                  active: registry.status(),
                 },
                 null,
                 2
@@ -865,38 +1907,45 @@ describe('${parsed.serviceName} gRPC Tests', () => {
         };
       }
 
-      case "compare_branches": {
-        const schema = z.object({
-          serviceName: z.string(),
-          baseBranch: z.string().optional(),
-          headBranch: z.string(),
-        });
-        const parsed = schema.parse(args);
-        const service = getServiceConfig(parsed.serviceName);
-
-        if (!service) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Service "${parsed.serviceName}" not found.`,
-              },
-            ],
+      case "get_rate_limit_status": {
+        const parsed = GetRateLimitStatusSchema.parse(args);
+        const services = parsed.serviceName ? [requireService(parsed.serviceName)] : registry.services;
+
+        // Services with the same token and API host share one rate limit
+        const clients = new Map<Octokit, { apiHost: string; token: string; services: string[] }>();
+        for (const service of services.filter((s) => !s.localRepoPath)) {
+          const octokit = getOctokit(service);
+          const client = clients.get(octokit) || {
+            apiHost: service.apiHost || "https://api.github.com",
+            token: tokenSourceOf(service),
+            services: [],
           };
+          client.services.push(service.name);
+          clients.set(octokit, client);
         }
 
-        const base = parsed.baseBranch || DEFAULT_BASE_BRANCH;
-        const comparison = await compareCommits(
-          service.repoOwner,
-          service.repoName,
-          base,
-          parsed.headBranch
-        );
-
-        const apiFiles = comparison.files?.filter((f) =>
-          service.apiPatterns.some((pattern) => {
-            const regex = new RegExp(pattern.replace(/\*/g, ".*"));
-            return regex.test(f.filename);
+        // Reading /rate_limit does not count against the limit
+        const limits = await Promise.all(
+          [...clients].map(async ([octokit, client]) => {
+            try {
+              const { data } = await octokit.rateLimit.get();
+              const resources = Object.entries(data.resources).flatMap(([resource, limit]) =>
+                limit
+                  ? [
+                      {
+                        resource,
+                        limit: limit.limit,
+                        remaining: limit.remaining,
+                        used: limit.used,
+                        resetAt: new Date(limit.reset * 1000).toISOString(),
+                      },
+                    ]
+                  : []
+              );
+              return { ...client, resources };
+            } catch (error) {
+              return { ...client, error: toToolError(error), lastSeen: observedRateLimits(octokit) };
+            }
           })
         );
 
@@ -906,30 +1955,8 @@ describe('${parsed.serviceName} gRPC Tests', () => {
               type: "text",
               text: JSON.stringify(
                 {
-                  service: service.name,
-                  comparison: {
-                    base,
-                    head: parsed.headBranch,
-                    status: comparison.status,
-                    aheadBy: comparison.ahead_by,
-                    behindBy: comparison.behind_by,
-                    totalCommits: comparison.total_commits,
-                  },
-                  summary: {
-                    totalFilesChanged: comparison.files?.length || 0,
-                    apiFilesChanged: apiFiles?.length || 0,
-                  },
-                  apiFiles: apiFiles?.map((f) => ({
-                    filename: f.filename,
-                    status: f.status,
-                    additions: f.additions,
-                    deletions: f.deletions,
-                  })),
-                  commits: comparison.commits.map((c) => ({
-                    sha: c.sha.substring(0, 7),
-                    message: c.commit.message.split("\n")[0],
-                    author: c.commit.author?.name,
-                  })),
+                  clients: limits,
+                  localServices: services.filter((s) => s.localRepoPath).map((s) => s.name),
                 },
                 null,
                 2
@@ -939,85 +1966,178 @@ describe('${parsed.serviceName} gRPC Tests', () => {
         };
       }
 
-      default:
+      case "clear_cache": {
+        const parsed = ClearCacheSchema.parse(args);
+        const service = parsed.serviceName ? requireService(parsed.serviceName) : undefined;
+
+        const cleared = await responseCache.clear(
+          service ? `/repos/${service.repoOwner}/${service.repoName}/` : undefined
+        );
+
         return {
           content: [
             {
               type: "text",
-              text: `Unknown tool: ${name}`,
+              text: JSON.stringify(
+                { ...cleared, service: service?.name, cache: await responseCache.stats() },
+                null,
+                2
+              ),
             },
           ],
         };
+      }
+
+      default:
+        throw new ToolError("UNKNOWN_TOOL", `Unknown tool: ${name}`, { tool: name });
     }
   } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-    };
+    return toolErrorResult(error);
   }
-});
+}
 
-// List resources (your automation repos)
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  return {
-    resources: SERVICES.map((service) => ({
-      uri: `automation://${service.name}`,
-      name: `${service.name} Automation Repo`,
-      description: `Automation repository for ${service.name} at ${service.automationRepoPath}`,
-      mimeType: "text/plain",
-    })),
-  };
-});
+// Resources: the automation repo, endpoint catalog and generated OpenAPI
+// document of each service, plus templates for any repository file
+function resourceContext(): ResourceContext {
+  return { services: registry.services, baseBranchOf, providerFor: getRepositoryProvider };
+}
 
-// Read resource
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const uri = request.params.uri;
-  const serviceName = uri.replace("automation://", "");
-  const service = getServiceConfig(serviceName);
+const subscriptions = new ResourceSubscriptions(
+  (uri) => readServiceResource(uri, resourceContext()),
+  Number(process.env.RESOURCE_POLL_SECONDS || 60) * 1000,
+  (uri) => resourceVersion(uri, resourceContext())
+);
 
-  if (!service) {
-    return {
-      contents: [
-        {
-          uri,
-          mimeType: "text/plain",
-          text: `Service "${serviceName}" not found`,
-        },
-      ],
-    };
-  }
+async function listResources() {
+  return { resources: listServiceResources(resourceContext()) };
+}
 
-  return {
-    contents: [
-      {
-        uri,
-        mimeType: "text/plain",
-        text: JSON.stringify(
-          {
-            name: service.name,
-            repo: `${service.repoOwner}/${service.repoName}`,
-            automationPath: service.automationRepoPath,
-            apiPatterns: service.apiPatterns,
-          },
-          null,
-          2
-        ),
+async function readResource(request: ReadResourceRequest) {
+  return readServiceResource(request.params.uri, resourceContext());
+}
+
+// Prompts for common QA workflows, filled in with the results of the tools
+// they start from
+async function handleGetPrompt(request: GetPromptRequest) {
+  return getPrompt(request.params.name, request.params.arguments, {
+    services: registry.services,
+    baseBranchOf,
+    callTool: (name, args) => callTool(name, args),
+  });
+}
+
+async function complete(request: CompleteRequest) {
+  const { name, value } = request.params.argument;
+  const values =
+    request.params.ref.type === "ref/prompt"
+      ? completePromptArgument(name, value, registry.services)
+      : completeResourceArgument(name, value, registry.services);
+  return { completion: { values: values.slice(0, 100), total: values.length, hasMore: values.length > 100 } };
+}
+
+// Every client gets its own MCP Server (stdio has one, HTTP one per
+// session); they all share the configuration, providers and response cache
+const servers = new Set<Server>();
+
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "api-test-mcp-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+        completions: {},
       },
-    ],
+    }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
+  server.setRequestHandler(ListResourcesRequestSchema, listResources);
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri, server);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri, server);
+    return {};
+  });
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts() }));
+  server.setRequestHandler(GetPromptRequestSchema, handleGetPrompt);
+  server.setRequestHandler(CompleteRequestSchema, complete);
+  server.onclose = () => {
+    servers.delete(server);
+    subscriptions.unsubscribeAll(server);
   };
-});
+  servers.add(server);
+  return server;
+}
+
+function listOption(value: string | undefined): string[] {
+  return (value || "").split(",").map((item) => item.trim()).filter(Boolean);
+}
 
 // Start the server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("API Test MCP Server started");
+  await registry.reload();
+  registry.watch();
+  registry.onReload(() => {
+    providers.clear();
+    octokits.clear();
+    for (const server of servers) {
+      server.sendResourceListChanged().catch(() => undefined);
+    }
+    void subscriptions.refresh();
+  });
+
+  let stop: () => Promise<void>;
+  if (TRANSPORT === "http") {
+    const http = await startHttpServer(createServer, {
+      port: Number(option("--port", "MCP_PORT") || 3000),
+      host: option("--host", "MCP_HOST") || "127.0.0.1",
+      bearerTokens: listOption(process.env.MCP_AUTH_TOKENS),
+      apiKeys: listOption(process.env.MCP_API_KEYS),
+      sessionIdleMinutes: Number(process.env.MCP_SESSION_IDLE_MINUTES || 30),
+    });
+    stop = () => http.close();
+    console.error(`API Test MCP Server listening on ${http.url}/mcp (SSE: ${http.url}/sse)`);
+  } else {
+    const server = createServer();
+    await server.connect(new StdioServerTransport());
+    stop = () => server.close();
+    console.error("API Test MCP Server started");
+  }
+  if (githubRecording) {
+    const action = githubRecording.mode === "record" ? "Recording GitHub responses to" : "Replaying GitHub responses from";
+    console.error(`${action} ${githubRecording.file}`);
+  }
+
+  // Finish in-flight requests and close sessions, but do not hang on them
+  const shutdown = (signal: string) => {
+    console.error(`Received ${signal}, shutting down`);
+    setTimeout(() => process.exit(1), 10_000).unref();
+    registry.close();
+    subscriptions.close();
+    stop().then(
+      () => process.exit(0),
+      (error) => {
+        console.error("Shutdown failed:", error);
+        process.exit(1);
+      }
+    );
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
 
 
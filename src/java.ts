@@ -0,0 +1,210 @@
+// Helpers for reading Java source without a full parser: comment
+// stripping, bracket matching, annotations and declarations
+
+export const MODIFIERS = /\b(public|protected|private|static|final|synchronized|abstract|default|native)\b/g;
+
+// Blank out comments while keeping offsets and line numbers intact
+export function stripComments(source: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    if (ch === '"' || ch === "'") {
+      const end = skipString(source, i);
+      result += source.slice(i, end);
+      i = end;
+    } else if (ch === "/" && next === "/") {
+      while (i < source.length && source[i] !== "\n") {
+        result += " ";
+        i++;
+      }
+    } else if (ch === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      result += source.slice(i, stop).replace(/[^\n]/g, " ");
+      i = stop;
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+// Blank out the contents of string, char and text-block literals, keeping
+// the quotes, offsets and line numbers, so that code-like text inside a
+// literal is not mistaken for code
+export function blankLiterals(source: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'") {
+      const end = skipString(source, i);
+      const quote = source.startsWith('"""', i) ? 3 : 1;
+      const close = Math.max(end - quote, i + quote);
+      result +=
+        source.slice(i, i + quote) + source.slice(i + quote, close).replace(/[^\n]/g, " ") + source.slice(close, end);
+      i = end;
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+// Index just past the string or char literal starting at `start`
+export function skipString(source: string, start: number): number {
+  const quote = source[start];
+  if (source.startsWith('"""', start)) {
+    const end = source.indexOf('"""', start + 3);
+    return end === -1 ? source.length : end + 3;
+  }
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote && source[i] !== "\n") {
+    i += source[i] === "\\" ? 2 : 1;
+  }
+  return i + 1;
+}
+
+// Index of the bracket closing the one at `open`, skipping string literals
+export function findClosing(source: string, open: number): number {
+  const opener = source[open];
+  const closer = opener === "(" ? ")" : opener === "{" ? "}" : ">";
+  let depth = 0;
+
+  for (let i = open; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'") {
+      i = skipString(source, i) - 1;
+    } else if (ch === opener) {
+      depth++;
+    } else if (ch === closer) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return source.length;
+}
+
+// Split on commas that are not nested in brackets, generics or literals
+export function splitTopLevel(text: string, separator = ","): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'") {
+      const end = skipString(text, i);
+      current += text.slice(i, end);
+      i = end - 1;
+      continue;
+    }
+    if ("(<[{".includes(ch)) {
+      depth++;
+    } else if (")>]}".includes(ch)) {
+      depth--;
+    } else if (ch === separator && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+// Parse `("/x")`, `(value = {"/a", "/b"}, method = RequestMethod.GET)` etc.
+// into named arguments; a bare first argument is `value`
+export function parseAnnotationArguments(args: string): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  for (const part of splitTopLevel(args)) {
+    const named = part.match(/^(\w+)\s*=\s*([\s\S]+)$/);
+    const [name, value] = named ? [named[1], named[2]] : ["value", part];
+    const trimmed = value.trim();
+    const items = trimmed.startsWith("{")
+      ? splitTopLevel(trimmed.slice(1, trimmed.lastIndexOf("}")))
+      : [trimmed];
+    result.set(name, items.filter((item) => item.length > 0));
+  }
+  return result;
+}
+
+export interface Annotation {
+  name: string;
+  args: string;
+  start: number;
+  end: number;
+}
+
+// Read the annotation starting at `start` (which points at "@")
+export function readAnnotation(source: string, start: number): Annotation | undefined {
+  const match = source.slice(start).match(/^@([\w.]+)\s*/);
+  if (!match) {
+    return undefined;
+  }
+  let end = start + match[0].length;
+  let args = "";
+  if (source[end] === "(") {
+    const close = findClosing(source, end);
+    args = source.slice(end + 1, close);
+    end = close + 1;
+  }
+  return { name: match[1].split(".").pop() || match[1], args, start, end };
+}
+
+// Skip any further annotations after `from` and return the declaration
+// header that follows, up to its body or terminating semicolon
+export function readDeclaration(
+  source: string,
+  from: number
+): { header: string; start: number; paramsStart: number } {
+  let i = from;
+  for (;;) {
+    while (i < source.length && /\s/.test(source[i])) i++;
+    if (source[i] !== "@") break;
+    const annotation = readAnnotation(source, i);
+    if (!annotation) break;
+    i = annotation.end;
+  }
+
+  const start = i;
+  let paramsStart = -1;
+  while (i < source.length && source[i] !== "{" && source[i] !== ";") {
+    if (source[i] === "(") {
+      if (paramsStart === -1) paramsStart = i;
+      i = findClosing(source, i) + 1;
+    } else if (source[i] === '"') {
+      i = skipString(source, i);
+    } else {
+      i++;
+    }
+  }
+  return { header: source.slice(start, i), start, paramsStart };
+}
+
+export function lineNumberAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (source.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+// Collapse whitespace in a type so `Map< String ,Long >` reads `Map<String, Long>`
+export function normalizeType(type: string): string {
+  return type.replace(/\s+/g, " ").replace(/\s*([<>,])\s*/g, "$1").replace(/,/g, ", ").trim();
+}
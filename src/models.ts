@@ -0,0 +1,804 @@
+import {
+  MODIFIERS,
+  findClosing,
+  normalizeType,
+  parseAnnotationArguments,
+  readAnnotation,
+  skipString,
+  splitTopLevel,
+  stripComments,
+  type Annotation,
+} from "./java.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import type { ApiEndpoint } from "./types.js";
+
+// JSON-Schema-like description of a request or response payload
+export interface JsonSchema {
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: JsonSchema | boolean;
+  enum?: string[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  minProperties?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  pattern?: string;
+  $comment?: string;
+  "x-java-type"?: string;
+  "x-constraints"?: string[];
+  "x-unresolved"?: string;
+  "x-type-arguments"?: JsonSchema[];
+}
+
+export interface ConstraintCase {
+  name: string;
+  field: string;
+  constraint: string;
+  kind: "boundary" | "negative";
+  expectValid: boolean;
+  payload: unknown;
+}
+
+export interface EndpointModel {
+  method: string;
+  path: string;
+  handlerName?: string;
+  request: {
+    type: string;
+    required: boolean;
+    schema: JsonSchema;
+    sample: unknown;
+    cases: ConstraintCase[];
+  } | null;
+  response: {
+    type: string;
+    schema: JsonSchema;
+    sample: unknown;
+  } | null;
+}
+
+interface JavaSource {
+  path: string;
+  source: string;
+  packageName: string;
+  imports: Map<string, string>;
+  wildcardPackages: string[];
+  sourceRoot: string;
+}
+
+const MAX_DEPTH = 6;
+
+const PRIMITIVES = new Set(["int", "long", "short", "byte", "double", "float", "boolean", "char"]);
+
+const SCALARS: Record<string, JsonSchema> = {
+  String: { type: "string" },
+  CharSequence: { type: "string" },
+  char: { type: "string", maxLength: 1 },
+  Character: { type: "string", maxLength: 1 },
+  UUID: { type: "string", format: "uuid" },
+  LocalDate: { type: "string", format: "date" },
+  LocalTime: { type: "string", format: "time" },
+  LocalDateTime: { type: "string", format: "date-time" },
+  ZonedDateTime: { type: "string", format: "date-time" },
+  OffsetDateTime: { type: "string", format: "date-time" },
+  Instant: { type: "string", format: "date-time" },
+  Date: { type: "string", format: "date-time" },
+  Timestamp: { type: "string", format: "date-time" },
+  MultipartFile: { type: "string", format: "binary" },
+  int: { type: "integer", format: "int32" },
+  Integer: { type: "integer", format: "int32" },
+  short: { type: "integer", format: "int32" },
+  Short: { type: "integer", format: "int32" },
+  byte: { type: "integer", format: "int32" },
+  Byte: { type: "integer", format: "int32" },
+  long: { type: "integer", format: "int64" },
+  Long: { type: "integer", format: "int64" },
+  BigInteger: { type: "integer" },
+  float: { type: "number", format: "float" },
+  Float: { type: "number", format: "float" },
+  double: { type: "number", format: "double" },
+  Double: { type: "number", format: "double" },
+  BigDecimal: { type: "number" },
+  boolean: { type: "boolean" },
+  Boolean: { type: "boolean" },
+  Object: {},
+  JsonNode: {},
+  ObjectNode: { type: "object" },
+};
+
+// Containers whose payload is their first type argument
+const WRAPPERS = new Set([
+  "ResponseEntity",
+  "HttpEntity",
+  "Mono",
+  "Optional",
+  "CompletableFuture",
+  "CompletionStage",
+  "DeferredResult",
+  "Callable",
+  "Single",
+  "Maybe",
+]);
+
+const COLLECTIONS = new Set([
+  "List",
+  "ArrayList",
+  "LinkedList",
+  "Set",
+  "HashSet",
+  "LinkedHashSet",
+  "SortedSet",
+  "TreeSet",
+  "Collection",
+  "Iterable",
+  "Flux",
+  "Flowable",
+  "Observable",
+]);
+
+const MAPS = new Set(["Map", "HashMap", "LinkedHashMap", "TreeMap", "SortedMap", "ConcurrentHashMap"]);
+
+const VALIDATION_ANNOTATIONS = new Set([
+  "NotNull",
+  "NotBlank",
+  "NotEmpty",
+  "Size",
+  "Min",
+  "Max",
+  "DecimalMin",
+  "DecimalMax",
+  "Positive",
+  "PositiveOrZero",
+  "Negative",
+  "NegativeOrZero",
+  "Pattern",
+  "Email",
+  "Past",
+  "PastOrPresent",
+  "Future",
+  "FutureOrPresent",
+  "Digits",
+  "AssertTrue",
+  "AssertFalse",
+  "Null",
+]);
+
+function primaryType(schema: JsonSchema): string | undefined {
+  return Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+}
+
+function parseJavaSource(path: string, content: string): JavaSource {
+  const source = stripComments(content);
+  const packageName = source.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1] || "";
+  const imports = new Map<string, string>();
+  const wildcardPackages: string[] = [];
+
+  for (const match of source.matchAll(/^\s*import\s+([\w.]+?)(\.\*)?\s*;/gm)) {
+    if (match[2]) {
+      wildcardPackages.push(match[1]);
+    } else {
+      imports.set(match[1].split(".").pop()!, match[1]);
+    }
+  }
+
+  const directory = path.includes("/") ? path.slice(0, path.lastIndexOf("/") + 1) : "";
+  const packagePath = packageName.replace(/\./g, "/");
+  const sourceRoot =
+    packagePath && directory.endsWith(`${packagePath}/`)
+      ? directory.slice(0, directory.length - packagePath.length - 1)
+      : directory;
+
+  return { path, source, packageName, imports, wildcardPackages, sourceRoot };
+}
+
+// Top-level `;`-terminated statements of a class body, skipping method
+// bodies, initializers and nested types
+function readMembers(body: string): string[] {
+  const members: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < body.length) {
+    const ch = body[i];
+    if (ch === '"' || ch === "'") {
+      i = skipString(body, i);
+    } else if (ch === "(") {
+      i = findClosing(body, i) + 1;
+    } else if (ch === "{") {
+      const close = findClosing(body, i);
+      // `int[] values = {1, 2};` keeps going; anything else is a body to skip
+      if (!stripParenthesized(body.slice(start, i)).includes("=")) {
+        start = close + 1;
+      }
+      i = close + 1;
+    } else if (ch === ";") {
+      members.push(body.slice(start, i).trim());
+      start = ++i;
+    } else {
+      i++;
+    }
+  }
+
+  return members;
+}
+
+function stripParenthesized(text: string): string {
+  let previous;
+  do {
+    previous = text;
+    text = text.replace(/\([^()]*\)/g, "");
+  } while (text !== previous);
+  return text;
+}
+
+// Split a member or parameter into its annotations and the remaining text
+function splitAnnotations(text: string): { annotations: Annotation[]; rest: string } {
+  const annotations: Annotation[] = [];
+  let rest = "";
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] === "@") {
+      const annotation = readAnnotation(text, i);
+      if (annotation) {
+        annotations.push(annotation);
+        i = annotation.end;
+        continue;
+      }
+    }
+    rest += text[i++];
+  }
+
+  return { annotations, rest: rest.replace(/\s+/g, " ").trim() };
+}
+
+function numberArgument(args: Map<string, string[]>, name = "value"): number | undefined {
+  const raw = args.get(name)?.[0];
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = Number(raw.replace(/^"|"$/g, "").replace(/[lLdDfF]$/, ""));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function unescapeJavaString(value: string): string {
+  return value.replace(/^"|"$/g, "").replace(/\\\\/g, "\\");
+}
+
+// Apply Bean Validation constraints to a property schema. Returns whether the
+// annotations make the property required.
+function applyConstraints(schema: JsonSchema, annotations: Annotation[]): boolean {
+  let required = false;
+  const type = primaryType(schema);
+  const constraints: string[] = [];
+
+  for (const annotation of annotations) {
+    if (!VALIDATION_ANNOTATIONS.has(annotation.name)) {
+      continue;
+    }
+    constraints.push(
+      `@${annotation.name}${annotation.args ? `(${annotation.args.replace(/\s+/g, " ").trim()})` : ""}`
+    );
+    const args = parseAnnotationArguments(annotation.args);
+
+    switch (annotation.name) {
+      case "NotNull":
+        required = true;
+        break;
+      case "NotBlank":
+        required = true;
+        schema.minLength = Math.max(schema.minLength || 0, 1);
+        schema.pattern = schema.pattern || "\\S";
+        break;
+      case "NotEmpty":
+        required = true;
+        if (type === "array") schema.minItems = Math.max(schema.minItems || 0, 1);
+        else if (type === "object") schema.minProperties = 1;
+        else schema.minLength = Math.max(schema.minLength || 0, 1);
+        break;
+      case "Size": {
+        const min = numberArgument(args, "min");
+        const max = numberArgument(args, "max");
+        if (type === "array") {
+          if (min !== undefined) schema.minItems = min;
+          if (max !== undefined) schema.maxItems = max;
+        } else {
+          if (min !== undefined) schema.minLength = min;
+          if (max !== undefined) schema.maxLength = max;
+        }
+        break;
+      }
+      case "Min":
+        schema.minimum = numberArgument(args);
+        break;
+      case "Max":
+        schema.maximum = numberArgument(args);
+        break;
+      case "DecimalMin":
+        if (args.get("inclusive")?.[0] === "false") schema.exclusiveMinimum = numberArgument(args);
+        else schema.minimum = numberArgument(args);
+        break;
+      case "DecimalMax":
+        if (args.get("inclusive")?.[0] === "false") schema.exclusiveMaximum = numberArgument(args);
+        else schema.maximum = numberArgument(args);
+        break;
+      case "Positive":
+        schema.exclusiveMinimum = 0;
+        break;
+      case "PositiveOrZero":
+        schema.minimum = 0;
+        break;
+      case "Negative":
+        schema.exclusiveMaximum = 0;
+        break;
+      case "NegativeOrZero":
+        schema.maximum = 0;
+        break;
+      case "Pattern": {
+        const regexp = args.get("regexp")?.[0];
+        if (regexp) schema.pattern = unescapeJavaString(regexp);
+        break;
+      }
+      case "Email":
+        schema.format = "email";
+        break;
+      case "AssertTrue":
+        schema.const = true;
+        break;
+      case "AssertFalse":
+        schema.const = false;
+        break;
+    }
+  }
+
+  if (constraints.length > 0) {
+    schema["x-constraints"] = constraints;
+  }
+  return required;
+}
+
+// Follows Java types through the repository at a fixed ref and turns DTO
+// classes into JSON-Schema-like models
+export class ModelResolver {
+  private readonly sources = new Map<string, Promise<JavaSource | undefined>>();
+  readonly unresolved = new Set<string>();
+
+  constructor(
+    private readonly provider: RepositoryProvider,
+    private readonly ref: string
+  ) {}
+
+  async loadSource(path: string): Promise<JavaSource | undefined> {
+    let source = this.sources.get(path);
+    if (!source) {
+      source = this.provider
+        .getFileContent(path, this.ref)
+        .then((content) => parseJavaSource(path, content))
+        .catch(() => undefined);
+      this.sources.set(path, source);
+    }
+    return source;
+  }
+
+  sourceFromContent(path: string, content: string): JavaSource {
+    const source = parseJavaSource(path, content);
+    this.sources.set(path, Promise.resolve(source));
+    return source;
+  }
+
+  async describeEndpoint(endpoint: ApiEndpoint, context: JavaSource): Promise<EndpointModel> {
+    const body = endpoint.parameters?.find((p) => p.in === "body");
+    const request = body
+      ? await this.resolveType(body.type, context, 0, new Set())
+      : undefined;
+    const response =
+      endpoint.returnType && !/^(void|Void)$/.test(endpoint.returnType)
+        ? await this.resolveType(endpoint.returnType, context, 0, new Set())
+        : undefined;
+
+    const sample = request ? generateSample(request) : undefined;
+    return {
+      method: endpoint.method,
+      path: endpoint.path,
+      handlerName: endpoint.handlerName,
+      request:
+        body && request
+          ? {
+              type: body.type,
+              required: body.required,
+              schema: request,
+              sample,
+              cases: generateConstraintCases(request, sample),
+            }
+          : null,
+      response:
+        endpoint.returnType && response
+          ? { type: endpoint.returnType, schema: response, sample: generateSample(response) }
+          : null,
+    };
+  }
+
+  async resolveType(
+    rawType: string,
+    context: JavaSource,
+    depth: number,
+    seen: Set<string>
+  ): Promise<JsonSchema> {
+    const type = normalizeType(
+      splitAnnotations(rawType)
+        .rest.replace(/\?\s*(extends|super)\s+/g, "")
+        .replace(/\bfinal\b/g, "")
+    );
+
+    if (type.endsWith("[]")) {
+      const item = type.slice(0, -2).trim();
+      if (item === "byte") {
+        return { type: "string", format: "byte" };
+      }
+      return { type: "array", items: await this.resolveType(item, context, depth, seen) };
+    }
+
+    const genericStart = type.indexOf("<");
+    const name = (genericStart === -1 ? type : type.slice(0, genericStart)).trim();
+    const typeArguments =
+      genericStart === -1 ? [] : splitTopLevel(type.slice(genericStart + 1, type.lastIndexOf(">")));
+    const simpleName = name.split(".").pop() || name;
+
+    if (WRAPPERS.has(simpleName)) {
+      return typeArguments[0] ? this.resolveType(typeArguments[0], context, depth, seen) : {};
+    }
+    if (COLLECTIONS.has(simpleName)) {
+      return {
+        type: "array",
+        items: typeArguments[0] ? await this.resolveType(typeArguments[0], context, depth, seen) : {},
+      };
+    }
+    if (MAPS.has(simpleName)) {
+      return {
+        type: "object",
+        additionalProperties: typeArguments[1]
+          ? await this.resolveType(typeArguments[1], context, depth, seen)
+          : true,
+      };
+    }
+    if (SCALARS[simpleName]) {
+      return { ...SCALARS[simpleName] };
+    }
+    if (/^[A-Z]$/.test(simpleName) || name === "" || name === "?") {
+      return {};
+    }
+
+    const schema = await this.resolveClass(name, context, depth, seen);
+    if (schema["x-unresolved"] && typeArguments.length > 0) {
+      schema["x-type-arguments"] = await Promise.all(
+        typeArguments.map((arg) => this.resolveType(arg, context, depth + 1, seen))
+      );
+    }
+    return schema;
+  }
+
+  private async findClass(
+    name: string,
+    context: JavaSource
+  ): Promise<{ source: JavaSource; start: number } | undefined> {
+    const parts = name.split(".");
+    const qualified = /^[a-z]/.test(parts[0]);
+    const outer = qualified ? parts.find((p) => /^[A-Z]/.test(p)) || parts[parts.length - 1] : parts[0];
+    const target = parts[parts.length - 1];
+
+    const candidates: string[] = [];
+    if (qualified) {
+      const outerIndex = parts.indexOf(outer);
+      candidates.push(`${context.sourceRoot}${parts.slice(0, outerIndex + 1).join("/")}.java`);
+    } else {
+      const declared = findDeclaration(context.source, target);
+      if (declared !== -1) {
+        return { source: context, start: declared };
+      }
+      const imported = context.imports.get(outer);
+      if (imported) {
+        candidates.push(`${context.sourceRoot}${imported.replace(/\./g, "/")}.java`);
+      }
+      const directory = context.path.slice(0, context.path.lastIndexOf("/") + 1);
+      candidates.push(`${directory}${outer}.java`);
+      for (const pkg of context.wildcardPackages) {
+        candidates.push(`${context.sourceRoot}${pkg.replace(/\./g, "/")}/${outer}.java`);
+      }
+    }
+
+    for (const candidate of candidates) {
+      const source = await this.loadSource(candidate);
+      if (!source) continue;
+      const start = findDeclaration(source.source, target);
+      if (start !== -1) {
+        return { source, start };
+      }
+    }
+    return undefined;
+  }
+
+  private async resolveClass(
+    name: string,
+    context: JavaSource,
+    depth: number,
+    seen: Set<string>
+  ): Promise<JsonSchema> {
+    const found = await this.findClass(name, context);
+    if (!found) {
+      this.unresolved.add(name);
+      return { type: "object", "x-unresolved": name };
+    }
+
+    const { source, start } = found;
+    const declaration = source.source.slice(start).match(/^(class|record|enum|interface)\s+(\w+)/)!;
+    const [, kind, className] = declaration;
+    const qualifiedName = source.packageName ? `${source.packageName}.${className}` : className;
+
+    if (seen.has(qualifiedName)) {
+      return { type: "object", "x-java-type": qualifiedName, $comment: `recursive reference to ${className}` };
+    }
+    if (depth >= MAX_DEPTH) {
+      return { type: "object", "x-java-type": qualifiedName, $comment: "maximum nesting depth reached" };
+    }
+
+    const bodyStart = findBodyStart(source.source, start);
+    const bodyEnd = findClosing(source.source, bodyStart);
+    const header = source.source.slice(start, bodyStart);
+    const body = source.source.slice(bodyStart + 1, bodyEnd);
+
+    if (kind === "enum") {
+      const constantsEnd = body.search(/;|$/);
+      const constants = splitTopLevel(body.slice(0, constantsEnd))
+        .map((c) => splitAnnotations(c).rest.match(/^(\w+)/)?.[1])
+        .filter((c): c is string => c !== undefined);
+      return { type: "string", enum: constants, "x-java-type": qualifiedName };
+    }
+
+    const schema: JsonSchema = { type: "object", "x-java-type": qualifiedName, properties: {}, required: [] };
+    const nextSeen = new Set([...seen, qualifiedName]);
+
+    const superclass = header.match(/\bextends\s+([\w.]+(?:<.*?>)?)/)?.[1];
+    if (kind === "class" && superclass) {
+      const parent = await this.resolveType(superclass, source, depth + 1, nextSeen);
+      Object.assign(schema.properties!, parent.properties);
+      schema.required!.push(...(parent.required || []));
+    }
+
+    const members =
+      kind === "record"
+        ? splitTopLevel(header.slice(header.indexOf("(") + 1, header.lastIndexOf(")")))
+        : readMembers(body);
+
+    for (const member of members) {
+      const { annotations, rest } = splitAnnotations(member);
+      const declarationText = rest.replace(/\s*=.*$/s, "");
+      if (kind !== "record" && (/\bstatic\b/.test(declarationText) || declarationText.includes("("))) {
+        continue;
+      }
+      if (annotations.some((a) => a.name === "JsonIgnore")) {
+        continue;
+      }
+
+      const tokens = declarationText.replace(MODIFIERS, "").replace(/\b(transient|volatile)\b/g, "").trim().split(/\s+/);
+      const fieldName = tokens.pop();
+      const fieldType = tokens.join(" ");
+      if (!fieldName || !fieldType) {
+        continue;
+      }
+
+      const jsonName =
+        parseAnnotationArguments(annotations.find((a) => a.name === "JsonProperty")?.args || "")
+          .get("value")?.[0]
+          ?.replace(/^"|"$/g, "") || fieldName;
+
+      const property = await this.resolveType(fieldType, source, depth + 1, nextSeen);
+      const required = applyConstraints(property, annotations) || PRIMITIVES.has(fieldType);
+      const nullable = !required && !annotations.some((a) => a.name === "NonNull");
+      if (nullable && typeof property.type === "string") {
+        property.type = [property.type, "null"];
+      }
+
+      schema.properties![jsonName] = property;
+      if (required) {
+        schema.required!.push(jsonName);
+      }
+    }
+
+    if (schema.required!.length === 0) {
+      delete schema.required;
+    }
+    return schema;
+  }
+}
+
+function findDeclaration(source: string, name: string): number {
+  const match = new RegExp(`\\b(class|record|enum|interface)\\s+${name}\\b`).exec(source);
+  return match ? match.index : -1;
+}
+
+function findBodyStart(source: string, from: number): number {
+  for (let i = from; i < source.length; i++) {
+    if (source[i] === "(") {
+      i = findClosing(source, i);
+    } else if (source[i] === "{") {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+function sampleString(name: string, schema: JsonSchema): string {
+  switch (schema.format) {
+    case "email":
+      return "qa.automation@example.com";
+    case "uuid":
+      return "3fa85f64-5717-4562-b3fc-2c963f66afa6";
+    case "date":
+      return "2024-01-31";
+    case "time":
+      return "10:15:30";
+    case "date-time":
+      return "2024-01-31T10:15:30Z";
+  }
+  const min = schema.minLength || 0;
+  const max = schema.maxLength ?? Math.max(min, 32);
+  let value = `sample-${name}`;
+  if (value.length > max) value = value.slice(0, max);
+  if (value.length < min) value = value.padEnd(min, "x");
+  return value;
+}
+
+function sampleNumber(schema: JsonSchema): number {
+  const integer = primaryType(schema) === "integer";
+  const step = integer ? 1 : 0.5;
+  let value = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + step : 1);
+  if (schema.maximum !== undefined && value > schema.maximum) value = schema.maximum;
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    value = schema.exclusiveMaximum - step;
+  }
+  return value;
+}
+
+// Build a payload that satisfies every constraint in the schema
+export function generateSample(schema: JsonSchema, name = "value"): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  switch (primaryType(schema)) {
+    case "string":
+      return sampleString(name, schema);
+    case "integer":
+    case "number":
+      return sampleNumber(schema);
+    case "boolean":
+      return true;
+    case "array": {
+      const item = generateSample(schema.items || {}, name);
+      return Array.from({ length: Math.max(schema.minItems || 0, 1) }, () => item);
+    }
+    case "object": {
+      if (schema.properties) {
+        return Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, generateSample(value, key)])
+        );
+      }
+      if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        return { key: generateSample(schema.additionalProperties, name) };
+      }
+      return {};
+    }
+    default:
+      return null;
+  }
+}
+
+function setAtPath(payload: unknown, path: string[], value: unknown, remove = false): unknown {
+  const copy = structuredClone(payload) as Record<string, unknown>;
+  let target = copy;
+  for (const key of path.slice(0, -1)) {
+    target = target[key] as Record<string, unknown>;
+  }
+  const last = path[path.length - 1];
+  if (remove) delete target[last];
+  else target[last] = value;
+  return copy;
+}
+
+// Boundary (still valid) and negative (should be rejected) payloads for each
+// constraint, derived from a valid sample
+export function generateConstraintCases(
+  schema: JsonSchema,
+  sample: unknown,
+  prefix: string[] = []
+): ConstraintCase[] {
+  if (primaryType(schema) !== "object" || !schema.properties || typeof sample !== "object" || sample === null) {
+    return [];
+  }
+
+  const cases: ConstraintCase[] = [];
+  for (const [key, property] of Object.entries(schema.properties)) {
+    const path = [...prefix, key];
+    const field = path.join(".");
+    const add = (name: string, constraint: string, kind: ConstraintCase["kind"], value: unknown, remove = false) =>
+      cases.push({
+        name: `${field}: ${name}`,
+        field,
+        constraint,
+        kind,
+        expectValid: kind === "boundary",
+        payload: setAtPath(sample, path, value, remove),
+      });
+    const type = primaryType(property);
+
+    if (schema.required?.includes(key)) {
+      add("missing required field", "required", "negative", undefined, true);
+      add("null value", "required", "negative", null);
+    }
+    if (type === "string" && !property.format) {
+      if (property.minLength !== undefined && property.minLength > 0) {
+        add(`length ${property.minLength} (minimum)`, `minLength ${property.minLength}`, "boundary", "a".repeat(property.minLength));
+        add(`length ${property.minLength - 1} (below minimum)`, `minLength ${property.minLength}`, "negative", "a".repeat(property.minLength - 1));
+      }
+      if (property.maxLength !== undefined) {
+        add(`length ${property.maxLength} (maximum)`, `maxLength ${property.maxLength}`, "boundary", "a".repeat(property.maxLength));
+        add(`length ${property.maxLength + 1} (above maximum)`, `maxLength ${property.maxLength}`, "negative", "a".repeat(property.maxLength + 1));
+      }
+      if (property.pattern) {
+        add("value not matching pattern", `pattern ${property.pattern}`, "negative", " !~invalid~! ");
+      }
+    }
+    if (type === "integer" || type === "number") {
+      const step = type === "integer" ? 1 : 0.01;
+      if (property.minimum !== undefined) {
+        add(`${property.minimum} (minimum)`, `minimum ${property.minimum}`, "boundary", property.minimum);
+        add(`${property.minimum - step} (below minimum)`, `minimum ${property.minimum}`, "negative", property.minimum - step);
+      }
+      if (property.exclusiveMinimum !== undefined) {
+        add(`${property.exclusiveMinimum} (exclusive minimum)`, `exclusiveMinimum ${property.exclusiveMinimum}`, "negative", property.exclusiveMinimum);
+      }
+      if (property.maximum !== undefined) {
+        add(`${property.maximum} (maximum)`, `maximum ${property.maximum}`, "boundary", property.maximum);
+        add(`${property.maximum + step} (above maximum)`, `maximum ${property.maximum}`, "negative", property.maximum + step);
+      }
+      if (property.exclusiveMaximum !== undefined) {
+        add(`${property.exclusiveMaximum} (exclusive maximum)`, `exclusiveMaximum ${property.exclusiveMaximum}`, "negative", property.exclusiveMaximum);
+      }
+      add("non-numeric value", `type ${type}`, "negative", "not-a-number");
+    }
+    if (type === "array") {
+      const item = generateSample(property.items || {}, key);
+      if (property.minItems !== undefined && property.minItems > 0) {
+        add(`${property.minItems - 1} items (below minItems)`, `minItems ${property.minItems}`, "negative", Array(property.minItems - 1).fill(item));
+      }
+      if (property.maxItems !== undefined) {
+        add(`${property.maxItems} items (maximum)`, `maxItems ${property.maxItems}`, "boundary", Array(property.maxItems).fill(item));
+        add(`${property.maxItems + 1} items (above maxItems)`, `maxItems ${property.maxItems}`, "negative", Array(property.maxItems + 1).fill(item));
+      }
+    }
+    if (property.format === "email") {
+      add("malformed email", "format email", "negative", "not-an-email");
+    } else if (property.format === "date" || property.format === "date-time") {
+      add(`malformed ${property.format}`, `format ${property.format}`, "negative", "not-a-date");
+    }
+    if (property.enum) {
+      add("value outside enum", `enum ${property.enum.join("|")}`, "negative", "UNKNOWN_VALUE");
+    }
+    if (type === "boolean") {
+      add("non-boolean value", "type boolean", "negative", "not-a-boolean");
+    }
+    if (type === "object") {
+      cases.push(...generateConstraintCases(property, sample, path));
+    }
+  }
+
+  return cases;
+}
@@ -0,0 +1,567 @@
+import { parse as parseYaml } from "yaml";
+import type { ChangeSeverity } from "./classify.js";
+import type { ServiceConfig } from "./config.js";
+import { collectServiceEndpoints } from "./endpoints.js";
+import { ModelResolver, type JsonSchema } from "./models.js";
+import type { RepositoryProvider } from "./providers/index.js";
+
+// Parsed OpenAPI 3.x / Swagger 2.0 documents are plain JSON values, checked
+// at each access since nothing guarantees their shape
+type SpecObject = Record<string, unknown>;
+
+export interface OpenApiChange {
+  severity: ChangeSeverity;
+  kind: string;
+  operation?: string;
+  location: string;
+  description: string;
+}
+
+export interface SpecDiff {
+  file: string;
+  status: "added" | "removed" | "modified" | "unchanged";
+  version?: { before?: string; after?: string };
+  changes: OpenApiChange[];
+}
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+const SPEC_FILE = /(^|\/)(openapi|swagger)[^/]*\.(ya?ml|json)$/i;
+
+const MAX_SCHEMA_DEPTH = 10;
+
+export function isSpecFile(path: string): boolean {
+  return SPEC_FILE.test(path) && !path.includes("node_modules/");
+}
+
+function isObject(value: unknown): value is SpecObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The object under `key`, or undefined when it is missing or not an object
+function child(node: SpecObject | undefined, key: string): SpecObject | undefined {
+  const value = node?.[key];
+  return isObject(value) ? value : undefined;
+}
+
+function list(node: SpecObject | undefined, key: string): unknown[] {
+  const value = node?.[key];
+  return Array.isArray(value) ? value : [];
+}
+
+function numberAt(node: SpecObject, key: string): number | undefined {
+  const value = node[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+export function parseSpec(content: string, path: string): SpecObject {
+  const document: unknown = path.toLowerCase().endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+  if (!isObject(document) || !(document.openapi || document.swagger)) {
+    throw new Error(`${path} is not an OpenAPI or Swagger document`);
+  }
+  return document;
+}
+
+// Follow local `#/components/...` references; external references are
+// returned unchanged
+function deref(document: SpecObject, node: unknown, seen = new Set<string>()): SpecObject | undefined {
+  let current = isObject(node) ? node : undefined;
+  while (current && typeof current.$ref === "string" && current.$ref.startsWith("#/")) {
+    if (seen.has(current.$ref)) {
+      return current;
+    }
+    seen.add(current.$ref);
+    const target = current.$ref
+      .slice(2)
+      .split("/")
+      .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<unknown>((value, key) => (isObject(value) ? value[key] : undefined), document);
+    current = isObject(target) ? target : undefined;
+  }
+  return current;
+}
+
+function operations(document: SpecObject): Map<string, { path: string; method: string; operation: SpecObject; pathItem: SpecObject }> {
+  const result = new Map<string, { path: string; method: string; operation: SpecObject; pathItem: SpecObject }>();
+  for (const [path, rawItem] of Object.entries(child(document, "paths") || {})) {
+    const pathItem = deref(document, rawItem) || {};
+    for (const method of HTTP_METHODS) {
+      const operation = child(pathItem, method);
+      if (operation) {
+        result.set(`${method.toUpperCase()} ${path}`, { path, method, operation, pathItem });
+      }
+    }
+  }
+  return result;
+}
+
+function parameters(document: SpecObject, pathItem: SpecObject, operation: SpecObject): Map<string, SpecObject> {
+  const result = new Map<string, SpecObject>();
+  for (const raw of [...list(pathItem, "parameters"), ...list(operation, "parameters")]) {
+    const param = deref(document, raw);
+    if (param?.name && param.in !== "body") {
+      result.set(`${param.in}:${param.name}`, param);
+    }
+  }
+  return result;
+}
+
+function firstContentSchema(content: unknown): SpecObject | undefined {
+  if (!isObject(content)) return undefined;
+  const first = Object.values(content)[0];
+  return child(child(content, "application/json") || (isObject(first) ? first : undefined), "schema");
+}
+
+// OpenAPI 3 requestBody or a Swagger 2 `in: body` parameter
+function requestBody(document: SpecObject, operation: SpecObject): { required: boolean; schema?: SpecObject } | undefined {
+  const body = deref(document, operation.requestBody);
+  if (body) {
+    return { required: body.required === true, schema: firstContentSchema(body.content) };
+  }
+  const swaggerBody = list(operation, "parameters")
+    .map((p) => deref(document, p))
+    .find((p) => p?.in === "body");
+  return swaggerBody ? { required: swaggerBody.required === true, schema: child(swaggerBody, "schema") } : undefined;
+}
+
+function responseSchema(document: SpecObject, response: unknown): SpecObject | undefined {
+  const resolved = deref(document, response);
+  return resolved ? firstContentSchema(resolved.content) || child(resolved, "schema") : undefined;
+}
+
+function schemaType(schema: SpecObject): string | undefined {
+  if (schema.type === undefined) {
+    return undefined;
+  }
+  return Array.isArray(schema.type) ? [...schema.type].sort().join("|") : String(schema.type);
+}
+
+class SpecDiffer {
+  readonly changes: OpenApiChange[] = [];
+
+  constructor(
+    private readonly before: SpecObject,
+    private readonly after: SpecObject
+  ) {}
+
+  private push(severity: ChangeSeverity, kind: string, operation: string | undefined, location: string, description: string) {
+    this.changes.push({ severity, kind, operation, location, description });
+  }
+
+  run(): OpenApiChange[] {
+    const beforeOps = operations(this.before);
+    const afterOps = operations(this.after);
+
+    for (const [key, op] of beforeOps) {
+      if (!afterOps.has(key)) {
+        this.push("breaking", "operation-removed", key, `paths.${op.path}.${op.method}`, `Operation ${key} was removed`);
+      }
+    }
+    for (const [key, op] of afterOps) {
+      const previous = beforeOps.get(key);
+      if (!previous) {
+        this.push("additive", "operation-added", key, `paths.${op.path}.${op.method}`, `Operation ${key} was added`);
+        continue;
+      }
+      this.diffOperation(key, `paths.${op.path}.${op.method}`, previous, op);
+    }
+
+    return this.changes;
+  }
+
+  private diffOperation(
+    key: string,
+    location: string,
+    before: { operation: SpecObject; pathItem: SpecObject },
+    after: { operation: SpecObject; pathItem: SpecObject }
+  ) {
+    const beforeParams = parameters(this.before, before.pathItem, before.operation);
+    const afterParams = parameters(this.after, after.pathItem, after.operation);
+
+    for (const [name, param] of afterParams) {
+      const previous = beforeParams.get(name);
+      const paramLocation = `${location}.parameters[${name}]`;
+      if (!previous) {
+        const required = param.required === true;
+        this.push(
+          required ? "breaking" : "additive",
+          required ? "required-parameter-added" : "optional-parameter-added",
+          key,
+          paramLocation,
+          `New ${required ? "required" : "optional"} ${param.in} parameter "${param.name}"`
+        );
+        continue;
+      }
+      if (param.required === true && previous.required !== true) {
+        this.push("breaking", "parameter-now-required", key, paramLocation, `${param.in} parameter "${param.name}" became required`);
+      }
+      this.diffSchema(
+        previous.schema || { type: previous.type, enum: previous.enum },
+        param.schema || { type: param.type, enum: param.enum },
+        "request",
+        key,
+        paramLocation,
+        0
+      );
+    }
+    for (const [name, param] of beforeParams) {
+      if (!afterParams.has(name)) {
+        this.push(
+          param.in === "path" ? "breaking" : "potentially-breaking",
+          "parameter-removed",
+          key,
+          `${location}.parameters[${name}]`,
+          `${param.in} parameter "${param.name}" was removed`
+        );
+      }
+    }
+
+    const beforeBody = requestBody(this.before, before.operation);
+    const afterBody = requestBody(this.after, after.operation);
+    if (afterBody && !beforeBody) {
+      this.push(
+        afterBody.required ? "breaking" : "additive",
+        afterBody.required ? "required-request-body-added" : "request-body-added",
+        key,
+        `${location}.requestBody`,
+        `A ${afterBody.required ? "required" : "optional"} request body was added`
+      );
+    } else if (beforeBody && !afterBody) {
+      this.push("potentially-breaking", "request-body-removed", key, `${location}.requestBody`, "The request body was removed");
+    } else if (beforeBody && afterBody) {
+      if (afterBody.required && !beforeBody.required) {
+        this.push("breaking", "request-body-now-required", key, `${location}.requestBody`, "The request body became required");
+      }
+      if (beforeBody.schema && afterBody.schema) {
+        this.diffSchema(beforeBody.schema, afterBody.schema, "request", key, `${location}.requestBody`, 0);
+      }
+    }
+
+    const beforeResponses = child(before.operation, "responses") || {};
+    const afterResponses = child(after.operation, "responses") || {};
+    for (const code of Object.keys(beforeResponses)) {
+      if (!(code in afterResponses)) {
+        this.push(
+          code.startsWith("2") ? "breaking" : "potentially-breaking",
+          "response-removed",
+          key,
+          `${location}.responses.${code}`,
+          `Response ${code} was removed`
+        );
+      }
+    }
+    for (const code of Object.keys(afterResponses)) {
+      if (!(code in beforeResponses)) {
+        this.push(
+          code.startsWith("2") ? "potentially-breaking" : "additive",
+          "response-added",
+          key,
+          `${location}.responses.${code}`,
+          `Response ${code} was added`
+        );
+        continue;
+      }
+      const beforeSchema = responseSchema(this.before, beforeResponses[code]);
+      const afterSchema = responseSchema(this.after, afterResponses[code]);
+      if (beforeSchema && afterSchema) {
+        this.diffSchema(beforeSchema, afterSchema, "response", key, `${location}.responses.${code}`, 0);
+      } else if (beforeSchema && !afterSchema) {
+        this.push("breaking", "response-body-removed", key, `${location}.responses.${code}`, `Response ${code} no longer has a body`);
+      }
+    }
+  }
+
+  // Requests break when the server accepts less than before; responses break
+  // when the server returns less (or differently shaped) data than before
+  private diffSchema(
+    rawBefore: unknown,
+    rawAfter: unknown,
+    direction: "request" | "response",
+    operation: string,
+    location: string,
+    depth: number
+  ) {
+    const before = deref(this.before, rawBefore);
+    const after = deref(this.after, rawAfter);
+    if (!before || !after || depth > MAX_SCHEMA_DEPTH) {
+      return;
+    }
+
+    const beforeType = schemaType(before);
+    const afterType = schemaType(after);
+    if (beforeType && afterType && beforeType !== afterType) {
+      this.push("breaking", "type-changed", operation, location, `Type changed from ${beforeType} to ${afterType}`);
+      return;
+    }
+    if (before.format !== after.format && before.format && after.format) {
+      this.push("potentially-breaking", "format-changed", operation, location, `Format changed from ${before.format} to ${after.format}`);
+    }
+
+    const beforeEnum = before.enum;
+    const afterEnum = after.enum;
+    if (Array.isArray(beforeEnum) && Array.isArray(afterEnum)) {
+      const removed = beforeEnum.filter((v: unknown) => !afterEnum.includes(v));
+      const added = afterEnum.filter((v: unknown) => !beforeEnum.includes(v));
+      if (removed.length > 0) {
+        this.push(
+          direction === "request" ? "breaking" : "additive",
+          "enum-values-removed",
+          operation,
+          location,
+          `Enum values removed: ${removed.join(", ")}`
+        );
+      }
+      if (added.length > 0) {
+        this.push(
+          direction === "response" ? "potentially-breaking" : "additive",
+          "enum-values-added",
+          operation,
+          location,
+          `Enum values added: ${added.join(", ")}`
+        );
+      }
+    }
+
+    if (direction === "request") {
+      const [maxLength, previousMaxLength] = [numberAt(after, "maxLength"), numberAt(before, "maxLength")];
+      const [minLength, previousMinLength] = [numberAt(after, "minLength"), numberAt(before, "minLength")];
+      const [maximum, previousMaximum] = [numberAt(after, "maximum"), numberAt(before, "maximum")];
+      const [minimum, previousMinimum] = [numberAt(after, "minimum"), numberAt(before, "minimum")];
+      const narrowed =
+        (maxLength !== undefined && (previousMaxLength === undefined || maxLength < previousMaxLength)) ||
+        (minLength !== undefined && minLength > (previousMinLength ?? 0)) ||
+        (maximum !== undefined && (previousMaximum === undefined || maximum < previousMaximum)) ||
+        (minimum !== undefined && (previousMinimum === undefined || minimum > previousMinimum)) ||
+        (after.pattern !== undefined && after.pattern !== before.pattern);
+      if (narrowed) {
+        this.push("breaking", "constraint-narrowed", operation, location, "Validation constraints now accept fewer values");
+      }
+    }
+
+    const beforeProps = child(before, "properties") || {};
+    const afterProps = child(after, "properties") || {};
+    const beforeRequired = list(before, "required");
+    const afterRequired = list(after, "required");
+
+    for (const name of Object.keys(beforeProps)) {
+      if (!(name in afterProps)) {
+        this.push(
+          direction === "response" ? "breaking" : "potentially-breaking",
+          "property-removed",
+          operation,
+          `${location}.${name}`,
+          `Property "${name}" was removed`
+        );
+      }
+    }
+    for (const [name, schema] of Object.entries(afterProps)) {
+      const propertyLocation = `${location}.${name}`;
+      if (!(name in beforeProps)) {
+        const required = afterRequired.includes(name);
+        this.push(
+          direction === "request" && required ? "breaking" : "additive",
+          required ? "required-property-added" : "property-added",
+          operation,
+          propertyLocation,
+          `${required ? "Required property" : "Property"} "${name}" was added`
+        );
+        continue;
+      }
+      if (direction === "request" && afterRequired.includes(name) && !beforeRequired.includes(name)) {
+        this.push("breaking", "property-now-required", operation, propertyLocation, `Property "${name}" became required`);
+      }
+      if (direction === "response" && beforeRequired.includes(name) && !afterRequired.includes(name)) {
+        this.push("potentially-breaking", "property-now-optional", operation, propertyLocation, `Property "${name}" is no longer guaranteed`);
+      }
+      this.diffSchema(beforeProps[name], schema, direction, operation, propertyLocation, depth + 1);
+    }
+
+    if (before.items && after.items) {
+      this.diffSchema(before.items, after.items, direction, operation, `${location}[]`, depth + 1);
+    }
+  }
+}
+
+export function diffSpecs(before: SpecObject, after: SpecObject): OpenApiChange[] {
+  return new SpecDiffer(before, after).run();
+}
+
+function versionOf(spec: SpecObject | undefined): string | undefined {
+  const version = child(spec, "info")?.version;
+  return version === undefined ? undefined : String(version);
+}
+
+// Locate spec files at both refs and diff every one that changed
+export async function diffOpenApiSpecs(
+  provider: RepositoryProvider,
+  base: string,
+  head: string,
+  specPath?: string
+): Promise<{ baseRef: string; specs: SpecDiff[] }> {
+  const comparison = await provider.compareCommits(base, head);
+  const baseRef = comparison.mergeBaseSha || base;
+
+  const paths = specPath
+    ? [specPath]
+    : [
+        ...new Set([
+          ...(await provider.listFiles(head)).filter(isSpecFile),
+          ...comparison.files.filter((f) => f.status === "removed" && isSpecFile(f.filename)).map((f) => f.filename),
+        ]),
+      ];
+
+  const specs: SpecDiff[] = [];
+  for (const path of paths.sort()) {
+    const changed = comparison.files.find((f) => f.filename === path);
+    if (!changed) {
+      specs.push({ file: path, status: "unchanged", changes: [] });
+      continue;
+    }
+
+    const beforePath = changed.previousFilename || path;
+    const before =
+      changed.status === "added" ? undefined : parseSpec(await provider.getFileContent(beforePath, baseRef), beforePath);
+    const after =
+      changed.status === "removed" ? undefined : parseSpec(await provider.getFileContent(path, head), path);
+
+    specs.push({
+      file: path,
+      status: !before ? "added" : !after ? "removed" : "modified",
+      version: { before: versionOf(before), after: versionOf(after) },
+      changes: diffSpecs(before || { paths: {} }, after || { paths: {} }),
+    });
+  }
+
+  return { baseRef, specs };
+}
+
+export interface GeneratedOpenApi {
+  document: SpecObject;
+  files: number;
+  operations: number;
+  skipped: Array<{ method: string; path: string; file: string; reason: string }>;
+}
+
+// `:id` (Express), `<id>` (Flask) and `{id:\d+}` (Spring regex) all become `{id}`
+function toOpenApiPath(path: string): string {
+  const normalized = path
+    .replace(/\{(\w+):[^}]*\}/g, "{$1}")
+    .replace(/:(\w+)/g, "{$1}")
+    .replace(/<(?:\w+:)?(\w+)>/g, "{$1}");
+  return normalized.startsWith("/") ? normalized : `/${normalized}`;
+}
+
+// Walk every file matching the service's API patterns at a ref and assemble
+// an OpenAPI 3.1 document from the extracted endpoints
+export async function generateOpenApi(
+  provider: RepositoryProvider,
+  service: ServiceConfig,
+  ref: string,
+  includeModels = true
+): Promise<GeneratedOpenApi> {
+  const files = await collectServiceEndpoints(provider, service, ref);
+  const resolver = new ModelResolver(provider, ref);
+  const paths: Record<string, SpecObject> = {};
+  const operationIds = new Set<string>();
+  const skipped: GeneratedOpenApi["skipped"] = [];
+  let count = 0;
+
+  for (const { file, content, endpoints } of files) {
+    const javaSource = file.endsWith(".java") ? resolver.sourceFromContent(file, content) : undefined;
+    const tag = file.split("/").pop()!.replace(/\.\w+$/, "");
+
+    for (const endpoint of endpoints) {
+      const method = endpoint.method.toLowerCase();
+      if (!HTTP_METHODS.includes(method)) {
+        skipped.push({ method: endpoint.method, path: endpoint.path, file, reason: "no single HTTP method" });
+        continue;
+      }
+      if (!endpoint.path) {
+        skipped.push({ method: endpoint.method, path: endpoint.path, file, reason: "path could not be determined" });
+        continue;
+      }
+
+      const path = toOpenApiPath(endpoint.path);
+      const pathItem = (paths[path] ||= {});
+      if (pathItem[method]) {
+        continue;
+      }
+
+      const schemaFor = async (type: string): Promise<JsonSchema> =>
+        javaSource ? resolver.resolveType(type, javaSource, 0, new Set()) : { type: "string" };
+
+      const parameters: SpecObject[] = [];
+      const declared = endpoint.parameters || [];
+      for (const name of [...path.matchAll(/\{(\w+)\}/g)].map((m) => m[1])) {
+        const param = declared.find((p) => p.in === "path" && p.name === name);
+        parameters.push({
+          name,
+          in: "path",
+          required: true,
+          schema: param ? await schemaFor(param.type) : { type: "string" },
+        });
+      }
+      for (const param of declared.filter((p) => p.in === "query" || p.in === "header")) {
+        const schema: SpecObject = { ...(await schemaFor(param.type)) };
+        if (param.defaultValue !== undefined) {
+          schema.default = param.defaultValue;
+        }
+        parameters.push({ name: param.name, in: param.in, required: param.required, schema });
+      }
+
+      const baseId =
+        endpoint.handlerName ||
+        `${method}${path.replace(/\W+(\w)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ""))}`;
+      let operationId = baseId;
+      for (let i = 2; operationIds.has(operationId); i++) {
+        operationId = `${baseId}${i}`;
+      }
+      operationIds.add(operationId);
+
+      const operation: SpecObject = {
+        operationId,
+        tags: [tag],
+        "x-source": { file, line: endpoint.lineNumber },
+        responses: { default: { description: "Response" } },
+      };
+      if (parameters.length > 0) {
+        operation.parameters = parameters;
+      }
+
+      const body = declared.find((p) => p.in === "body");
+      if (body) {
+        operation.requestBody = {
+          required: body.required,
+          content: {
+            "application/json": {
+              schema: includeModels ? await schemaFor(body.type) : { "x-java-type": body.type },
+            },
+          },
+        };
+      }
+      if (includeModels && javaSource && endpoint.returnType && !/^(void|Void)$/.test(endpoint.returnType)) {
+        operation.responses = {
+          default: {
+            description: endpoint.returnType,
+            content: { "application/json": { schema: await schemaFor(endpoint.returnType) } },
+          },
+        };
+      }
+
+      pathItem[method] = operation;
+      count++;
+    }
+  }
+
+  const document: SpecObject = {
+    openapi: "3.1.0",
+    info: {
+      title: service.name,
+      version: ref,
+      description: `Generated from ${service.repoOwner}/${service.repoName} at ${ref} by endpoint extraction`,
+    },
+    paths: Object.fromEntries(Object.entries(paths).sort(([a], [b]) => a.localeCompare(b))),
+  };
+
+  return { document, files: files.length, operations: count, skipped };
+}
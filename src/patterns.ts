@@ -0,0 +1,202 @@
+import { Minimatch } from "minimatch";
+import type { ServiceConfig } from "./config.js";
+import type { Framework } from "./types.js";
+
+export type PatternConfig = Pick<ServiceConfig, "apiPatterns" | "excludePatterns" | "framework">;
+
+interface PatternPreset {
+  include: string[];
+  exclude: string[];
+}
+
+// Where each framework keeps its HTTP handlers, and the tests, fixtures and
+// generated code that live next to them but are not API surface
+export const FRAMEWORK_PRESETS: Record<Framework, PatternPreset> = {
+  spring: {
+    include: [
+      "**/controller/**/*.{java,kt}",
+      "**/controllers/**/*.{java,kt}",
+      "**/rest/**/*.{java,kt}",
+      "**/*{Controller,Resource,Endpoint}.{java,kt}",
+    ],
+    exclude: [
+      "**/src/test/**",
+      "**/src/it/**",
+      "**/*{Test,Tests,IT}.{java,kt}",
+      "**/generated/**",
+      "**/target/**",
+      "**/build/**",
+    ],
+  },
+  express: {
+    include: [
+      "**/routes/**/*.{js,mjs,cjs,ts}",
+      "**/routers/**/*.{js,mjs,cjs,ts}",
+      "**/controllers/**/*.{js,mjs,cjs,ts}",
+      "**/*.{routes,router,controller}.{js,mjs,cjs,ts}",
+      "**/app.{js,mjs,cjs,ts}",
+    ],
+    exclude: [
+      "**/node_modules/**",
+      "**/{test,tests,__tests__}/**",
+      "**/*.{test,spec}.{js,mjs,cjs,ts}",
+      "**/dist/**",
+    ],
+  },
+  nestjs: {
+    include: ["**/*.controller.ts", "**/*.resolver.ts"],
+    exclude: [
+      "**/node_modules/**",
+      "**/{test,tests,__tests__}/**",
+      "**/*.{test,spec}.ts",
+      "**/dist/**",
+    ],
+  },
+  fastapi: {
+    include: [
+      "**/routers/**/*.py",
+      "**/routes/**/*.py",
+      "**/api/**/*.py",
+      "**/endpoints/**/*.py",
+      "**/main.py",
+    ],
+    exclude: [
+      "**/{test,tests}/**",
+      "**/test_*.py",
+      "**/*_test.py",
+      "**/conftest.py",
+      "**/{venv,.venv}/**",
+    ],
+  },
+  gin: {
+    include: [
+      "**/handler/**/*.go",
+      "**/handlers/**/*.go",
+      "**/routes/**/*.go",
+      "**/router/**/*.go",
+      "**/api/**/*.go",
+    ],
+    exclude: ["**/*_test.go", "**/vendor/**", "**/mocks/**", "**/*.pb.go", "**/*_gen.go"],
+  },
+};
+
+// Schema files that define an API contract whatever the framework; exclude
+// them with excludePatterns (or "!" in apiPatterns) if they are not served
+export const CONTRACT_PATTERNS = ["**/*.graphql", "**/*.graphqls", "**/*.proto"];
+
+export interface PatternSource {
+  pattern: string;
+  source: string;
+}
+
+export interface EffectivePatterns {
+  include: PatternSource[];
+  exclude: PatternSource[];
+}
+
+export interface FileClassification {
+  path: string;
+  isApiFile: boolean;
+  matchedPattern?: PatternSource;
+  excludedBy?: PatternSource;
+  reason: string;
+}
+
+// Globs follow gitignore-style rules: `**` spans directories, `*` and `?`
+// stay within one segment, `{a,b}` alternates, and a pattern without a
+// slash is matched against the file name alone.
+const GLOB_OPTIONS = { dot: true, matchBase: true };
+
+const GLOB_CHARS = /[*?[\]{}]/;
+
+// Patterns without glob characters were substring matches before globs were
+// supported, so `controller` still matches any path containing it
+function globOf(pattern: string): string {
+  return GLOB_CHARS.test(pattern) ? pattern : `**/*${pattern}*{,/**}`;
+}
+
+// Compiled globs, reused across the thousands of paths in a tree listing
+const compiled = new Map<string, Minimatch>();
+
+// Combine the framework preset with the service's own patterns. A leading
+// `!` in apiPatterns is shorthand for an excludePatterns entry.
+export function resolvePatterns(config: PatternConfig): EffectivePatterns {
+  const include: PatternSource[] = [];
+  const exclude: PatternSource[] = [];
+
+  if (config.framework) {
+    const preset = FRAMEWORK_PRESETS[config.framework];
+    if (!preset) {
+      throw new Error(
+        `Unknown framework "${config.framework}". Available: ${Object.keys(FRAMEWORK_PRESETS).join(", ")}`
+      );
+    }
+    const source = `preset:${config.framework}`;
+    include.push(...preset.include.map((pattern) => ({ pattern, source })));
+    exclude.push(...preset.exclude.map((pattern) => ({ pattern, source })));
+  }
+
+  for (const pattern of config.apiPatterns || []) {
+    if (pattern.startsWith("!")) {
+      exclude.push({ pattern: pattern.slice(1), source: "apiPatterns" });
+    } else {
+      include.push({ pattern, source: "apiPatterns" });
+    }
+  }
+  for (const pattern of config.excludePatterns || []) {
+    exclude.push({ pattern, source: "excludePatterns" });
+  }
+  include.push(...CONTRACT_PATTERNS.map((pattern) => ({ pattern, source: "contract" })));
+
+  return { include, exclude };
+}
+
+function findMatch(path: string, patterns: PatternSource[]): PatternSource | undefined {
+  return patterns.find(({ pattern }) => {
+    let matcher = compiled.get(pattern);
+    if (!matcher) {
+      matcher = new Minimatch(globOf(pattern), GLOB_OPTIONS);
+      compiled.set(pattern, matcher);
+    }
+    return matcher.match(path);
+  });
+}
+
+// Explain whether a path counts as an API file and which pattern decided it
+export function classifyFile(path: string, config: PatternConfig): FileClassification {
+  const { include, exclude } = resolvePatterns(config);
+  const normalized = path.replace(/\\/g, "/").replace(/^\.?\//, "");
+  const matchedPattern = findMatch(normalized, include);
+
+  if (!matchedPattern) {
+    return {
+      path,
+      isApiFile: false,
+      reason: include.every((p) => p.source === "contract")
+        ? "No apiPatterns or framework configured"
+        : "No include pattern matched",
+    };
+  }
+
+  const excludedBy = findMatch(normalized, exclude);
+  if (excludedBy) {
+    return {
+      path,
+      isApiFile: false,
+      matchedPattern,
+      excludedBy,
+      reason: `Matched "${matchedPattern.pattern}" but excluded by "${excludedBy.pattern}" (${excludedBy.source})`,
+    };
+  }
+
+  return {
+    path,
+    isApiFile: true,
+    matchedPattern,
+    reason: `Matched "${matchedPattern.pattern}" (${matchedPattern.source})`,
+  };
+}
+
+export function isApiFile(path: string, config: PatternConfig): boolean {
+  return classifyFile(path, config).isApiFile;
+}
@@ -0,0 +1,229 @@
+import {
+  ErrorCode,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+  type PromptMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { ServiceConfig } from "./config.js";
+
+type ToolResult = { content: Array<{ type: string; text: string }> };
+
+export interface PromptContext {
+  services: ServiceConfig[];
+  baseBranchOf: (service: ServiceConfig) => string;
+  callTool: (name: string, args: Record<string, unknown>) => Promise<ToolResult>;
+}
+
+interface PromptDefinition<T extends z.ZodTypeAny> extends Prompt {
+  schema: T;
+  build(args: z.infer<T>, context: PromptContext): Promise<PromptMessage[]>;
+}
+
+// A prompt for one service, built with that service already looked up
+interface ServicePromptDefinition<T extends z.ZodType<{ serviceName: string }>> extends Prompt {
+  schema: T;
+  build(args: z.infer<T>, service: ServiceConfig, context: PromptContext): Promise<PromptMessage[]>;
+}
+
+// A prompt with its schema bound in: `run` validates the raw arguments and
+// builds the messages from them
+interface PromptEntry extends Prompt {
+  run(args: Record<string, string> | undefined, context: PromptContext): Promise<PromptMessage[]>;
+}
+
+const serviceName = z.string().min(1);
+
+function parseArguments<T extends z.ZodTypeAny>(
+  name: string,
+  schema: T,
+  args: Record<string, string> | undefined
+): z.infer<T> {
+  const parsed = schema.safeParse(args || {});
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`);
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${name}: ${problems.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+function findService(services: ServiceConfig[], name: string): ServiceConfig {
+  const service = services.find((s) => s.name.toLowerCase() === name.toLowerCase());
+  if (!service) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Service "${name}" not found. Configured services: ${services.map((s) => s.name).join(", ") || "none"}`
+    );
+  }
+  return service;
+}
+
+function definePrompt<T extends z.ZodTypeAny>(definition: PromptDefinition<T>): PromptEntry {
+  const { schema, build, ...prompt } = definition;
+  return {
+    ...prompt,
+    run: (args, context) => build(parseArguments(prompt.name, schema, args), context),
+  };
+}
+
+function defineServicePrompt<T extends z.ZodType<{ serviceName: string }>>(
+  definition: ServicePromptDefinition<T>
+): PromptEntry {
+  const { build, ...prompt } = definition;
+  return definePrompt({
+    ...prompt,
+    build: (args, context) => build(args, findService(context.services, args.serviceName), context),
+  });
+}
+
+function text(value: string): PromptMessage {
+  return { role: "user", content: { type: "text", text: value } };
+}
+
+// A tool result the assistant would otherwise have to fetch first, and its
+// parsed JSON unless the tool answered with an error message
+async function toolResult<T = unknown>(
+  context: PromptContext,
+  name: string,
+  args: Record<string, unknown>
+): Promise<{ message: PromptMessage; data?: T }> {
+  const result = await context.callTool(name, args);
+  const output = result.content.map((item) => item.text).join("\n");
+  const heading = `Result of \`${name}\` with ${JSON.stringify(args)}:`;
+  try {
+    const data = JSON.parse(output) as T;
+    return { message: text(`${heading}\n\n\`\`\`json\n${output}\n\`\`\``), data };
+  } catch {
+    return { message: text(`${heading}\n\n${output}`) };
+  }
+}
+
+const PROMPTS: PromptEntry[] = [
+  defineServicePrompt({
+    name: "write_tests_for_pr",
+    title: "Write tests for a pull request",
+    description: "Analyse the API changes in a pull request and write automation tests covering them",
+    arguments: [
+      { name: "serviceName", description: "Name of the service", required: true },
+      { name: "number", description: "Pull request number", required: true },
+    ],
+    schema: z.object({ serviceName, number: z.coerce.number().int().positive() }), // arguments arrive as strings
+    async build(args, service, context) {
+      const analysis = await toolResult<{ comparison: { base: string; head: string } }>(
+        context,
+        "analyze_pull_request",
+        { serviceName: service.name, number: args.number }
+      );
+      const messages = [
+        text(
+          [
+            `Write API tests for pull request #${args.number} of ${service.name} (${service.repoOwner}/${service.repoName}).`,
+            "",
+            "1. Read the analysis below: note breaking and potentially breaking changes and the linked issues.",
+            "2. Start from the generated test drafts. Fill in request bodies and assertions from the endpoint models (`get_endpoint_models`) and the handler code (`analyze_api_endpoint`).",
+            "3. Cover each added or changed endpoint with a success case and its main error cases, and update existing tests for breaking changes.",
+            "4. Save each file with `write_test_file`, first with `dryRun: true` to review the diff, then for real.",
+            "5. Finish with a short summary of the endpoints covered and anything left untested.",
+          ].join("\n")
+        ),
+        analysis.message,
+      ];
+
+      const comparison = analysis.data?.comparison;
+      if (comparison) {
+        const drafts = await toolResult(context, "generate_tests_for_changes", {
+          serviceName: service.name,
+          baseBranch: comparison.base,
+          headBranch: comparison.head,
+        });
+        messages.push(drafts.message);
+      }
+      return messages;
+    },
+  }),
+
+  defineServicePrompt({
+    name: "review_release_changes",
+    title: "Review API changes since the last release",
+    description: "Review the API changes of a service since its latest (or deployed) release and draft release notes",
+    arguments: [
+      { name: "serviceName", description: "Name of the service", required: true },
+      { name: "from", description: 'Version to compare from (default: "deployed" with a manifest, otherwise "latest")' },
+      { name: "to", description: "Version to compare to (default: the service's base branch)" },
+    ],
+    schema: z.object({ serviceName, from: z.string().optional(), to: z.string().optional() }),
+    async build(args, service, context) {
+      const to = args.to || context.baseBranchOf(service);
+      return [
+        text(
+          [
+            `Review the API changes in ${service.name} between ${args.from || "its last release"} and ${to} before they ship.`,
+            "",
+            "1. List the breaking changes first, with the clients that likely depend on each endpoint, then the potentially breaking ones.",
+            "2. For each change, say whether it needs a versioned path, a deprecation period or only a note to consumers.",
+            "3. Check which changed endpoints have no tests (`find_untested_endpoints`) and name the tests to add or update.",
+            "4. End with release notes for API consumers, based on the changelog below.",
+          ].join("\n")
+        ),
+        (
+          await toolResult(context, "compare_versions", {
+            serviceName: service.name,
+            ...(args.from ? { from: args.from } : {}),
+            to,
+          })
+        ).message,
+      ];
+    },
+  }),
+
+  definePrompt({
+    name: "find_untested_endpoints",
+    title: "Find untested endpoints",
+    description: "List endpoints with no automation tests and plan the tests to write, most important first",
+    arguments: [{ name: "serviceName", description: "Name of the service (default: every configured service)" }],
+    schema: z.object({ serviceName: serviceName.optional() }),
+    async build(args, context) {
+      const service = args.serviceName ? findService(context.services, args.serviceName) : undefined;
+      return [
+        text(
+          [
+            `Find the API endpoints of ${service ? service.name : "every configured service"} that no automation test calls and plan tests for them.`,
+            "",
+            "1. Group the untested endpoints by controller and rank them: writes (POST, PUT, PATCH, DELETE) and payment or account endpoints first.",
+            "2. For the top endpoints, get a starting point with `get_test_template` and the request and response models with `get_endpoint_models`.",
+            "3. Propose the test files to add, with their paths in the automation repository, and ask before writing them with `write_test_file`.",
+          ].join("\n")
+        ),
+        (await toolResult(context, "find_untested_endpoints", service ? { serviceName: service.name } : {})).message,
+      ];
+    },
+  }),
+];
+
+export function listPrompts(): Prompt[] {
+  return PROMPTS.map(({ run, ...prompt }) => prompt);
+}
+
+// Validate the arguments, run the tools the workflow starts with and return
+// the instructions followed by their results
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  context: PromptContext
+): Promise<GetPromptResult> {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt "${name}". Available prompts: ${PROMPTS.map((p) => p.name).join(", ")}`);
+  }
+  return { description: prompt.description, messages: await prompt.run(args, context) };
+}
+
+// Suggest service names for the serviceName argument of any prompt
+export function completePromptArgument(argument: string, value: string, services: ServiceConfig[]): string[] {
+  if (argument !== "serviceName") {
+    return [];
+  }
+  const prefix = value.toLowerCase();
+  return services.map((s) => s.name).filter((name) => name.toLowerCase().startsWith(prefix));
+}
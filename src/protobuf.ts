@@ -0,0 +1,909 @@
+import type { ChangeSeverity } from "./classify.js";
+import { mapConcurrent } from "./concurrency.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import type { ApiEndpoint } from "./types.js";
+
+export type FieldLabel = "singular" | "optional" | "required" | "repeated" | "map";
+
+export interface ProtoField {
+  name: string;
+  number: number;
+  type: string; // scalar, fully qualified message/enum name, or map<K, V>
+  label: FieldLabel;
+  oneof?: string;
+  line: number;
+}
+
+export interface ProtoReserved {
+  numbers: Array<[number, number]>; // inclusive ranges
+  names: string[];
+}
+
+export interface ProtoMessage {
+  name: string; // fully qualified, e.g. "campaign.v1.Campaign.Budget"
+  fields: ProtoField[];
+  reserved: ProtoReserved;
+  file: string;
+  line: number;
+}
+
+export interface ProtoEnum {
+  name: string;
+  values: Array<{ name: string; number: number; line: number }>;
+  reserved: ProtoReserved;
+  file: string;
+  line: number;
+}
+
+export interface ProtoRpc {
+  name: string;
+  requestType: string;
+  responseType: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  line: number;
+}
+
+export interface ProtoService {
+  name: string; // fully qualified, e.g. "campaign.v1.CampaignService"
+  rpcs: ProtoRpc[];
+  file: string;
+  line: number;
+}
+
+export interface ProtoSchema {
+  messages: Record<string, ProtoMessage>;
+  enums: Record<string, ProtoEnum>;
+  services: Record<string, ProtoService>;
+}
+
+export interface ProtoChange {
+  severity: ChangeSeverity;
+  kind: string;
+  location: string;
+  description: string;
+  file?: string;
+  line?: number;
+}
+
+export interface ProtoDiffResult {
+  baseRef: string;
+  files: Array<{ file: string; status: string }>;
+  rpcs: { before: string[]; after: string[] };
+  changes: ProtoChange[];
+}
+
+// The pieces a gRPC test template needs to call one RPC
+export interface GrpcMethodContext {
+  protoFile: string;
+  package: string;
+  service: string;
+  clientPath: string; // path of the client constructor in grpc.loadPackageDefinition()
+  method: string;
+  requestType: string;
+  responseType: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  sampleRequest: string;
+}
+
+const PROTO_FILE = /\.proto$/i;
+
+const SCALAR_TYPES = new Set([
+  "double", "float", "int32", "int64", "uint32", "uint64", "sint32", "sint64",
+  "fixed32", "fixed64", "sfixed32", "sfixed64", "bool", "string", "bytes",
+]);
+
+// Scalar types that share a wire encoding and can be swapped without
+// corrupting existing data (values may still be truncated or reinterpreted)
+const WIRE_COMPATIBLE = [
+  ["int32", "uint32", "int64", "uint64", "bool"],
+  ["sint32", "sint64"],
+  ["fixed32", "sfixed32"],
+  ["fixed64", "sfixed64"],
+  ["string", "bytes"],
+];
+
+// Largest field number protobuf allows, used for `reserved 10 to max`
+const MAX_FIELD_NUMBER = 536870911;
+
+export function isProtoFile(path: string): boolean {
+  return PROTO_FILE.test(path) && !path.includes("node_modules/");
+}
+
+function emptySchema(): ProtoSchema {
+  return { messages: {}, enums: {}, services: {} };
+}
+
+interface Token {
+  kind: "word" | "string" | "punctuator";
+  value: string;
+  line: number;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (source.startsWith("//", i)) {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (source.startsWith("/*", i)) {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      line += source.slice(i, stop).split("\n").length - 1;
+      i = stop;
+    } else if (ch === '"' || ch === "'") {
+      let end = i + 1;
+      while (end < source.length && source[end] !== ch && source[end] !== "\n") {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      tokens.push({ kind: "string", value: source.slice(i + 1, end), line });
+      i = end + 1;
+    } else if ("{}()[]<>;=,:".includes(ch)) {
+      tokens.push({ kind: "punctuator", value: ch, line });
+      i++;
+    } else {
+      const word = source.slice(i).match(/^[\w.+-]+/)?.[0];
+      if (!word) {
+        throw new Error(`Unexpected character "${ch}" at line ${line}`);
+      }
+      tokens.push({ kind: "word", value: word, line });
+      i += word.length;
+    }
+  }
+  return tokens;
+}
+
+// Reads messages, enums and services from a .proto file (proto2, proto3
+// and editions); options and extensions are skipped
+class ProtoParser {
+  private position = 0;
+  private packageName = "";
+  // Type references are resolved once every name in the file is known
+  private readonly references: Array<{ scope: string; set: (type: string) => void; type: string }> = [];
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly file: string,
+    private readonly schema: ProtoSchema
+  ) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error(`${this.file}: unexpected end of file`);
+    }
+    return token;
+  }
+
+  private is(value: string): boolean {
+    const token = this.peek();
+    return token !== undefined && token.kind !== "string" && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.value !== value) {
+      throw new Error(`${this.file}: expected "${value}" but found "${token.value}" at line ${token.line}`);
+    }
+    return token;
+  }
+
+  private word(): Token {
+    const token = this.next();
+    if (token.kind !== "word") {
+      throw new Error(`${this.file}: expected a name but found "${token.value}" at line ${token.line}`);
+    }
+    return token;
+  }
+
+  // Skip to the end of a statement, stepping over any nested blocks
+  private skipStatement(): void {
+    let depth = 0;
+    for (;;) {
+      const token = this.next();
+      if (token.kind === "string") continue;
+      if (token.value === "{" || token.value === "[" || token.value === "(") depth++;
+      if (token.value === "}" || token.value === "]" || token.value === ")") {
+        depth--;
+        if (depth === 0 && token.value === "}" && !this.is(";")) return;
+      }
+      if (token.value === ";" && depth <= 0) return;
+    }
+  }
+
+  private skipFieldOptions(): void {
+    if (this.is("[")) {
+      let depth = 0;
+      do {
+        const token = this.next();
+        if (token.kind !== "string" && token.value === "[") depth++;
+        if (token.kind !== "string" && token.value === "]") depth--;
+      } while (depth > 0);
+    }
+  }
+
+  private qualified(scope: string, name: string): string {
+    return scope ? `${scope}.${name}` : name;
+  }
+
+  private reference(scope: string, type: string, set: (type: string) => void): void {
+    this.references.push({ scope, type, set });
+  }
+
+  private reserved(target: ProtoReserved): void {
+    while (!this.is(";")) {
+      const token = this.next();
+      if (token.kind === "string") {
+        target.names.push(token.value);
+      } else if (token.kind === "word" && !/^-?\d|^0x/i.test(token.value)) {
+        // editions write reserved names without quotes
+        target.names.push(token.value);
+      } else if (token.kind === "word") {
+        const start = Number(token.value);
+        let end = start;
+        if (this.is("to")) {
+          this.next();
+          const upper = this.word().value;
+          end = upper === "max" ? MAX_FIELD_NUMBER : Number(upper);
+        }
+        target.numbers.push([start, end]);
+      }
+    }
+    this.expect(";");
+  }
+
+  private field(scope: string, message: ProtoMessage, oneof?: string): void {
+    const first = this.next();
+    let label: FieldLabel = "singular";
+    let type: string;
+
+    let mapTypes: [string, string] | undefined;
+    if (first.value === "map") {
+      this.expect("<");
+      const key = this.word().value;
+      this.expect(",");
+      const value = this.word().value;
+      this.expect(">");
+      label = "map";
+      mapTypes = [key, value];
+      type = `map<${key}, ${value.replace(/^\./, "")}>`;
+    } else if (["optional", "required", "repeated"].includes(first.value) && !this.is("=")) {
+      label = first.value as FieldLabel;
+      type = this.word().value;
+    } else {
+      type = first.value;
+    }
+
+    const name = this.word();
+    this.expect("=");
+    const number = Number(this.word().value);
+    const field: ProtoField = { name: name.value, number, type: type.replace(/^\./, ""), label, line: name.line };
+    if (oneof) field.oneof = oneof;
+    if (mapTypes) {
+      const [key, value] = mapTypes;
+      this.reference(scope, value, (resolved) => (field.type = `map<${key}, ${resolved}>`));
+    } else if (!SCALAR_TYPES.has(type)) {
+      this.reference(scope, type, (resolved) => (field.type = resolved));
+    }
+
+    if (type === "group") {
+      // proto2 groups carry their own message body
+      this.skipStatement();
+    } else {
+      this.skipFieldOptions();
+      this.expect(";");
+    }
+    message.fields.push(field);
+  }
+
+  private message(scope: string): void {
+    const name = this.word();
+    const fullName = this.qualified(scope, name.value);
+    const message: ProtoMessage = {
+      name: fullName,
+      fields: [],
+      reserved: { numbers: [], names: [] },
+      file: this.file,
+      line: name.line,
+    };
+    this.schema.messages[fullName] = message;
+
+    this.expect("{");
+    while (!this.is("}")) {
+      const token = this.peek()!;
+      switch (token.value) {
+        case "message":
+          this.next();
+          this.message(fullName);
+          break;
+        case "enum":
+          this.next();
+          this.enumeration(fullName);
+          break;
+        case "oneof": {
+          this.next();
+          const oneof = this.word().value;
+          this.expect("{");
+          while (!this.is("}")) {
+            if (this.is("option")) {
+              this.skipStatement();
+            } else {
+              this.field(fullName, message, oneof);
+            }
+          }
+          this.expect("}");
+          break;
+        }
+        case "reserved":
+          this.next();
+          this.reserved(message.reserved);
+          break;
+        case "option":
+        case "extensions":
+        case "extend":
+          this.skipStatement();
+          break;
+        case ";":
+          this.next();
+          break;
+        default:
+          this.field(fullName, message);
+      }
+    }
+    this.expect("}");
+  }
+
+  private enumeration(scope: string): void {
+    const name = this.word();
+    const fullName = this.qualified(scope, name.value);
+    const enumeration: ProtoEnum = {
+      name: fullName,
+      values: [],
+      reserved: { numbers: [], names: [] },
+      file: this.file,
+      line: name.line,
+    };
+    this.schema.enums[fullName] = enumeration;
+
+    this.expect("{");
+    while (!this.is("}")) {
+      if (this.is("option")) {
+        this.skipStatement();
+      } else if (this.is("reserved")) {
+        this.next();
+        this.reserved(enumeration.reserved);
+      } else if (this.is(";")) {
+        this.next();
+      } else {
+        const value = this.word();
+        this.expect("=");
+        enumeration.values.push({ name: value.value, number: Number(this.word().value), line: value.line });
+        this.skipFieldOptions();
+        this.expect(";");
+      }
+    }
+    this.expect("}");
+  }
+
+  private service(): void {
+    const name = this.word();
+    const fullName = this.qualified(this.packageName, name.value);
+    const service: ProtoService = { name: fullName, rpcs: [], file: this.file, line: name.line };
+    this.schema.services[fullName] = service;
+
+    const messageType = (): { type: string; streaming: boolean } => {
+      this.expect("(");
+      const streaming = this.is("stream");
+      if (streaming) this.next();
+      const type = this.word().value;
+      this.expect(")");
+      return { type, streaming };
+    };
+
+    this.expect("{");
+    while (!this.is("}")) {
+      if (!this.is("rpc")) {
+        this.skipStatement();
+        continue;
+      }
+      this.next();
+      const rpcName = this.word();
+      const request = messageType();
+      this.expect("returns");
+      const response = messageType();
+      const rpc: ProtoRpc = {
+        name: rpcName.value,
+        requestType: request.type.replace(/^\./, ""),
+        responseType: response.type.replace(/^\./, ""),
+        clientStreaming: request.streaming,
+        serverStreaming: response.streaming,
+        line: rpcName.line,
+      };
+      this.reference(this.packageName, request.type, (resolved) => (rpc.requestType = resolved));
+      this.reference(this.packageName, response.type, (resolved) => (rpc.responseType = resolved));
+      if (this.is("{")) {
+        this.skipStatement();
+      } else {
+        this.expect(";");
+      }
+      service.rpcs.push(rpc);
+    }
+    this.expect("}");
+  }
+
+  // Resolve names the way protoc does: from the innermost scope outwards,
+  // falling back to the name as written for types from imported files
+  private resolveReferences(): void {
+    const known = new Set([...Object.keys(this.schema.messages), ...Object.keys(this.schema.enums)]);
+    for (const { scope, type, set } of this.references) {
+      if (type.startsWith(".")) continue;
+      const parts = scope ? scope.split(".") : [];
+      for (let i = parts.length; i >= 0; i--) {
+        const candidate = [...parts.slice(0, i), type].join(".");
+        if (known.has(candidate)) {
+          set(candidate);
+          break;
+        }
+      }
+    }
+  }
+
+  parse(): void {
+    while (this.peek()) {
+      const token = this.next();
+      switch (token.value) {
+        case "package":
+          this.packageName = this.word().value;
+          this.expect(";");
+          break;
+        case "message":
+          this.message(this.packageName);
+          break;
+        case "enum":
+          this.enumeration(this.packageName);
+          break;
+        case "service":
+          this.service();
+          break;
+        case ";":
+          break;
+        case "syntax":
+        case "edition":
+        case "import":
+        case "option":
+          if (!this.is(";")) this.skipStatement();
+          else this.next();
+          break;
+        case "extend":
+          this.skipStatement();
+          break;
+        default:
+          throw new Error(`${this.file}: unexpected "${token.value}" at line ${token.line}`);
+      }
+    }
+    this.resolveReferences();
+  }
+
+  get package(): string {
+    return this.packageName;
+  }
+}
+
+// Parse a .proto file into `schema`, keyed by fully qualified names so that
+// several files of the same package read as one
+export function parseProto(content: string, file: string, schema = emptySchema()): ProtoSchema & { package: string } {
+  const parser = new ProtoParser(tokenize(content), file, schema);
+  parser.parse();
+  return { ...schema, package: parser.package };
+}
+
+// RPCs of a .proto file as endpoints, keyed by their HTTP/2 path
+export function extractProtoOperations(content: string, file: string): ApiEndpoint[] {
+  let schema: ProtoSchema;
+  try {
+    schema = parseProto(content, file);
+  } catch {
+    return [];
+  }
+
+  const lines = content.split("\n");
+  return Object.values(schema.services).flatMap((service) =>
+    service.rpcs.map((rpc) => ({
+      method: "GRPC",
+      path: `/${service.name}/${rpc.name}`,
+      handler: lines[rpc.line - 1].trim(),
+      lineNumber: rpc.line,
+      handlerName: rpc.name,
+      returnType: `${rpc.serverStreaming ? "stream " : ""}${rpc.responseType}`,
+      parameters: [
+        {
+          name: "request",
+          in: "body" as const,
+          type: `${rpc.clientStreaming ? "stream " : ""}${rpc.requestType}`,
+          required: true,
+        },
+      ],
+    }))
+  );
+}
+
+function isReserved(reserved: ProtoReserved, number: number): boolean {
+  return reserved.numbers.some(([start, end]) => number >= start && number <= end);
+}
+
+function wireCompatible(before: string, after: string): boolean {
+  return WIRE_COMPATIBLE.some((group) => group.includes(before) && group.includes(after));
+}
+
+// proto3 `optional` only adds presence tracking; the encoding is the same
+function sameLabel(before: FieldLabel, after: FieldLabel): boolean {
+  const normalize = (label: FieldLabel) => (label === "optional" ? "singular" : label);
+  return normalize(before) === normalize(after);
+}
+
+class ProtoDiffer {
+  private readonly changes: ProtoChange[] = [];
+
+  constructor(
+    private readonly before: ProtoSchema,
+    private readonly after: ProtoSchema
+  ) {}
+
+  private push(
+    severity: ChangeSeverity,
+    kind: string,
+    location: string,
+    description: string,
+    at?: { file: string; line: number }
+  ): void {
+    this.changes.push({ severity, kind, location, description, file: at?.file, line: at?.line });
+  }
+
+  run(): ProtoChange[] {
+    for (const [name, before] of Object.entries(this.before.services)) {
+      const after = this.after.services[name];
+      if (!after) {
+        this.push("breaking", "service-removed", name, `Service ${name} was removed`, before);
+      } else {
+        this.diffService(before, after);
+      }
+    }
+    for (const [name, after] of Object.entries(this.after.services)) {
+      if (!this.before.services[name]) {
+        this.push("additive", "service-added", name, `Service ${name} was added`, after);
+      }
+    }
+
+    for (const [name, before] of Object.entries(this.before.messages)) {
+      const after = this.after.messages[name];
+      if (!after) {
+        this.push("breaking", "message-removed", name, `Message ${name} was removed`, before);
+      } else {
+        this.diffMessage(before, after);
+      }
+    }
+    for (const [name, after] of Object.entries(this.after.messages)) {
+      if (!this.before.messages[name]) {
+        this.push("additive", "message-added", name, `Message ${name} was added`, after);
+      }
+    }
+
+    for (const [name, before] of Object.entries(this.before.enums)) {
+      const after = this.after.enums[name];
+      if (!after) {
+        this.push("breaking", "enum-removed", name, `Enum ${name} was removed`, before);
+      } else {
+        this.diffEnum(before, after);
+      }
+    }
+    for (const [name, after] of Object.entries(this.after.enums)) {
+      if (!this.before.enums[name]) {
+        this.push("additive", "enum-added", name, `Enum ${name} was added`, after);
+      }
+    }
+    return this.changes;
+  }
+
+  private diffService(before: ProtoService, after: ProtoService): void {
+    for (const rpc of before.rpcs) {
+      const location = `${before.name}/${rpc.name}`;
+      const next = after.rpcs.find((r) => r.name === rpc.name);
+      if (!next) {
+        this.push("breaking", "rpc-removed", location, `RPC ${location} was removed`, { file: before.file, line: rpc.line });
+        continue;
+      }
+      const at = { file: after.file, line: next.line };
+      if (next.requestType !== rpc.requestType) {
+        this.push("breaking", "rpc-request-changed", location, `Request of ${location} changed from ${rpc.requestType} to ${next.requestType}`, at);
+      }
+      if (next.responseType !== rpc.responseType) {
+        this.push("breaking", "rpc-response-changed", location, `Response of ${location} changed from ${rpc.responseType} to ${next.responseType}`, at);
+      }
+      if (next.clientStreaming !== rpc.clientStreaming || next.serverStreaming !== rpc.serverStreaming) {
+        const mode = (r: ProtoRpc) =>
+          r.clientStreaming && r.serverStreaming ? "bidirectional streaming" : r.clientStreaming ? "client streaming" : r.serverStreaming ? "server streaming" : "unary";
+        this.push("breaking", "rpc-streaming-changed", location, `${location} changed from ${mode(rpc)} to ${mode(next)}`, at);
+      }
+    }
+    for (const rpc of after.rpcs.filter((r) => !before.rpcs.some((b) => b.name === r.name))) {
+      const location = `${after.name}/${rpc.name}`;
+      this.push("additive", "rpc-added", location, `RPC ${location} was added`, { file: after.file, line: rpc.line });
+    }
+  }
+
+  private diffMessage(before: ProtoMessage, after: ProtoMessage): void {
+    const at = (field: ProtoField, message = after) => ({ file: message.file, line: field.line });
+
+    for (const field of before.fields) {
+      const location = `${before.name}.${field.name}`;
+      const sameNumber = after.fields.find((f) => f.number === field.number);
+      const sameName = after.fields.find((f) => f.name === field.name);
+
+      if (!sameNumber) {
+        if (sameName) {
+          this.push(
+            "breaking",
+            "field-number-changed",
+            location,
+            `${location} moved from field number ${field.number} to ${sameName.number}; existing data is read into the wrong field`,
+            at(sameName)
+          );
+        } else if (isReserved(after.reserved, field.number)) {
+          this.push("potentially-breaking", "field-removed", location, `${location} (${field.number}) was removed and its number reserved`, at(field, before));
+        } else {
+          this.push(
+            "potentially-breaking",
+            "field-removed-not-reserved",
+            location,
+            `${location} (${field.number}) was removed without reserving its number; add "reserved ${field.number};" so it is not reused`,
+            at(field, before)
+          );
+        }
+        continue;
+      }
+
+      const next = sameNumber;
+      if (next.name !== field.name && next.type !== field.type) {
+        this.push(
+          "breaking",
+          "field-number-reused",
+          location,
+          `Field number ${field.number} of ${before.name} was reused: ${field.type} ${field.name} became ${next.type} ${next.name}`,
+          at(next)
+        );
+        continue;
+      }
+      if (next.name !== field.name) {
+        this.push(
+          "potentially-breaking",
+          "field-renamed",
+          location,
+          `${location} (${field.number}) was renamed to ${next.name}; binary encoding is unchanged but JSON and generated accessors change`,
+          at(next)
+        );
+      }
+      if (next.type !== field.type) {
+        const compatible = wireCompatible(field.type, next.type);
+        this.push(
+          compatible ? "potentially-breaking" : "breaking",
+          compatible ? "field-type-changed-compatible" : "field-type-changed",
+          location,
+          `${location} (${field.number}) changed type from ${field.type} to ${next.type}${compatible ? "; the wire format is compatible but values may be truncated" : ""}`,
+          at(next)
+        );
+      }
+      if (!sameLabel(field.label, next.label)) {
+        this.push("breaking", "field-label-changed", location, `${location} (${field.number}) changed from ${field.label} to ${next.label}`, at(next));
+      }
+      if (field.oneof !== next.oneof) {
+        this.push(
+          "potentially-breaking",
+          "field-oneof-changed",
+          location,
+          `${location} moved ${next.oneof ? `into oneof ${next.oneof}` : `out of oneof ${field.oneof}`}`,
+          at(next)
+        );
+      }
+    }
+
+    for (const field of after.fields) {
+      if (before.fields.some((f) => f.number === field.number || f.name === field.name)) {
+        continue;
+      }
+      const location = `${after.name}.${field.name}`;
+      if (isReserved(before.reserved, field.number) || before.reserved.names.includes(field.name)) {
+        this.push(
+          "breaking",
+          "field-number-reused",
+          location,
+          `${location} uses field number ${field.number} or name reserved in ${before.name}`,
+          at(field)
+        );
+      } else if (field.label === "required") {
+        this.push("breaking", "required-field-added", location, `Required field ${location} (${field.number}) was added`, at(field));
+      } else {
+        this.push("additive", "field-added", location, `Field ${location} (${field.number}) was added`, at(field));
+      }
+    }
+
+    for (const [start, end] of before.reserved.numbers) {
+      if (!after.reserved.numbers.some(([s, e]) => s <= start && e >= end)) {
+        this.push(
+          "potentially-breaking",
+          "reservation-removed",
+          before.name,
+          `Reserved field numbers ${start === end ? start : `${start} to ${end}`} of ${before.name} are no longer reserved`,
+          after
+        );
+      }
+    }
+  }
+
+  private diffEnum(before: ProtoEnum, after: ProtoEnum): void {
+    for (const value of before.values) {
+      const location = `${before.name}.${value.name}`;
+      const next = after.values.find((v) => v.name === value.name);
+      if (!next) {
+        const renamed = after.values.find((v) => v.number === value.number);
+        if (renamed) {
+          this.push("potentially-breaking", "enum-value-renamed", location, `${location} (${value.number}) was renamed to ${renamed.name}`, { file: after.file, line: renamed.line });
+        } else {
+          this.push("breaking", "enum-value-removed", location, `${location} (${value.number}) was removed`, { file: before.file, line: value.line });
+        }
+      } else if (next.number !== value.number) {
+        this.push("breaking", "enum-value-number-changed", location, `${location} changed number from ${value.number} to ${next.number}`, { file: after.file, line: next.line });
+      }
+    }
+    for (const value of after.values) {
+      if (!before.values.some((v) => v.name === value.name || v.number === value.number)) {
+        this.push("additive", "enum-value-added", `${after.name}.${value.name}`, `${value.name} (${value.number}) was added to ${after.name}`, { file: after.file, line: value.line });
+      }
+    }
+  }
+}
+
+export function diffProtoSchemas(before: ProtoSchema, after: ProtoSchema): ProtoChange[] {
+  return new ProtoDiffer(before, after).run();
+}
+
+function rpcPaths(schema: ProtoSchema): string[] {
+  return Object.values(schema.services).flatMap((service) => service.rpcs.map((rpc) => `/${service.name}/${rpc.name}`));
+}
+
+// Parse the .proto files changed between two refs into one schema per side
+// and diff them; unchanged files would contribute the same on both sides
+export async function diffProtoChanges(
+  provider: RepositoryProvider,
+  base: string,
+  head: string
+): Promise<ProtoDiffResult> {
+  const comparison = await provider.compareCommits(base, head);
+  const baseRef = comparison.mergeBaseSha || base;
+  const before = emptySchema();
+  const after = emptySchema();
+
+  const changed = comparison.files.filter(
+    (f) => isProtoFile(f.filename) || (f.previousFilename !== undefined && isProtoFile(f.previousFilename))
+  );
+  const contents = await mapConcurrent(changed, 8, async (file) => {
+    const basePath = file.previousFilename || file.filename;
+    const [baseContent, headContent] = await Promise.all([
+      file.status === "added" ? undefined : provider.getFileContent(basePath, baseRef),
+      file.status === "removed" ? undefined : provider.getFileContent(file.filename, head),
+    ]);
+    return { basePath, baseContent, headContent, file };
+  });
+
+  for (const { file, basePath, baseContent, headContent } of contents) {
+    if (baseContent !== undefined) parseProto(baseContent, basePath, before);
+    if (headContent !== undefined) parseProto(headContent, file.filename, after);
+  }
+
+  return {
+    baseRef,
+    files: changed.map((f) => ({ file: f.filename, status: f.status })),
+    rpcs: { before: rpcPaths(before), after: rpcPaths(after) },
+    changes: diffProtoSchemas(before, after),
+  };
+}
+
+const SAMPLE_VALUES: Record<string, unknown> = {
+  string: "value",
+  bytes: "",
+  bool: true,
+  double: 1.5,
+  float: 1.5,
+};
+
+// A request literal with a sample value for every field, following nested
+// messages a few levels deep
+function sampleMessage(schema: ProtoSchema, type: string, depth = 0): Record<string, unknown> {
+  const message = schema.messages[type];
+  const sample: Record<string, unknown> = {};
+  if (!message || depth > 3) {
+    return sample;
+  }
+  const seenOneofs = new Set<string>();
+  for (const field of message.fields) {
+    if (field.oneof) {
+      if (seenOneofs.has(field.oneof)) continue;
+      seenOneofs.add(field.oneof);
+    }
+    let value: unknown;
+    if (field.label === "map") {
+      value = {};
+    } else if (field.type in SAMPLE_VALUES) {
+      value = SAMPLE_VALUES[field.type];
+    } else if (SCALAR_TYPES.has(field.type)) {
+      value = 1;
+    } else if (schema.enums[field.type]) {
+      value = schema.enums[field.type].values.find((v) => v.number !== 0)?.name || schema.enums[field.type].values[0]?.name;
+    } else {
+      value = sampleMessage(schema, field.type, depth + 1);
+    }
+    sample[field.name] = field.label === "repeated" ? [value] : value;
+  }
+  return sample;
+}
+
+// Find an RPC in the .proto files of a repository. `rpc` may be "Method",
+// "Service/Method" or the full "/package.Service/Method" path; without it
+// the first RPC found is used.
+export async function resolveGrpcMethod(
+  provider: RepositoryProvider,
+  ref: string,
+  rpc?: string
+): Promise<GrpcMethodContext | undefined> {
+  const files = (await provider.listFiles(ref)).filter(isProtoFile).sort();
+  const schema = emptySchema();
+  const parsed = await mapConcurrent(files, 8, async (file) => {
+    try {
+      return { file, package: parseProto(await provider.getFileContent(file, ref), file, schema).package };
+    } catch {
+      return undefined;
+    }
+  });
+  const packages = new Map(parsed.filter((p) => p !== undefined).map((p) => [p.file, p.package]));
+
+  const candidates = Object.values(schema.services).flatMap((service) =>
+    service.rpcs.map((method) => ({ service, method, path: `/${service.name}/${method.name}` }))
+  );
+  const wanted = rpc?.replace(/^\//, "");
+  const match = wanted
+    ? candidates.find(({ path }) => path === `/${wanted}` || path.endsWith(`.${wanted}`) || path.endsWith(`/${wanted}`))
+    : candidates[0];
+
+  if (!match) {
+    if (wanted && candidates.length > 0) {
+      throw new Error(`RPC "${rpc}" not found. Available RPCs: ${candidates.map((c) => c.path).join(", ")}`);
+    }
+    return undefined;
+  }
+
+  const packageName = packages.get(match.service.file) || "";
+  return {
+    protoFile: match.service.file,
+    package: packageName,
+    service: match.service.name.slice(packageName ? packageName.length + 1 : 0),
+    clientPath: match.service.name,
+    method: match.method.name,
+    requestType: match.method.requestType,
+    responseType: match.method.responseType,
+    clientStreaming: match.method.clientStreaming,
+    serverStreaming: match.method.serverStreaming,
+    sampleRequest: JSON.stringify(sampleMessage(schema, match.method.requestType)),
+  };
+}
@@ -0,0 +1,443 @@
+import type { Octokit } from "@octokit/rest";
+import { mapConcurrent } from "../concurrency.js";
+import { fromGitHubError, isHttpError, reportWarning, ToolError, type ErrorCode } from "../errors.js";
+import type {
+  ChangedFile,
+  CommitSummary,
+  Comparison,
+  PullRequestDetails,
+  PullRequestSummary,
+  ReleaseSummary,
+  TagSummary,
+} from "../types.js";
+import type {
+  CompareOptions,
+  ListCommitsOptions,
+  ListResult,
+  PullRequestState,
+  RepositoryProvider,
+} from "./index.js";
+
+// The compare API lists at most 300 files; a single commit and a pull
+// request at most 3000
+const COMPARE_FILE_LIMIT = 300;
+const COMMIT_FILE_LIMIT = 3000;
+
+// What a 404 means for a given request
+interface NotFound {
+  code: ErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export class GitHubProvider implements RepositoryProvider {
+  readonly kind = "github";
+
+  constructor(
+    private readonly octokit: Octokit,
+    private readonly owner: string,
+    private readonly repo: string
+  ) {}
+
+  private get fullName(): string {
+    return `${this.owner}/${this.repo}`;
+  }
+
+  // The error to throw for a failed request. GitHub answers 404 both for the
+  // thing asked about and for a repository the token cannot see, so a 404
+  // only means `notFound` once the repository itself is known to be visible.
+  private async failure(error: unknown, notFound: NotFound): Promise<unknown> {
+    if (!isHttpError(error) || error.status !== 404) {
+      return fromGitHubError(error);
+    }
+    const visible = await this.octokit.repos.get({ owner: this.owner, repo: this.repo }).then(
+      () => true,
+      (other) => !(isHttpError(other) && other.status === 404)
+    );
+    return fromGitHubError(error, visible ? notFound : undefined);
+  }
+
+  // Pin branch and tag names to a commit SHA so that the file and tree
+  // requests made with it are immutable and can be served from the cache
+  private async resolveRef(ref: string): Promise<string> {
+    if (/^[0-9a-f]{40}$/.test(ref)) {
+      return ref;
+    }
+    try {
+      const response = await this.octokit.request("GET /repos/{owner}/{repo}/commits/{ref}", {
+        owner: this.owner,
+        repo: this.repo,
+        ref,
+        headers: { accept: "application/vnd.github.sha" },
+      });
+      return String(response.data).trim();
+    } catch (error) {
+      const notFound: NotFound = {
+        code: "REF_NOT_FOUND",
+        message: `No branch, tag or commit "${ref}" in ${this.fullName}`,
+        details: { ref },
+      };
+      // 422 is GitHub's answer for a SHA-like ref that matches no commit
+      if (isHttpError(error) && error.status === 422) {
+        throw new ToolError(notFound.code, notFound.message, notFound.details);
+      }
+      throw await this.failure(error, notFound);
+    }
+  }
+
+  async getFileContent(path: string, ref: string): Promise<string> {
+    const sha = await this.resolveRef(ref);
+    let data;
+    try {
+      ({ data } = await this.octokit.repos.getContent({ owner: this.owner, repo: this.repo, path, ref: sha }));
+    } catch (error) {
+      throw await this.failure(error, {
+        code: "FILE_NOT_FOUND",
+        message: `${path} does not exist at ${ref} in ${this.fullName}`,
+        details: { path, ref },
+      });
+    }
+
+    if (Array.isArray(data)) {
+      throw new ToolError("NOT_A_FILE", `${path} is a directory at ${ref} in ${this.fullName}`, { path, ref });
+    }
+    if (!("content" in data)) {
+      throw new ToolError("NOT_A_FILE", `${path} is a ${data.type}, not a file, at ${ref} in ${this.fullName}`, {
+        path,
+        ref,
+      });
+    }
+    return Buffer.from(data.content, "base64").toString("utf-8");
+  }
+
+  async listFiles(ref: string): Promise<string[]> {
+    const response = await this.octokit.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: await this.resolveRef(ref),
+      recursive: "true",
+    });
+    return response.data.tree
+      .filter((entry) => entry.type === "blob" && entry.path)
+      .map((entry) => entry.path!);
+  }
+
+  async compareCommits(
+    base: string,
+    head: string,
+    options: CompareOptions = {}
+  ): Promise<Comparison> {
+    const limit = options.limit ?? Infinity;
+    const request = { owner: this.owner, repo: this.repo, basehead: `${base}...${head}`, per_page: 100 };
+    let data;
+    try {
+      ({ data } = await this.octokit.repos.compareCommitsWithBasehead({ ...request, page: 1 }));
+    } catch (error) {
+      // GitHub gives up on comparisons whose diff takes too long to compute
+      if (
+        isHttpError(error) &&
+        (error.status === 422 || error.status >= 500) &&
+        /too (large|big|long)|timeout|timed out/i.test(error.message)
+      ) {
+        throw new ToolError(
+          "COMPARISON_TOO_LARGE",
+          `GitHub cannot compare ${base}...${head} in ${this.fullName}: ${error.message}. Compare a shorter range or use a local clone (localRepoPath)`,
+          { base, head }
+        );
+      }
+      throw await this.failure(error, {
+        code: "REF_NOT_FOUND",
+        message: `Cannot compare ${base}...${head} in ${this.fullName}: a ref does not exist or they share no history`,
+        details: { base, head },
+      });
+    }
+
+    // The compare API returns every changed file on the first page but pages
+    // through the commits
+    const commits = [...data.commits];
+    for (let page = 2; commits.length < Math.min(data.total_commits, limit); page++) {
+      const next = await this.octokit.repos.compareCommitsWithBasehead({ ...request, page });
+      if (next.data.commits.length === 0) {
+        break;
+      }
+      commits.push(...next.data.commits);
+    }
+    commits.splice(limit);
+
+    let files: ChangedFile[] = (data.files || []).map((f) => ({
+      filename: f.filename,
+      status: f.status,
+      additions: f.additions,
+      deletions: f.deletions,
+      patch: f.patch,
+      previousFilename: f.previous_filename,
+    }));
+    let truncated = commits.length < data.total_commits;
+
+    // Paging the compare API only pages its commits, so past 300 files the list
+    // is stitched together from the commits read. That skips merge commits and
+    // joins the patches of each commit, so it is not the diff of base...head
+    const rebuilt = files.length >= COMPARE_FILE_LIMIT;
+    if (rebuilt) {
+      files = await this.filesFromCommits(commits.filter((c) => c.parents.length < 2).map((c) => c.sha));
+      truncated = true;
+    }
+    if (truncated) {
+      reportWarning(
+        "COMPARISON_TRUNCATED",
+        `The comparison ${base}...${head} is incomplete: ${commits.length} of ${data.total_commits} commits and ${files.length} files were read` +
+          (rebuilt
+            ? `. GitHub lists only the first ${COMPARE_FILE_LIMIT} changed files, so the files were rebuilt from the individual non-merge commits: their patches are per commit, not the diff between ${base} and ${head}`
+            : ""),
+        {
+          base,
+          head,
+          commitsRead: commits.length,
+          totalCommits: data.total_commits,
+          filesRead: files.length,
+          filesRebuiltFromCommits: rebuilt,
+        }
+      );
+    }
+
+    return {
+      status: data.status,
+      aheadBy: data.ahead_by,
+      behindBy: data.behind_by,
+      totalCommits: data.total_commits,
+      mergeBaseSha: data.merge_base_commit?.sha,
+      files,
+      commits: commits.map((c) => ({
+        sha: c.sha,
+        message: c.commit.message,
+        author: c.commit.author?.name,
+        date: c.commit.author?.date,
+        url: c.html_url,
+      })),
+      truncated,
+    };
+  }
+
+  // Rebuild the changed file list of a comparison from its individual
+  // (non-merge) commits, for when the compare API stops at 300 files
+  private async filesFromCommits(shas: string[]): Promise<ChangedFile[]> {
+    const perCommit = await mapConcurrent(shas, 4, async (ref) => {
+      const files = [];
+      for (let page = 1; ; page++) {
+        const { data } = await this.octokit.repos.getCommit({
+          owner: this.owner,
+          repo: this.repo,
+          ref,
+          per_page: 100,
+          page,
+        });
+        files.push(...(data.files || []));
+        if ((data.files || []).length < 100) {
+          break;
+        }
+        if (files.length >= COMMIT_FILE_LIMIT) {
+          break;
+        }
+      }
+      return files;
+    });
+
+    const byName = new Map<string, ChangedFile>();
+    for (const f of perCommit.flat()) {
+      const previous = byName.get(f.previous_filename || f.filename);
+      if (previous && f.previous_filename) {
+        byName.delete(f.previous_filename);
+      }
+      if (!previous) {
+        byName.set(f.filename, {
+          filename: f.filename,
+          status: f.status,
+          additions: f.additions,
+          deletions: f.deletions,
+          patch: f.patch,
+          previousFilename: f.previous_filename,
+        });
+        continue;
+      }
+      if (previous.status === "added" && f.status === "removed") {
+        byName.delete(f.filename);
+        continue;
+      }
+      byName.set(f.filename, {
+        filename: f.filename,
+        status: previous.status === "added" ? "added" : f.status,
+        additions: previous.additions + f.additions,
+        deletions: previous.deletions + f.deletions,
+        patch: [previous.patch, f.patch].filter(Boolean).join("\n") || undefined,
+        previousFilename: previous.previousFilename || f.previous_filename,
+      });
+    }
+
+    return [...byName.values()];
+  }
+
+  async listCommits(options: ListCommitsOptions): Promise<ListResult<CommitSummary>> {
+    return this.collect(
+      this.octokit.paginate.iterator(this.octokit.repos.listCommits, {
+        owner: this.owner,
+        repo: this.repo,
+        sha: options.ref,
+        since: options.since,
+        until: options.until,
+        per_page: Math.min(options.limit, 100),
+      }),
+      options.limit,
+      (c) => ({
+        sha: c.sha,
+        message: c.commit.message,
+        author: c.commit.author?.name,
+        date: c.commit.author?.date,
+        url: c.html_url,
+      })
+    );
+  }
+
+  async listTags(limit = Infinity): Promise<ListResult<TagSummary>> {
+    return this.collect(
+      this.octokit.paginate.iterator(this.octokit.repos.listTags, {
+        owner: this.owner,
+        repo: this.repo,
+        per_page: Math.min(limit, 100),
+      }),
+      limit,
+      (t) => ({ name: t.name, sha: t.commit.sha })
+    );
+  }
+
+  async listReleases(limit = Infinity): Promise<ListResult<ReleaseSummary>> {
+    return this.collect(
+      this.octokit.paginate.iterator(this.octokit.repos.listReleases, {
+        owner: this.owner,
+        repo: this.repo,
+        per_page: Math.min(limit, 100),
+      }),
+      limit,
+      (r) => ({
+        tagName: r.tag_name,
+        name: r.name || undefined,
+        draft: r.draft,
+        prerelease: r.prerelease,
+        publishedAt: r.published_at || undefined,
+        url: r.html_url,
+      })
+    );
+  }
+
+  async listPullRequests(
+    state: PullRequestState,
+    limit = Infinity
+  ): Promise<ListResult<PullRequestSummary>> {
+    return this.collect(
+      this.octokit.paginate.iterator(this.octokit.pulls.list, {
+        owner: this.owner,
+        repo: this.repo,
+        state,
+        per_page: Math.min(limit, 100),
+      }),
+      limit,
+      (pr) => ({
+        number: pr.number,
+        title: pr.title,
+        state: pr.state,
+        author: pr.user?.login,
+        createdAt: pr.created_at,
+        headBranch: pr.head.ref,
+        baseBranch: pr.base.ref,
+        url: pr.html_url,
+      })
+    );
+  }
+
+  private pullRequestNotFound(number: number): NotFound {
+    return {
+      code: "PULL_REQUEST_NOT_FOUND",
+      message: `Pull request #${number} does not exist in ${this.fullName}`,
+      details: { number },
+    };
+  }
+
+  async getPullRequest(number: number): Promise<PullRequestDetails> {
+    const request = { owner: this.owner, repo: this.repo, pull_number: number };
+    let pr, reviews;
+    try {
+      [{ data: pr }, reviews] = await Promise.all([
+        this.octokit.pulls.get(request),
+        this.octokit.paginate(this.octokit.pulls.listReviews, { ...request, per_page: 100 }),
+      ]);
+    } catch (error) {
+      throw await this.failure(error, this.pullRequestNotFound(number));
+    }
+
+    return {
+      number: pr.number,
+      title: pr.title,
+      state: pr.state,
+      author: pr.user?.login,
+      createdAt: pr.created_at,
+      headBranch: pr.head.ref,
+      baseBranch: pr.base.ref,
+      url: pr.html_url,
+      body: pr.body || "",
+      draft: !!pr.draft,
+      merged: pr.merged,
+      labels: pr.labels.map((label) => label.name),
+      baseSha: pr.base.sha,
+      headSha: pr.head.sha,
+      requestedReviewers: [
+        ...(pr.requested_reviewers || []).map((user) => user.login),
+        ...(pr.requested_teams || []).map((team) => `team:${team.slug}`),
+      ],
+      reviews: reviews.map((review) => ({
+        reviewer: review.user?.login || "unknown",
+        state: review.state,
+        submittedAt: review.submitted_at,
+      })),
+    };
+  }
+
+  async listPullRequestFiles(number: number): Promise<ListResult<ChangedFile>> {
+    return this.collect(
+      this.octokit.paginate.iterator(this.octokit.pulls.listFiles, {
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: number,
+        per_page: 100,
+      }),
+      COMMIT_FILE_LIMIT,
+      (f) => ({
+        filename: f.filename,
+        status: f.status,
+        additions: f.additions,
+        deletions: f.deletions,
+        patch: f.patch,
+        previousFilename: f.previous_filename,
+      })
+    );
+  }
+
+  // Read pages until `limit` items are collected, noting whether more remain
+  private async collect<T, R>(
+    pages: AsyncIterable<{ data: T[]; headers: { link?: string } }>,
+    limit: number,
+    map: (item: T) => R
+  ): Promise<ListResult<R>> {
+    const items: R[] = [];
+    for await (const page of pages) {
+      for (const item of page.data) {
+        if (items.length === limit) {
+          return { items, truncated: true };
+        }
+        items.push(map(item));
+      }
+      if (items.length === limit) {
+        return { items, truncated: /rel="next"/.test(page.headers.link || "") };
+      }
+    }
+    return { items, truncated: false };
+  }
+}
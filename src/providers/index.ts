@@ -0,0 +1,47 @@
+import type {
+  ChangedFile,
+  CommitSummary,
+  Comparison,
+  PullRequestDetails,
+  PullRequestSummary,
+  ReleaseSummary,
+  TagSummary,
+} from "../types.js";
+
+export { GitHubProvider } from "./github.js";
+export { LocalGitProvider } from "./local.js";
+
+export interface ListCommitsOptions {
+  ref?: string; // branch, tag or SHA to list from (default: the default branch)
+  since?: string;
+  until?: string;
+  limit: number;
+}
+
+export interface CompareOptions {
+  limit?: number; // maximum number of commits to read
+}
+
+// A list read across as many pages as needed, up to a limit
+export interface ListResult<T> {
+  items: T[];
+  truncated: boolean;
+}
+
+export type PullRequestState = "open" | "closed" | "all";
+
+// Source of repository data for a single service. Every tool reads
+// through this interface so the GitHub API and a local clone return
+// the same shapes.
+export interface RepositoryProvider {
+  readonly kind: "github" | "local";
+  getFileContent(path: string, ref: string): Promise<string>;
+  listFiles(ref: string): Promise<string[]>;
+  compareCommits(base: string, head: string, options?: CompareOptions): Promise<Comparison>;
+  listCommits(options: ListCommitsOptions): Promise<ListResult<CommitSummary>>;
+  listTags(limit?: number): Promise<ListResult<TagSummary>>;
+  listReleases(limit?: number): Promise<ListResult<ReleaseSummary>>;
+  listPullRequests(state: PullRequestState, limit?: number): Promise<ListResult<PullRequestSummary>>;
+  getPullRequest(number: number): Promise<PullRequestDetails>;
+  listPullRequestFiles(number: number): Promise<ListResult<ChangedFile>>;
+}
@@ -0,0 +1,328 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { reportWarning, ToolError } from "../errors.js";
+import type {
+  ChangedFile,
+  CommitSummary,
+  Comparison,
+  PullRequestDetails,
+  PullRequestSummary,
+  ReleaseSummary,
+  TagSummary,
+} from "../types.js";
+import type {
+  CompareOptions,
+  ListCommitsOptions,
+  ListResult,
+  PullRequestState,
+  RepositoryProvider,
+} from "./index.js";
+
+const execFileAsync = promisify(execFile);
+
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
+const LOG_FORMAT = ["%H", "%an", "%aI", "%B"].join("%x1f") + "%x1e";
+
+const NAME_STATUS: Record<string, string> = {
+  A: "added",
+  M: "modified",
+  D: "removed",
+  R: "renamed",
+  C: "copied",
+  T: "changed",
+};
+
+// Reads repository data from a local bare or working clone by running git
+// directly, producing the same shapes as the GitHub provider.
+export class LocalGitProvider implements RepositoryProvider {
+  readonly kind = "local";
+
+  constructor(private readonly repoPath: string) {}
+
+  private async git(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync("git", ["-C", this.repoPath, ...args], {
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return stdout;
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args[0]} failed in ${this.repoPath}: ${stderr || error}`);
+    }
+  }
+
+  // Working clones usually only carry remote-tracking branches, so fall back
+  // to origin/<ref> when the ref is not known locally.
+  private async resolveRef(ref: string): Promise<string> {
+    for (const candidate of [ref, `origin/${ref}`]) {
+      try {
+        const sha = await this.git(["rev-parse", "--verify", "--quiet", `${candidate}^{commit}`]);
+        if (sha.trim()) {
+          return sha.trim();
+        }
+      } catch {
+        // try the next candidate
+      }
+    }
+    throw new ToolError("REF_NOT_FOUND", `Unknown ref "${ref}" in ${this.repoPath}`, { ref });
+  }
+
+  async getFileContent(path: string, ref: string): Promise<string> {
+    const sha = await this.resolveRef(ref);
+    try {
+      return await this.git(["cat-file", "blob", `${sha}:${path}`]);
+    } catch {
+      // Find out whether the path is missing or not a file
+      const type = await this.git(["cat-file", "-t", `${sha}:${path}`]).then((t) => t.trim(), () => undefined);
+      if (type) {
+        const kind = type === "tree" ? "directory" : type;
+        throw new ToolError("NOT_A_FILE", `${path} is a ${kind} at ${ref} in ${this.repoPath}`, { path, ref });
+      }
+      throw new ToolError("FILE_NOT_FOUND", `${path} does not exist at ${ref} in ${this.repoPath}`, { path, ref });
+    }
+  }
+
+  async listFiles(ref: string): Promise<string[]> {
+    const sha = await this.resolveRef(ref);
+    const output = await this.git(["ls-tree", "-r", "-z", "--name-only", sha]);
+    return output.split("\0").filter((path) => path.length > 0);
+  }
+
+  async compareCommits(
+    base: string,
+    head: string,
+    options: CompareOptions = {}
+  ): Promise<Comparison> {
+    const baseSha = await this.resolveRef(base);
+    const headSha = await this.resolveRef(head);
+    const mergeBaseSha = (await this.git(["merge-base", baseSha, headSha])).trim();
+
+    const [aheadBy, behindBy] = await Promise.all([
+      this.git(["rev-list", "--count", `${baseSha}..${headSha}`]).then(Number),
+      this.git(["rev-list", "--count", `${headSha}..${baseSha}`]).then(Number),
+    ]);
+
+    let status = "diverged";
+    if (aheadBy === 0 && behindBy === 0) {
+      status = "identical";
+    } else if (behindBy === 0) {
+      status = "ahead";
+    } else if (aheadBy === 0) {
+      status = "behind";
+    }
+
+    // Like the GitHub compare API, files are diffed against the merge base
+    const range = [`${baseSha}..${headSha}`, "--reverse"];
+    if (options.limit !== undefined && options.limit < aheadBy) {
+      // --max-count is applied before --reverse, so skip from the newest end
+      range.push(`--skip=${aheadBy - options.limit}`);
+    }
+    const [files, commits] = await Promise.all([
+      this.diffFiles(mergeBaseSha, headSha),
+      this.log(range),
+    ]);
+
+    if (commits.length < aheadBy) {
+      reportWarning(
+        "COMPARISON_TRUNCATED",
+        `The comparison ${base}...${head} is incomplete: ${commits.length} of ${aheadBy} commits were read`,
+        { base, head, commitsRead: commits.length, totalCommits: aheadBy, filesRead: files.length }
+      );
+    }
+
+    return {
+      status,
+      aheadBy,
+      behindBy,
+      totalCommits: aheadBy,
+      mergeBaseSha,
+      files,
+      commits,
+      truncated: commits.length < aheadBy,
+    };
+  }
+
+  async listCommits(options: ListCommitsOptions): Promise<ListResult<CommitSummary>> {
+    // One extra commit tells whether there were more than the limit
+    const args = [`--max-count=${options.limit + 1}`];
+    if (options.since) {
+      args.push(`--since=${options.since}`);
+    }
+    if (options.until) {
+      args.push(`--until=${options.until}`);
+    }
+    args.push(options.ref ? await this.resolveRef(options.ref) : "HEAD");
+    const commits = await this.log(args);
+    return { items: commits.slice(0, options.limit), truncated: commits.length > options.limit };
+  }
+
+  async listTags(limit = Infinity): Promise<ListResult<TagSummary>> {
+    // Annotated tags are peeled to the commit they point at
+    const output = await this.git([
+      "for-each-ref",
+      "--format=%(refname:short)%1f%(objectname)%1f%(*objectname)",
+      "refs/tags",
+    ]);
+    const tags = output
+      .split("\n")
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        const [name, object, peeled] = line.split(FIELD_SEPARATOR);
+        return { name, sha: peeled || object };
+      });
+    return { items: tags.slice(0, limit), truncated: tags.length > limit };
+  }
+
+  // Releases only exist on GitHub; a clone has its tags
+  async listReleases(_limit?: number): Promise<ListResult<ReleaseSummary>> {
+    return { items: [], truncated: false };
+  }
+
+  async listPullRequests(
+    _state: PullRequestState,
+    _limit?: number
+  ): Promise<ListResult<PullRequestSummary>> {
+    throw this.pullRequestsUnavailable();
+  }
+
+  async getPullRequest(_number: number): Promise<PullRequestDetails> {
+    throw this.pullRequestsUnavailable();
+  }
+
+  async listPullRequestFiles(_number: number): Promise<ListResult<ChangedFile>> {
+    throw this.pullRequestsUnavailable();
+  }
+
+  private pullRequestsUnavailable(): Error {
+    return new ToolError(
+      "UNSUPPORTED",
+      `Pull requests are not available for the local clone at ${this.repoPath}`
+    );
+  }
+
+  private async log(args: string[]): Promise<CommitSummary[]> {
+    const output = await this.git(["log", `--format=${LOG_FORMAT}`, ...args]);
+    return output
+      .split(RECORD_SEPARATOR)
+      .map((record) => record.replace(/^\n/, ""))
+      .filter((record) => record.length > 0)
+      .map((record) => {
+        const [sha, author, date, message] = record.split(FIELD_SEPARATOR);
+        return { sha, author, date, message: message.trim() };
+      });
+  }
+
+  private async diffFiles(base: string, head: string): Promise<ChangedFile[]> {
+    const [nameStatus, patch] = await Promise.all([
+      this.git(["diff", "-M", "--name-status", "-z", base, head]),
+      this.git(["diff", "-M", "--no-color", "--no-ext-diff", base, head]),
+    ]);
+
+    const patches = splitPatch(patch);
+    const files: ChangedFile[] = [];
+    const tokens = nameStatus.split("\0").filter((t) => t.length > 0);
+
+    for (let i = 0; i < tokens.length; ) {
+      const code = tokens[i++];
+      const letter = code.charAt(0);
+      const previousFilename = letter === "R" || letter === "C" ? tokens[i++] : undefined;
+      const filename = tokens[i++];
+      const filePatch = patches.get(filename);
+
+      files.push({
+        filename,
+        status: NAME_STATUS[letter] || "modified",
+        additions: filePatch?.additions || 0,
+        deletions: filePatch?.deletions || 0,
+        patch: filePatch?.patch,
+        previousFilename,
+      });
+    }
+
+    return files;
+  }
+}
+
+const ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13 };
+
+// A path as git prints it in diff headers: followed by a tab when it
+// contains a space, and C-quoted, with octal escapes for the UTF-8 bytes,
+// when it contains quotes, control characters or non-ASCII characters
+function unquotePath(text: string): string {
+  const path = text.replace(/\t$/, "");
+  if (!path.startsWith('"') || !path.endsWith('"')) {
+    return path;
+  }
+  const bytes: number[] = [];
+  const chars = [...path.slice(1, -1)];
+  for (let i = 0; i < chars.length; i++) {
+    if (chars[i] !== "\\") {
+      bytes.push(...Buffer.from(chars[i], "utf-8"));
+    } else if (/[0-7]/.test(chars[i + 1] || "")) {
+      bytes.push(parseInt(chars.slice(i + 1, i + 4).join(""), 8));
+      i += 3;
+    } else {
+      const escaped = chars[++i] || "";
+      bytes.push(ESCAPES[escaped] ?? escaped.charCodeAt(0));
+    }
+  }
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+function stripPrefix(path: string, prefix: string): string | undefined {
+  return path.startsWith(prefix) ? path.slice(prefix.length) : undefined;
+}
+
+// Split a full `git diff` into per-file hunks keyed by the new path, keeping
+// only the part from the first "@@" on to match GitHub's `patch` field.
+function splitPatch(
+  output: string
+): Map<string, { patch?: string; additions: number; deletions: number }> {
+  const result = new Map<string, { patch?: string; additions: number; deletions: number }>();
+  const chunks = output.split(/^diff --git /m).slice(1);
+
+  for (const chunk of chunks) {
+    const lines = chunk.split("\n");
+    const hunkStart = lines.findIndex((l) => l.startsWith("@@"));
+    const header = hunkStart === -1 ? lines : lines.slice(0, hunkStart);
+
+    let filename: string | undefined;
+    for (const line of header) {
+      if (line.startsWith("+++ ")) {
+        filename = stripPrefix(unquotePath(line.slice(4)), "b/") ?? filename;
+      } else if (line.startsWith("--- ") && !filename) {
+        filename = stripPrefix(unquotePath(line.slice(4)), "a/");
+      } else if (line.startsWith("rename to ")) {
+        filename = unquotePath(line.slice(10));
+      }
+    }
+    if (!filename) {
+      // Binary or mode-only change: "a/<path> b/<path>"
+      const match = lines[0].match(/ ("b\/.*"|b\/.+)$/);
+      filename = match ? stripPrefix(unquotePath(match[1]), "b/") : undefined;
+    }
+    if (!filename) {
+      continue;
+    }
+
+    if (hunkStart === -1) {
+      result.set(filename, { additions: 0, deletions: 0 });
+      continue;
+    }
+
+    const hunks = lines.slice(hunkStart);
+    while (hunks.length > 0 && hunks[hunks.length - 1] === "") {
+      hunks.pop();
+    }
+    let additions = 0;
+    let deletions = 0;
+    for (const line of hunks) {
+      if (line.startsWith("+")) additions++;
+      else if (line.startsWith("-")) deletions++;
+    }
+    result.set(filename, { patch: hunks.join("\n"), additions, deletions });
+  }
+
+  return result;
+}
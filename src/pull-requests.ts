@@ -0,0 +1,173 @@
+import { classifyApiChanges, type ClassificationReport } from "./classify.js";
+import { mapConcurrent } from "./concurrency.js";
+import type { ServiceConfig } from "./config.js";
+import { diffApiEndpoints, type EndpointDiff } from "./endpoint-diff.js";
+import { detectApiChanges } from "./endpoints.js";
+import { isApiFile } from "./patterns.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import type { PullRequestDetails, PullRequestSummary } from "./types.js";
+
+// An issue referenced from a pull request title or description
+export interface LinkedIssue {
+  reference: string; // "#12", "owner/repo#12" or a Jira key such as "BLIK-123"
+  tracker: "github" | "jira";
+  closes: boolean; // referenced with a closing keyword ("fixes #12")
+}
+
+export type ReviewDecision = "approved" | "changes_requested" | "review_required";
+
+export interface ReviewStatus {
+  decision: ReviewDecision;
+  approvedBy: string[];
+  changesRequestedBy: string[];
+  pendingReviewers: string[];
+}
+
+export interface PullRequestAnalysis {
+  service: string;
+  pullRequest: Omit<PullRequestDetails, "body" | "reviews" | "requestedReviewers">;
+  linkedIssues: LinkedIssue[];
+  reviews: ReviewStatus;
+  comparison: {
+    base: string;
+    head: string;
+    mergeBaseSha?: string;
+    commits: number;
+    filesChanged: number;
+    truncated: boolean;
+  };
+  apiChanges: ReturnType<typeof detectApiChanges>;
+  endpointChanges: EndpointDiff;
+  classification: ClassificationReport;
+}
+
+// Standards and encodings that look like Jira keys
+const NOT_ISSUE_KEY = /^(UTF|SHA|ISO|RFC|HTTP|TLS|CVE|AES|RSA|ES)-/;
+
+const CLOSING_KEYWORD = /^(close[sd]?|fix(e[sd])?|resolve[sd]?)$/i;
+
+// "fixes #12", "owner/repo#12", a GitHub issue URL, or a Jira key
+const ISSUE_REFERENCE =
+  /(?:\b(\w+):?\s+)?(?:https:\/\/github\.com\/([\w.-]+\/[\w.-]+)\/issues\/(\d+)|((?:[\w.-]+\/[\w.-]+)?#\d+)\b|\b([A-Z][A-Z0-9]+-\d+)\b)/g;
+
+export function parseLinkedIssues(text: string): LinkedIssue[] {
+  const issues = new Map<string, LinkedIssue>();
+
+  for (const match of text.matchAll(ISSUE_REFERENCE)) {
+    const [, keyword, urlRepo, urlNumber, hashReference, jiraKey] = match;
+    if (jiraKey && NOT_ISSUE_KEY.test(jiraKey)) {
+      continue;
+    }
+    const reference = urlRepo ? `${urlRepo}#${urlNumber}` : hashReference || jiraKey;
+    const closes = !!keyword && CLOSING_KEYWORD.test(keyword);
+    const existing = issues.get(reference);
+    if (existing) {
+      existing.closes ||= closes;
+      continue;
+    }
+    issues.set(reference, { reference, tracker: jiraKey ? "jira" : "github", closes });
+  }
+  return [...issues.values()];
+}
+
+// A reviewer's latest approval or change request counts; comments do not
+// change their verdict and a dismissed review clears it
+export function summarizeReviews(pr: PullRequestDetails): ReviewStatus {
+  const latest = new Map<string, string>();
+  const ordered = [...pr.reviews].sort((a, b) => (a.submittedAt || "").localeCompare(b.submittedAt || ""));
+  for (const review of ordered) {
+    if (review.state === "APPROVED" || review.state === "CHANGES_REQUESTED") {
+      latest.set(review.reviewer, review.state);
+    } else if (review.state === "DISMISSED") {
+      latest.delete(review.reviewer);
+    }
+  }
+
+  const reviewersWith = (state: string) =>
+    [...latest.entries()].filter(([, s]) => s === state).map(([reviewer]) => reviewer);
+  const approvedBy = reviewersWith("APPROVED");
+  const changesRequestedBy = reviewersWith("CHANGES_REQUESTED");
+
+  return {
+    decision:
+      changesRequestedBy.length > 0
+        ? "changes_requested"
+        : approvedBy.length > 0 && pr.requestedReviewers.length === 0
+          ? "approved"
+          : "review_required",
+    approvedBy,
+    changesRequestedBy,
+    pendingReviewers: pr.requestedReviewers,
+  };
+}
+
+// Analyse the API impact of a pull request against its own base branch,
+// using the files GitHub lists for the pull request
+export async function analyzePullRequest(
+  provider: RepositoryProvider,
+  service: ServiceConfig,
+  number: number,
+  acknowledgedChanges: string[] = []
+): Promise<PullRequestAnalysis> {
+  const pr = await provider.getPullRequest(number);
+
+  // An open pull request is compared with the current tip of its base
+  // branch, like GitHub's "Files changed" tab; a closed one with the base
+  // commit it was last compared against
+  const base = pr.state === "open" ? pr.baseBranch : pr.baseSha;
+  const [comparison, files] = await Promise.all([
+    provider.compareCommits(base, pr.headSha),
+    provider.listPullRequestFiles(number),
+  ]);
+  const prComparison = {
+    ...comparison,
+    files: files.items,
+    truncated: comparison.truncated || files.truncated,
+  };
+
+  const endpointDiff = await diffApiEndpoints(provider, service, base, pr.headSha, prComparison);
+  const { body, reviews, requestedReviewers, ...pullRequest } = pr;
+
+  return {
+    service: service.name,
+    pullRequest,
+    linkedIssues: parseLinkedIssues(`${pr.title}\n${body}`),
+    reviews: summarizeReviews(pr),
+    comparison: {
+      base,
+      head: pr.headSha,
+      mergeBaseSha: comparison.mergeBaseSha,
+      commits: comparison.totalCommits,
+      filesChanged: files.items.length,
+      truncated: prComparison.truncated,
+    },
+    apiChanges: detectApiChanges(files.items, service),
+    endpointChanges: endpointDiff.diff,
+    classification: classifyApiChanges(endpointDiff, acknowledgedChanges),
+  };
+}
+
+// Listing a pull request's files takes a request per pull request, so the
+// API file filter looks at no more than this many
+export const MAX_PULL_REQUESTS_CHECKED = 100;
+
+// Keep the pull requests whose changed files include API files, listing
+// those files on each
+export async function filterPullRequestsTouchingApi(
+  provider: RepositoryProvider,
+  service: ServiceConfig,
+  pullRequests: PullRequestSummary[]
+): Promise<Array<PullRequestSummary & { apiFiles: string[] }>> {
+  const annotated = await mapConcurrent(pullRequests, 4, async (pr) => {
+    const files = await provider.listPullRequestFiles(pr.number);
+    const apiFiles = files.items
+      .filter(
+        (f) =>
+          isApiFile(f.filename, service) ||
+          (f.previousFilename !== undefined && isApiFile(f.previousFilename, service))
+      )
+      .map((f) => f.filename);
+    return { ...pr, apiFiles };
+  });
+  return annotated.filter((pr) => pr.apiFiles.length > 0);
+}
@@ -0,0 +1,105 @@
+import type { Octokit } from "@octokit/rest";
+import { isHttpError, rateLimitOf, reportWarning } from "./errors.js";
+
+export interface RetryOptions {
+  retries: number; // attempts after the first one
+  baseDelayMs: number; // doubled after every failed attempt
+  maxWaitMs: number; // the longest pause accepted for a rate limit to lift
+}
+
+// The x-ratelimit-* headers of the latest response for one resource
+// (core, search, graphql, ...)
+export interface RateLimitSnapshot {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
+  observedAt: string;
+}
+
+const DEFAULT_RETRY: RetryOptions = { retries: 3, baseDelayMs: 1000, maxWaitMs: 60 * 1000 };
+
+const RETRYABLE_STATUS = new Set([500, 502, 503, 504]);
+
+// Warn once less than this share of the limit is left
+const LOW_RATE_LIMIT = 0.1;
+
+const observed = new WeakMap<Octokit, Map<string, RateLimitSnapshot>>();
+
+export function observedRateLimits(octokit: Octokit): RateLimitSnapshot[] {
+  return [...(observed.get(octokit)?.values() || [])];
+}
+
+function observe(octokit: Octokit, headers: Record<string, string | number | undefined> | undefined): void {
+  const limit = Number(headers?.["x-ratelimit-limit"]);
+  const remaining = Number(headers?.["x-ratelimit-remaining"]);
+  if (!Number.isFinite(limit) || !Number.isFinite(remaining) || limit === 0) {
+    return;
+  }
+  const snapshot: RateLimitSnapshot = {
+    resource: String(headers?.["x-ratelimit-resource"] || "core"),
+    limit,
+    remaining,
+    used: Number(headers?.["x-ratelimit-used"] ?? limit - remaining),
+    resetAt: new Date(Number(headers?.["x-ratelimit-reset"]) * 1000).toISOString(),
+    observedAt: new Date().toISOString(),
+  };
+  const snapshots = observed.get(octokit) || new Map<string, RateLimitSnapshot>();
+  snapshots.set(snapshot.resource, snapshot);
+  observed.set(octokit, snapshots);
+
+  if (remaining / limit < LOW_RATE_LIMIT) {
+    reportWarning(
+      "RATE_LIMIT_LOW",
+      `Less than ${LOW_RATE_LIMIT * 100}% of the GitHub ${snapshot.resource} rate limit is left`,
+      { resource: snapshot.resource, remaining, limit, resetAt: snapshot.resetAt }
+    );
+  }
+}
+
+// How long to wait before another attempt, or undefined to give up
+function retryDelay(error: unknown, attempt: number, options: RetryOptions): number | undefined {
+  if (attempt >= options.retries || !isHttpError(error)) {
+    return undefined;
+  }
+  const limit = rateLimitOf(error);
+  if (limit) {
+    // Secondary limits ask for a pause of seconds (a minute when GitHub does
+    // not say); a spent primary limit usually takes too long to wait out
+    const wait = (limit.retryAfterSeconds ?? 60) * 1000;
+    return wait <= options.maxWaitMs ? wait : undefined;
+  }
+  if (RETRYABLE_STATUS.has(error.status)) {
+    return options.baseDelayMs * 2 ** attempt * (1 + Math.random() / 4);
+  }
+  return undefined;
+}
+
+// Retry GET requests that failed on a secondary rate limit or a 5xx (Octokit
+// reports network errors as 500), and record the rate limit headers of
+// every response. Install before the response cache so that cache hits
+// skip it.
+export function installRetry(octokit: Octokit, options: Partial<RetryOptions> = {}): void {
+  const settings = { ...DEFAULT_RETRY, ...options };
+
+  octokit.hook.wrap("request", async (request, requestOptions) => {
+    const method = String(requestOptions.method || "GET").toUpperCase();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await request(requestOptions);
+        observe(octokit, response.headers);
+        return response;
+      } catch (error) {
+        if (isHttpError(error)) {
+          observe(octokit, error.response?.headers);
+        }
+        const delay = method === "GET" || method === "HEAD" ? retryDelay(error, attempt, settings) : undefined;
+        if (delay === undefined) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  });
+}
@@ -0,0 +1,200 @@
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Octokit } from "@octokit/rest";
+import { isHttpError } from "./errors.js";
+
+export type RecordingMode = "record" | "replay";
+
+interface RecordedRequest {
+  method: string;
+  url: string; // relative to the API host, e.g. /repos/acme/api/contents/README.md?ref=main
+  accept?: string; // only when it is not the default media type
+  body?: unknown;
+}
+
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+  message?: string; // the error message Octokit reported, for 4xx and 5xx
+}
+
+interface Interaction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+const DEFAULT_ACCEPT = "application/vnd.github.v3+json";
+
+// Response headers the tools read; everything else (cookies, request ids,
+// server timing) would only make the fixtures noisy
+const KEPT_HEADERS = [
+  "content-type",
+  "link",
+  "retry-after",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-used",
+  "x-ratelimit-reset",
+  "x-ratelimit-resource",
+];
+
+function keyOf(request: RecordedRequest): string {
+  return [
+    request.method,
+    request.url,
+    request.accept ? `(${request.accept})` : "",
+    request.body === undefined ? "" : JSON.stringify(request.body),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Page links are stored relative to the API host, like the request URLs
+function keptHeaders(
+  headers: Record<string, string | number | undefined> | undefined,
+  baseUrl: string
+): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    if (headers?.[name] !== undefined) {
+      kept[name] = String(headers[name]);
+    }
+  }
+  if (kept.link && baseUrl) {
+    kept.link = kept.link.replaceAll(`<${baseUrl}`, "<");
+  }
+  return kept;
+}
+
+// Thrown in replay for a recorded 4xx or 5xx, with the fields of Octokit's
+// RequestError that the error mapping reads
+class ReplayedHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly response: { url: string; status: number; headers: Record<string, string>; data: unknown }
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// GitHub API traffic saved to a JSON fixture file (record) or served back
+// from it without touching the network (replay). Requests are matched on
+// method, URL relative to the API host, media type and body, so a fixture
+// recorded against GitHub Enterprise replays against github.com.
+export class GitHubRecording {
+  private readonly interactions = new Map<string, Interaction>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly file: string,
+    readonly mode: RecordingMode
+  ) {
+    if (mode === "replay") {
+      if (!existsSync(file)) {
+        throw new Error(`No GitHub fixtures at ${file}: record them first with GITHUB_FIXTURES_MODE=record`);
+      }
+      const { interactions } = JSON.parse(readFileSync(file, "utf-8")) as { interactions: Interaction[] };
+      for (const interaction of interactions) {
+        this.interactions.set(keyOf(interaction.request), interaction);
+      }
+    }
+  }
+
+  find(request: RecordedRequest): Interaction | undefined {
+    return this.interactions.get(keyOf(request));
+  }
+
+  // Rewrite the whole file, sorted by request, so that re-recording the same
+  // traffic gives the same file
+  add(interaction: Interaction): Promise<void> {
+    this.interactions.set(keyOf(interaction.request), interaction);
+    const interactions = [...this.interactions.entries()]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([, entry]) => entry);
+    this.saving = this.saving.then(async () => {
+      await mkdir(dirname(this.file), { recursive: true });
+      await writeFile(this.file, `${JSON.stringify({ interactions }, null, 2)}\n`, "utf-8");
+    });
+    return this.saving;
+  }
+}
+
+// GITHUB_FIXTURES_MODE=record|replay with GITHUB_FIXTURES_FILE, or nothing
+// when neither is set
+export function createGitHubRecording(): GitHubRecording | undefined {
+  const mode = process.env.GITHUB_FIXTURES_MODE;
+  const file = process.env.GITHUB_FIXTURES_FILE;
+  if (!mode && !file) {
+    return undefined;
+  }
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`GITHUB_FIXTURES_MODE must be "record" or "replay", got "${mode ?? ""}"`);
+  }
+  if (!file) {
+    throw new Error("GITHUB_FIXTURES_MODE needs GITHUB_FIXTURES_FILE, the fixture file to use");
+  }
+  return new GitHubRecording(file, mode);
+}
+
+// Record every request made through this Octokit instance, or answer it from
+// the recording. Install it first, so that it sits next to the network and
+// sees each retry as a separate request.
+export function installRecorder(octokit: Octokit, recording: GitHubRecording): void {
+  octokit.hook.wrap("request", async (request, options) => {
+    const endpoint = octokit.request.endpoint.parse(options);
+    const baseUrl = String(options.baseUrl || "");
+    const url =
+      baseUrl && endpoint.url.startsWith(baseUrl)
+        ? endpoint.url.slice(baseUrl.length)
+        : endpoint.url.replace(/^https?:\/\/[^/]+/, "");
+    const accept = String(endpoint.headers.accept || "");
+    const recorded: RecordedRequest = {
+      method: endpoint.method,
+      url,
+      ...(accept && accept !== DEFAULT_ACCEPT ? { accept } : {}),
+      ...(endpoint.body !== undefined ? { body: endpoint.body } : {}),
+    };
+
+    if (recording.mode === "replay") {
+      const interaction = recording.find(recorded);
+      if (!interaction) {
+        throw new Error(
+          `No recorded GitHub response for ${keyOf(recorded)} in ${recording.file}. Re-record with GITHUB_FIXTURES_MODE=record`
+        );
+      }
+      const { status, headers, data, message } = interaction.response;
+      const response = { url: endpoint.url, status, headers, data };
+      if (status >= 400) {
+        throw new ReplayedHttpError(message || `GitHub answered ${status}`, status, response);
+      }
+      return response as Awaited<ReturnType<typeof request>>;
+    }
+
+    try {
+      const response = await request(options);
+      await recording.add({
+        request: recorded,
+        response: { status: response.status, headers: keptHeaders(response.headers, baseUrl), data: response.data },
+      });
+      return response;
+    } catch (error) {
+      // Network failures have no response to replay
+      if (isHttpError(error) && error.response) {
+        await recording.add({
+          request: recorded,
+          response: {
+            status: error.status,
+            headers: keptHeaders(error.response.headers, baseUrl),
+            data: error.response.data,
+            message: error.message,
+          },
+        });
+      }
+      throw error;
+    }
+  });
+}
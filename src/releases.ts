@@ -0,0 +1,311 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { minimatch } from "minimatch";
+import semver from "semver";
+import { parse as parseYaml } from "yaml";
+import { classifyApiChanges, type ClassificationReport, type ClassifiedChange } from "./classify.js";
+import type { ServiceConfig } from "./config.js";
+import { diffApiEndpoints } from "./endpoint-diff.js";
+import { detectApiChanges } from "./endpoints.js";
+import { ToolError } from "./errors.js";
+import type { ListResult, RepositoryProvider } from "./providers/index.js";
+import { versionFromTag } from "./semver.js";
+import type { ReleaseSummary, TagSummary } from "./types.js";
+
+export interface VersionedTag extends TagSummary {
+  version?: string; // the semantic version in the tag name, if any
+}
+
+// What a version spec such as "latest", "^1.4" or "deployed:staging" resolved to
+export interface ResolvedVersion {
+  spec: string;
+  ref: string; // commit SHA, or the branch name for a plain ref
+  label: string;
+  source: "release" | "tag" | "manifest" | "ref";
+  tag?: string;
+  version?: string;
+  environment?: string;
+}
+
+// environment -> service -> a SHA, tag or version, or an object naming one
+type ManifestEntry = string | { sha?: string; tag?: string; version?: string };
+export type DeploymentManifest = Record<string, Record<string, ManifestEntry>>;
+
+export interface ResolveOptions {
+  tagPattern?: string; // only tags matching this glob count as releases
+  manifestPath?: string;
+}
+
+export interface ReleaseComparison {
+  service: string;
+  from: ResolvedVersion;
+  to: ResolvedVersion;
+  comparison: {
+    base: string;
+    head: string;
+    mergeBaseSha?: string;
+    totalCommits: number;
+    filesChanged: number;
+    truncated: boolean;
+  };
+  apiFiles: Array<{ filename: string; status: string }>;
+  classification: ClassificationReport;
+  changelog: string;
+}
+
+const SHA = /^[0-9a-f]{7,40}$/i;
+
+export const DEFAULT_ENVIRONMENT = "production";
+
+// Tags matching `pattern`, newest first: tags carrying a version in version
+// order, then the rest by name
+export function sortTags(tags: TagSummary[], pattern?: string): VersionedTag[] {
+  const parsed = tags
+    .filter((tag) => !pattern || minimatch(tag.name, pattern))
+    .map((tag) => ({ tag, version: versionFromTag(tag.name) }));
+  return parsed
+    .sort((a, b) => {
+      if (a.version && b.version) {
+        return semver.rcompare(a.version, b.version) || b.tag.name.localeCompare(a.tag.name);
+      }
+      if (a.version || b.version) {
+        return a.version ? -1 : 1;
+      }
+      return b.tag.name.localeCompare(a.tag.name, undefined, { numeric: true });
+    })
+    .map(({ tag, version }) => ({ ...tag, version: version?.version }));
+}
+
+export async function readDeploymentManifest(path: string): Promise<DeploymentManifest> {
+  const text = await readFile(path, "utf-8");
+  const manifest = extname(path).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  if (!manifest || typeof manifest !== "object" || Array.isArray(manifest)) {
+    throw new ToolError(
+      "INVALID_ARGUMENTS",
+      `${path} must map environments to services, e.g. production: { my-service: v1.4.2 }`,
+      { manifestPath: path }
+    );
+  }
+  return manifest as DeploymentManifest;
+}
+
+// Resolves version specs for one service, listing tags and releases at
+// most once
+export class VersionResolver {
+  private tags: Promise<ListResult<TagSummary>> | undefined;
+  private releases: Promise<ListResult<ReleaseSummary>> | undefined;
+
+  constructor(
+    private readonly provider: RepositoryProvider,
+    private readonly service: ServiceConfig,
+    private readonly options: ResolveOptions = {}
+  ) {}
+
+  async listTags(): Promise<VersionedTag[]> {
+    this.tags ||= this.provider.listTags();
+    return sortTags((await this.tags).items, this.options.tagPattern);
+  }
+
+  async listReleases(): Promise<ReleaseSummary[]> {
+    this.releases ||= this.provider.listReleases();
+    const releases = (await this.releases).items;
+    return releases.filter((release) => !this.options.tagPattern || minimatch(release.tagName, this.options.tagPattern));
+  }
+
+  // "latest", "deployed[:environment]", a tag name, a semver range matched
+  // against the tags, or any other ref (branch or SHA) as it is
+  async resolve(spec: string): Promise<ResolvedVersion> {
+    if (spec === "latest") {
+      return this.latest();
+    }
+    const deployed = spec.match(/^deployed(?::(.+))?$/);
+    if (deployed) {
+      return this.deployed(spec, deployed[1] || DEFAULT_ENVIRONMENT);
+    }
+
+    const tags = await this.listTags();
+    const exact = tags.find((tag) => tag.name === spec);
+    if (exact) {
+      return { spec, ref: exact.sha, label: exact.name, source: "tag", tag: exact.name, version: exact.version };
+    }
+    if (!SHA.test(spec) && semver.validRange(spec)) {
+      const match = tags.find((tag) => tag.version && semver.satisfies(tag.version, spec));
+      if (!match) {
+        throw new ToolError(
+          "REF_NOT_FOUND",
+          `No tag of ${this.service.name}${this.options.tagPattern ? ` matching "${this.options.tagPattern}"` : ""} satisfies ${spec}`,
+          { ref: spec }
+        );
+      }
+      return { spec, ref: match.sha, label: match.name, source: "tag", tag: match.name, version: match.version };
+    }
+    return { spec, ref: spec, label: spec, source: "ref" };
+  }
+
+  // The latest published GitHub release, or the newest tag with a stable
+  // version when the repository has no releases
+  private async latest(): Promise<ResolvedVersion> {
+    const [releases, tags] = await Promise.all([this.listReleases(), this.listTags()]);
+    const release = releases
+      .filter((r) => !r.draft && !r.prerelease)
+      .sort((a, b) => (b.publishedAt || "").localeCompare(a.publishedAt || ""))[0];
+    if (release) {
+      const tag = tags.find((t) => t.name === release.tagName);
+      return {
+        spec: "latest",
+        ref: tag?.sha || release.tagName,
+        label: release.name && release.name !== release.tagName ? `${release.tagName} (${release.name})` : release.tagName,
+        source: "release",
+        tag: release.tagName,
+        version: tag?.version,
+      };
+    }
+
+    const stable = tags.find((tag) => tag.version && !semver.prerelease(tag.version));
+    if (!stable) {
+      throw new ToolError(
+        "REF_NOT_FOUND",
+        `${this.service.name} has no releases or version tags${this.options.tagPattern ? ` matching "${this.options.tagPattern}"` : ""}`,
+        { ref: "latest" }
+      );
+    }
+    return { spec: "latest", ref: stable.sha, label: stable.name, source: "tag", tag: stable.name, version: stable.version };
+  }
+
+  private async deployed(spec: string, environment: string): Promise<ResolvedVersion> {
+    const path = this.options.manifestPath;
+    if (!path) {
+      throw new ToolError(
+        "INVALID_ARGUMENTS",
+        `"${spec}" needs a deployment manifest: pass manifestPath or set DEPLOYMENTS_FILE`,
+        { ref: spec }
+      );
+    }
+    const manifest = await readDeploymentManifest(path);
+    const services = manifest[environment];
+    if (!services) {
+      throw new ToolError(
+        "INVALID_ARGUMENTS",
+        `Environment "${environment}" is not in ${path}. Available environments: ${Object.keys(manifest).join(", ")}`,
+        { environment, manifestPath: path }
+      );
+    }
+    const key = Object.keys(services).find((name) => name.toLowerCase() === this.service.name.toLowerCase());
+    if (!key) {
+      throw new ToolError("REF_NOT_FOUND", `${this.service.name} has no ${environment} deployment in ${path}`, {
+        ref: spec,
+        manifestPath: path,
+      });
+    }
+
+    const entry = services[key];
+    const value = typeof entry === "string" ? entry : entry?.sha || entry?.tag;
+    const version = typeof entry === "object" ? entry?.version : undefined;
+    let resolved: ResolvedVersion;
+    if (value && SHA.test(value)) {
+      resolved = { spec: value, ref: value, label: value.slice(0, 7), source: "ref" };
+    } else if (value) {
+      resolved = await this.resolve(value);
+    } else if (version) {
+      const match = (await this.listTags()).find((t) => t.version === String(version).replace(/^v/, ""));
+      if (!match) {
+        throw new ToolError(
+          "REF_NOT_FOUND",
+          `No tag of ${this.service.name} carries version ${version} deployed to ${environment}`,
+          { ref: spec, version: String(version) }
+        );
+      }
+      resolved = { spec: String(version), ref: match.sha, label: match.name, source: "tag", tag: match.name, version: match.version };
+    } else {
+      throw new ToolError(
+        "INVALID_ARGUMENTS",
+        `The ${environment} entry for ${this.service.name} in ${path} names no sha, tag or version`,
+        { manifestPath: path }
+      );
+    }
+
+    return {
+      ...resolved,
+      spec,
+      label: `${resolved.label} (${environment})`,
+      source: "manifest",
+      environment,
+    };
+  }
+}
+
+const SECTIONS: Array<{ title: string; severity: ClassifiedChange["severity"] }> = [
+  { title: "Breaking changes", severity: "breaking" },
+  { title: "Potentially breaking changes", severity: "potentially-breaking" },
+  { title: "Additions", severity: "additive" },
+];
+
+// API changes between two versions as release-note Markdown
+export function renderApiChangelog(comparison: Omit<ReleaseComparison, "changelog">): string {
+  const { service, from, to, classification, apiFiles } = comparison;
+  const lines = [
+    `## ${service} API changes: ${from.label} → ${to.label}`,
+    "",
+    `${comparison.comparison.totalCommits} commits, ${apiFiles.length} API files changed` +
+      (comparison.comparison.truncated ? " (comparison truncated, the list may be incomplete)" : ""),
+  ];
+
+  for (const { title, severity } of SECTIONS) {
+    const changes = classification.changes.filter((change) => change.severity === severity);
+    if (changes.length === 0) {
+      continue;
+    }
+    lines.push("", `### ${title}`, "");
+    for (const change of changes) {
+      const note = change.acknowledged ? " _(acknowledged)_" : "";
+      lines.push(`- \`${change.endpoint}\`: ${change.reason}${note}`);
+    }
+  }
+
+  // API files whose changes did not alter any endpoint, e.g. DTOs or schemas
+  const covered = new Set(classification.changes.map((change) => change.file));
+  const other = apiFiles.filter((file) => !covered.has(file.filename));
+  if (other.length > 0) {
+    lines.push("", "### Other API file changes", "");
+    for (const file of other) {
+      lines.push(`- \`${file.filename}\` (${file.status})`);
+    }
+  }
+
+  if (classification.changes.length === 0 && other.length === 0) {
+    lines.push("", "No API changes.");
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// Compare two versions of a service (release tags, semver ranges, deployed
+// versions or plain refs) through the usual endpoint diff
+export async function compareReleases(
+  provider: RepositoryProvider,
+  service: ServiceConfig,
+  fromSpec: string,
+  toSpec: string,
+  options: ResolveOptions & { limit?: number; acknowledgedChanges?: string[] } = {}
+): Promise<ReleaseComparison> {
+  const resolver = new VersionResolver(provider, service, options);
+  const [from, to] = await Promise.all([resolver.resolve(fromSpec), resolver.resolve(toSpec)]);
+
+  const comparison = await provider.compareCommits(from.ref, to.ref, { limit: options.limit });
+  const endpointDiff = await diffApiEndpoints(provider, service, from.ref, to.ref, comparison);
+  const result = {
+    service: service.name,
+    from,
+    to,
+    comparison: {
+      base: from.ref,
+      head: to.ref,
+      mergeBaseSha: comparison.mergeBaseSha,
+      totalCommits: comparison.totalCommits,
+      filesChanged: comparison.files.length,
+      truncated: comparison.truncated,
+    },
+    apiFiles: detectApiChanges(comparison.files, service).map((f) => ({ filename: f.filename, status: f.status })),
+    classification: classifyApiChanges(endpointDiff, options.acknowledgedChanges),
+  };
+  return { ...result, changelog: renderApiChangelog(result) };
+}
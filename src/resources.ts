@@ -0,0 +1,433 @@
+import { createHash } from "node:crypto";
+import { existsSync, realpathSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import { extname, relative } from "node:path";
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ServiceConfig } from "./config.js";
+import { listTestFiles } from "./coverage.js";
+import { collectServiceEndpoints } from "./endpoints.js";
+import { toToolError } from "./errors.js";
+import { generateOpenApi } from "./openapi.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import { resolveInsideRoot } from "./test-writer.js";
+
+export interface ResourceContext {
+  services: ServiceConfig[];
+  baseBranchOf: (service: ServiceConfig) => string;
+  providerFor: (service: ServiceConfig) => RepositoryProvider;
+}
+
+// Anything that can be told a subscribed resource changed, i.e. a Server
+export interface ResourceSubscriber {
+  sendResourceUpdated(params: { uri: string }): Promise<void>;
+}
+
+// The error code the MCP specification gives to unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  ".java": "text/x-java",
+  ".kt": "text/x-kotlin",
+  ".ts": "text/x-typescript",
+  ".tsx": "text/x-typescript",
+  ".js": "text/javascript",
+  ".mjs": "text/javascript",
+  ".cjs": "text/javascript",
+  ".py": "text/x-python",
+  ".go": "text/x-go",
+  ".cs": "text/x-csharp",
+  ".rb": "text/x-ruby",
+  ".php": "text/x-php",
+  ".json": "application/json",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".xml": "application/xml",
+  ".md": "text/markdown",
+  ".graphql": "application/graphql",
+  ".graphqls": "application/graphql",
+  ".proto": "text/x-protobuf",
+  ".feature": "text/x-gherkin",
+  ".properties": "text/x-java-properties",
+  ".csv": "text/csv",
+  ".html": "text/html",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+};
+
+export function mimeTypeOf(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] || "text/plain";
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "repo://{service}/{ref}/{+path}",
+    name: "Service source file",
+    description:
+      'A file in the service repository at a branch, tag or commit (encode "/" in the ref as %2F). A path ending in "/" lists the files under it.',
+  },
+  {
+    uriTemplate: "endpoints://{service}/{ref}",
+    name: "Endpoint catalog",
+    description: "Every endpoint extracted from the service's API files at a branch, tag or commit",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "automation://{service}/{+path}",
+    name: "Automation repo file",
+    description: 'A file in the service\'s automation repository. A directory, or a path ending in "/", lists the test files under it.',
+  },
+  {
+    uriTemplate: "openapi://{service}",
+    name: "Generated OpenAPI document",
+    description: "OpenAPI 3.1 document generated from the service's controllers on its base branch",
+    mimeType: "application/json",
+  },
+];
+
+// The concrete resources of each service; files are reached through the templates
+export function listServiceResources(context: ResourceContext): Resource[] {
+  return context.services.flatMap((service) => {
+    const baseBranch = context.baseBranchOf(service);
+    return [
+      {
+        uri: `automation://${service.name}`,
+        name: `${service.name} Automation Repo`,
+        description: `Test files in the automation repository for ${service.name} at ${service.automationRepoPath}`,
+        mimeType: "application/json",
+      },
+      {
+        uri: `endpoints://${service.name}/${encodeURIComponent(baseBranch)}`,
+        name: `${service.name} Endpoints`,
+        description: `Endpoints extracted from the ${service.name} API files on ${baseBranch}`,
+        mimeType: "application/json",
+      },
+      {
+        uri: `openapi://${service.name}`,
+        name: `${service.name} OpenAPI`,
+        description: `OpenAPI 3.1 document generated from the ${service.name} controllers on ${baseBranch}`,
+        mimeType: "application/json",
+      },
+    ];
+  });
+}
+
+function json(uri: string, value: unknown): ReadResourceResult {
+  return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(value, null, 2) }] };
+}
+
+// Missing refs and files are unknown resources; other failures keep their
+// tool error code in the error data
+function providerError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  const failure = toToolError(error);
+  const code = failure.code.endsWith("_NOT_FOUND")
+    ? RESOURCE_NOT_FOUND
+    : failure.code === "NOT_A_FILE"
+      ? ErrorCode.InvalidParams
+      : ErrorCode.InternalError;
+  return new McpError(code, failure.message, failure.toJSON());
+}
+
+function decodeSegment(segment: string, uri: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Malformed percent-encoding in ${uri}`);
+  }
+}
+
+// scheme://service/segment/... with every segment percent-decoded
+function parseUri(uri: string, services: ServiceConfig[]) {
+  const match = uri.match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]+)(?:\/([^?#]*))?$/i);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI ${uri}`);
+  }
+  const name = decodeSegment(match[2], uri);
+  const service = services.find((s) => s.name.toLowerCase() === name.toLowerCase());
+  if (!service) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Service "${name}" not found`);
+  }
+  const segments = match[3] === undefined ? [] : match[3].split("/").map((segment) => decodeSegment(segment, uri));
+  return { scheme: match[1].toLowerCase(), service, segments };
+}
+
+async function readRepoResource(
+  uri: string,
+  service: ServiceConfig,
+  segments: string[],
+  context: ResourceContext
+): Promise<ReadResourceResult> {
+  const [ref, ...parts] = segments;
+  if (!ref) {
+    throw new McpError(ErrorCode.InvalidParams, `${uri} names no ref: use repo://${service.name}/<ref>/<path>`);
+  }
+  const path = parts.join("/");
+  const provider = context.providerFor(service);
+
+  try {
+    if (path === "" || path.endsWith("/")) {
+      const files = (await provider.listFiles(ref)).filter((file) => file.startsWith(path));
+      if (files.length === 0 && path !== "") {
+        throw new McpError(RESOURCE_NOT_FOUND, `No files under ${path} at ${ref}`);
+      }
+      return json(uri, { service: service.name, ref, path, files });
+    }
+    return { contents: [{ uri, mimeType: mimeTypeOf(path), text: await provider.getFileContent(path, ref) }] };
+  } catch (error) {
+    throw providerError(error);
+  }
+}
+
+async function readEndpointCatalog(
+  uri: string,
+  service: ServiceConfig,
+  segments: string[],
+  context: ResourceContext
+): Promise<ReadResourceResult> {
+  const ref = segments.join("/") || context.baseBranchOf(service);
+  let files;
+  try {
+    files = await collectServiceEndpoints(context.providerFor(service), service, ref);
+  } catch (error) {
+    throw providerError(error);
+  }
+  const endpoints = files.flatMap(({ file, endpoints }) =>
+    endpoints.map(({ handler, lineNumber, ...endpoint }) => ({ ...endpoint, file, line: lineNumber }))
+  );
+  return json(uri, { service: service.name, ref, files: files.length, total: endpoints.length, endpoints });
+}
+
+// Read a file under the automation root, or list the test files under a
+// directory of it; paths that resolve outside the root are refused
+async function readAutomationResource(uri: string, service: ServiceConfig, segments: string[]): Promise<ReadResourceResult> {
+  const root = service.automationRepoPath;
+  if (!existsSync(root)) {
+    throw new McpError(RESOURCE_NOT_FOUND, `The automation repo of ${service.name} does not exist: ${root}`);
+  }
+  const realRoot = realpathSync(root);
+  const path = segments.join("/");
+
+  let target = realRoot;
+  if (path.replace(/\/+$/, "") !== "") {
+    try {
+      target = resolveInsideRoot(root, path, "read").absolute;
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+  const info = await stat(target).catch(() => undefined);
+  if (!info) {
+    throw new McpError(RESOURCE_NOT_FOUND, `${path} does not exist in the automation repo of ${service.name}`);
+  }
+
+  if (info.isDirectory()) {
+    const files = (await listTestFiles(target)).map((file) => relative(realRoot, file)).sort();
+    return json(uri, {
+      service: service.name,
+      automationRepoPath: root,
+      path: relative(realRoot, target),
+      files,
+    });
+  }
+  if (path.endsWith("/")) {
+    throw new McpError(RESOURCE_NOT_FOUND, `${path} is not a directory`);
+  }
+  if (info.size > MAX_FILE_BYTES) {
+    throw new McpError(ErrorCode.InvalidParams, `${path} is ${info.size} bytes, more than the ${MAX_FILE_BYTES} that can be read`);
+  }
+
+  const content = await readFile(target);
+  const mimeType = mimeTypeOf(target);
+  // Text files never contain NUL bytes
+  if (content.subarray(0, 8000).includes(0)) {
+    return { contents: [{ uri, mimeType: mimeType === "text/plain" ? "application/octet-stream" : mimeType, blob: content.toString("base64") }] };
+  }
+  return { contents: [{ uri, mimeType, text: content.toString("utf-8") }] };
+}
+
+export async function readServiceResource(uri: string, context: ResourceContext): Promise<ReadResourceResult> {
+  const { scheme, service, segments } = parseUri(uri, context.services);
+
+  switch (scheme) {
+    case "repo":
+      return readRepoResource(uri, service, segments, context);
+    case "endpoints":
+      return readEndpointCatalog(uri, service, segments, context);
+    case "automation":
+      return readAutomationResource(uri, service, segments);
+    case "openapi": {
+      try {
+        const generated = await generateOpenApi(context.providerFor(service), service, context.baseBranchOf(service));
+        return json(uri, generated.document);
+      } catch (error) {
+        throw providerError(error);
+      }
+    }
+    default:
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource scheme "${scheme}". Supported: ${RESOURCE_TEMPLATES.map((t) => t.uriTemplate).join(", ")}`
+      );
+  }
+}
+
+// The commit a repository resource is read at, so that a subscription can
+// tell it is unchanged without rebuilding it; undefined for automation files,
+// which are read from disk, and when the commit cannot be found
+export async function resourceVersion(uri: string, context: ResourceContext): Promise<string | undefined> {
+  try {
+    const { scheme, service, segments } = parseUri(uri, context.services);
+    const ref =
+      scheme === "repo"
+        ? segments[0]
+        : scheme === "endpoints"
+          ? segments.join("/") || context.baseBranchOf(service)
+          : scheme === "openapi"
+            ? context.baseBranchOf(service)
+            : undefined;
+    if (!ref) {
+      return undefined;
+    }
+    const commits = await context.providerFor(service).listCommits({ ref, limit: 1 });
+    return commits.items[0]?.sha;
+  } catch {
+    return undefined;
+  }
+}
+
+// Suggest service names for the {service} variable of the templates
+export function completeResourceArgument(argument: string, value: string, services: ServiceConfig[]): string[] {
+  if (argument !== "service") {
+    return [];
+  }
+  const prefix = value.toLowerCase();
+  return services.map((s) => s.name).filter((name) => name.toLowerCase().startsWith(prefix));
+}
+
+// What a subscribed resource looked like when last read
+interface Snapshot {
+  version?: string;
+  fingerprint: string;
+}
+
+// Re-reads subscribed resources on an interval and tells their subscribers
+// when the content changed. Resources with a version (the commit they are
+// read at) are only re-read when it moves. A resource that cannot be read
+// yet may still be subscribed to, e.g. a test file that is about to be written.
+export class ResourceSubscriptions {
+  private readonly subscribers = new Map<string, Set<ResourceSubscriber>>();
+  private readonly snapshots = new Map<string, Promise<Snapshot>>();
+  private timer: NodeJS.Timeout | undefined;
+  private checking: Promise<void> | undefined;
+  private forced = false;
+
+  constructor(
+    private readonly read: (uri: string) => Promise<ReadResourceResult>,
+    private readonly intervalMs: number,
+    private readonly version: (uri: string) => Promise<string | undefined> = async () => undefined
+  ) {}
+
+  // Returns without waiting for the first read, which only sets the baseline
+  async subscribe(uri: string, subscriber: ResourceSubscriber): Promise<void> {
+    if (!this.snapshots.has(uri)) {
+      this.snapshots.set(uri, this.snapshot(uri));
+    }
+    const subscribers = this.subscribers.get(uri) || new Set();
+    subscribers.add(subscriber);
+    this.subscribers.set(uri, subscribers);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.check(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string, subscriber: ResourceSubscriber): void {
+    const subscribers = this.subscribers.get(uri);
+    subscribers?.delete(subscriber);
+    if (subscribers?.size === 0) {
+      this.subscribers.delete(uri);
+      this.snapshots.delete(uri);
+    }
+    if (this.subscribers.size === 0) {
+      this.close();
+    }
+  }
+
+  unsubscribeAll(subscriber: ResourceSubscriber): void {
+    for (const uri of [...this.subscribers.keys()]) {
+      this.unsubscribe(uri, subscriber);
+    }
+  }
+
+  // Check every subscribed resource now; overlapping calls share one check
+  check(): Promise<void> {
+    this.checking ||= this.poll().finally(() => {
+      this.checking = undefined;
+    });
+    return this.checking;
+  }
+
+  // Re-read every subscribed resource, even at an unchanged commit, e.g.
+  // after a configuration change altered how resources are built
+  async refresh(): Promise<void> {
+    await this.checking;
+    this.forced = true;
+    return this.check();
+  }
+
+  close(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async poll(): Promise<void> {
+    const forced = this.forced;
+    this.forced = false;
+    for (const uri of [...this.subscribers.keys()]) {
+      const previous = await this.snapshots.get(uri);
+      const version = await this.version(uri);
+      if (!forced && previous && version !== undefined && version === previous.version) {
+        continue;
+      }
+      const next = await this.snapshot(uri, version);
+      const subscribers = this.subscribers.get(uri);
+      if (!subscribers) {
+        continue; // unsubscribed while it was read
+      }
+      this.snapshots.set(uri, Promise.resolve(next));
+      if (previous?.fingerprint === next.fingerprint) {
+        continue;
+      }
+      for (const subscriber of subscribers) {
+        subscriber.sendResourceUpdated({ uri }).catch(() => undefined);
+      }
+    }
+  }
+
+  // The version is taken before the read, so a commit that lands during the
+  // read is picked up by the next check
+  private async snapshot(uri: string, version?: string): Promise<Snapshot> {
+    version ??= await this.version(uri);
+    try {
+      const result = await this.read(uri);
+      return { version, fingerprint: createHash("sha256").update(JSON.stringify(result.contents)).digest("hex") };
+    } catch (error) {
+      return { version, fingerprint: `error: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+}
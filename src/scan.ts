@@ -0,0 +1,185 @@
+import { classifyApiChanges, type ChangeSeverity, type ClassifiedChange } from "./classify.js";
+import { mapConcurrent } from "./concurrency.js";
+import type { ServiceConfig } from "./config.js";
+import { diffApiEndpoints } from "./endpoint-diff.js";
+import { detectApiChanges } from "./endpoints.js";
+import { toToolError, ToolError, type ErrorCode } from "./errors.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import { sortTags } from "./releases.js";
+
+// The common range every service is compared over
+export type ScanRange =
+  | { kind: "branches"; base?: string; head: string }
+  | { kind: "tag"; pattern: string; head?: string } // newest matching tag to head
+  | { kind: "dates"; since: string; until?: string; branch?: string };
+
+export interface ServiceScan {
+  service: string;
+  status: "ok" | "failed";
+  error?: string;
+  errorCode?: ErrorCode;
+  base?: string;
+  head?: string;
+  baseLabel?: string; // the tag or date the base was resolved from
+  headLabel?: string;
+  comparison?: {
+    mergeBaseSha?: string;
+    totalCommits: number;
+    filesChanged: number;
+    truncated: boolean;
+  };
+  apiFiles?: Array<{ filename: string; status: string }>;
+  endpoints?: {
+    added: number;
+    removed: number;
+    methodChanged: number;
+    pathChanged: number;
+    signatureChanged: number;
+  };
+  severity?: Record<ChangeSeverity, number>;
+  changes?: Array<Omit<ClassifiedChange, "acknowledged" | "evidence">>;
+}
+
+export interface ScanReport {
+  range: ScanRange;
+  totals: {
+    services: number;
+    succeeded: number;
+    failed: number;
+    withApiChanges: number;
+    commits: number;
+    apiFiles: number;
+    endpointsAdded: number;
+    endpointsRemoved: number;
+    endpointsChanged: number;
+  } & Record<ChangeSeverity, number>;
+  services: ServiceScan[];
+}
+
+export interface ScanOptions {
+  concurrency: number;
+  limit?: number; // maximum commits to read per service
+  defaultBaseBranch: (service: ServiceConfig) => string;
+  providerFor: (service: ServiceConfig) => RepositoryProvider;
+  onProgress?: (completed: number, total: number, message: string) => void | Promise<void>;
+}
+
+async function commitAtDate(provider: RepositoryProvider, branch: string, date: string): Promise<string> {
+  const commits = await provider.listCommits({ ref: branch, until: date, limit: 1 });
+  const commit = commits.items[0];
+  if (!commit) {
+    throw new ToolError("INVALID_ARGUMENTS", `${branch} has no commits before ${date}`, { branch, since: date });
+  }
+  return commit.sha;
+}
+
+async function resolveRange(
+  provider: RepositoryProvider,
+  range: ScanRange,
+  defaultBranch: string
+): Promise<Pick<ServiceScan, "base" | "head" | "baseLabel" | "headLabel">> {
+  switch (range.kind) {
+    case "branches":
+      return { base: range.base || defaultBranch, head: range.head };
+    case "tag": {
+      const matching = sortTags((await provider.listTags()).items, range.pattern);
+      if (matching.length === 0) {
+        throw new ToolError("INVALID_ARGUMENTS", `No tag matches "${range.pattern}"`, { tagPattern: range.pattern });
+      }
+      return { base: matching[0].sha, baseLabel: matching[0].name, head: range.head || defaultBranch };
+    }
+    case "dates": {
+      const branch = range.branch || defaultBranch;
+      return {
+        base: await commitAtDate(provider, branch, range.since),
+        baseLabel: `${branch} at ${range.since}`,
+        head: range.until ? await commitAtDate(provider, branch, range.until) : branch,
+        headLabel: range.until ? `${branch} at ${range.until}` : undefined,
+      };
+    }
+  }
+}
+
+async function scanService(service: ServiceConfig, range: ScanRange, options: ScanOptions): Promise<ServiceScan> {
+  const provider = options.providerFor(service);
+  const refs = await resolveRange(provider, range, options.defaultBaseBranch(service));
+  const comparison = await provider.compareCommits(refs.base!, refs.head!, { limit: options.limit });
+  const endpointDiff = await diffApiEndpoints(provider, service, refs.base!, refs.head!, comparison);
+  const classification = classifyApiChanges(endpointDiff);
+  const { diff } = endpointDiff;
+
+  return {
+    service: service.name,
+    status: "ok",
+    ...refs,
+    comparison: {
+      mergeBaseSha: comparison.mergeBaseSha,
+      totalCommits: comparison.totalCommits,
+      filesChanged: comparison.files.length,
+      truncated: comparison.truncated,
+    },
+    apiFiles: detectApiChanges(comparison.files, service).map((f) => ({ filename: f.filename, status: f.status })),
+    endpoints: {
+      added: diff.added.length,
+      removed: diff.removed.length,
+      methodChanged: diff.methodChanged.length,
+      pathChanged: diff.pathChanged.length,
+      signatureChanged: diff.signatureChanged.length,
+    },
+    severity: classification.summary,
+    changes: classification.changes.map(({ acknowledged, evidence, ...change }) => change),
+  };
+}
+
+// Run API change detection over the same range for several services at
+// once. A service that fails is reported with its error and the sweep
+// carries on with the others.
+export async function scanServices(
+  services: ServiceConfig[],
+  range: ScanRange,
+  options: ScanOptions
+): Promise<ScanReport> {
+  let completed = 0;
+  await options.onProgress?.(0, services.length, `Scanning ${services.length} services`);
+
+  const scans = await mapConcurrent(services, options.concurrency, async (service) => {
+    let scan: ServiceScan;
+    try {
+      scan = await scanService(service, range, options);
+    } catch (error) {
+      const failure = toToolError(error);
+      scan = { service: service.name, status: "failed", error: failure.message, errorCode: failure.code };
+    }
+    completed++;
+    await options.onProgress?.(
+      completed,
+      services.length,
+      `${service.name}: ${scan.status === "ok" ? `${scan.changes!.length} endpoint changes` : "failed"}`
+    );
+    return scan;
+  });
+
+  const sum = (pick: (scan: ServiceScan) => number | undefined) =>
+    scans.reduce((total, scan) => total + (pick(scan) || 0), 0);
+
+  return {
+    range,
+    totals: {
+      services: scans.length,
+      succeeded: scans.filter((s) => s.status === "ok").length,
+      failed: scans.filter((s) => s.status === "failed").length,
+      withApiChanges: scans.filter((s) => (s.apiFiles?.length || 0) + (s.changes?.length || 0) > 0).length,
+      commits: sum((s) => s.comparison?.totalCommits),
+      apiFiles: sum((s) => s.apiFiles?.length),
+      endpointsAdded: sum((s) => s.endpoints?.added),
+      endpointsRemoved: sum((s) => s.endpoints?.removed),
+      endpointsChanged: sum(
+        (s) => s.endpoints && s.endpoints.methodChanged + s.endpoints.pathChanged + s.endpoints.signatureChanged
+      ),
+      breaking: sum((s) => s.severity?.breaking),
+      "potentially-breaking": sum((s) => s.severity?.["potentially-breaking"]),
+      additive: sum((s) => s.severity?.additive),
+    },
+    services: scans,
+  };
+}
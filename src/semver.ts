@@ -0,0 +1,10 @@
+import semver, { type SemVer } from "semver";
+
+// The version at the end of a tag name: v1.4.2, release-1.4.2, credit@1.4.2.
+// Comparing versions and matching ranges is left to the semver package.
+const TAG_VERSION = /(?:^|[^0-9A-Za-z.])v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)$/;
+
+export function versionFromTag(tag: string): SemVer | undefined {
+  const match = tag.match(TAG_VERSION);
+  return (match && semver.parse(match[1])) || undefined;
+}
@@ -0,0 +1,173 @@
+import {
+  MODIFIERS,
+  blankLiterals,
+  findClosing,
+  lineNumberAt,
+  normalizeType,
+  parseAnnotationArguments,
+  readAnnotation,
+  readDeclaration,
+  splitTopLevel,
+  stripComments,
+} from "./java.js";
+import type { ApiEndpoint, EndpointParameter } from "./types.js";
+
+const MAPPING_METHODS: Record<string, string | undefined> = {
+  RequestMapping: undefined,
+  GetMapping: "GET",
+  PostMapping: "POST",
+  PutMapping: "PUT",
+  DeleteMapping: "DELETE",
+  PatchMapping: "PATCH",
+};
+
+const PARAMETER_LOCATIONS: Record<string, EndpointParameter["in"]> = {
+  PathVariable: "path",
+  RequestParam: "query",
+  RequestHeader: "header",
+  RequestBody: "body",
+};
+
+// `String BASE = "/api" + VERSION;` style constants declared in the file
+function collectConstants(source: string): Map<string, string> {
+  const constants = new Map<string, string>();
+  const regex = /\bString\s+([A-Za-z_]\w*)\s*=\s*([^;]+);/g;
+  for (const match of source.matchAll(regex)) {
+    constants.set(match[1], match[2].trim());
+  }
+  return constants;
+}
+
+function resolveExpression(
+  expression: string,
+  constants: Map<string, string>,
+  seen: Set<string> = new Set()
+): string {
+  return splitTopLevel(expression.trim(), "+")
+    .map((part) => {
+      if (/^".*"$/s.test(part)) {
+        return part.slice(1, -1);
+      }
+      const name = part.split(".").pop() || part;
+      const value = constants.get(name);
+      if (value !== undefined && !seen.has(name)) {
+        return resolveExpression(value, constants, new Set([...seen, name]));
+      }
+      return `\${${part}}`;
+    })
+    .join("");
+}
+
+function joinPaths(prefix: string, path: string): string {
+  const joined = `/${prefix}/${path}`.replace(/\/+/g, "/");
+  return joined.length > 1 ? joined.replace(/\/$/, "") : joined;
+}
+
+function parseParameter(text: string, constants: Map<string, string>): EndpointParameter | undefined {
+  let location: EndpointParameter["in"] | undefined;
+  let args = new Map<string, string[]>();
+  let declaration = text;
+
+  for (let i = text.indexOf("@"); i !== -1; i = text.indexOf("@", i + 1)) {
+    const annotation = readAnnotation(text, i);
+    if (!annotation) continue;
+    if (PARAMETER_LOCATIONS[annotation.name] && !location) {
+      location = PARAMETER_LOCATIONS[annotation.name];
+      args = parseAnnotationArguments(annotation.args);
+    }
+    declaration = declaration.replace(text.slice(annotation.start, annotation.end), " ");
+  }
+  if (!location) {
+    return undefined;
+  }
+
+  const tokens = declaration.replace(/\bfinal\b/, "").trim().split(/\s+/);
+  const javaName = tokens.pop() || "";
+  const type = normalizeType(tokens.join(" "));
+  const explicitName = (args.get("name") || args.get("value"))?.[0];
+  const defaultValue = args.get("defaultValue")?.[0];
+
+  let required = true;
+  if (args.get("required")?.[0] === "false" || defaultValue !== undefined || /^Optional</.test(type)) {
+    required = false;
+  }
+
+  const parameter: EndpointParameter = {
+    name: explicitName ? resolveExpression(explicitName, constants) : javaName,
+    in: location,
+    type,
+    required,
+  };
+  if (defaultValue !== undefined) {
+    parameter.defaultValue = resolveExpression(defaultValue, constants);
+  }
+  return parameter;
+}
+
+// Spring MVC / WebFlux controllers: composes class-level @RequestMapping
+// prefixes with method mappings, resolves String constants declared in the
+// same file and reads handler parameters
+export function extractSpringEndpoints(content: string): ApiEndpoint[] {
+  const source = stripComments(content);
+  const lines = content.split("\n");
+  const constants = collectConstants(source);
+  const endpoints: ApiEndpoint[] = [];
+  let classPaths = [""];
+
+  // Annotations are found in the code outside literals, then read from the
+  // original text so that their path strings are intact
+  const annotationRegex = /@(RequestMapping|GetMapping|PostMapping|PutMapping|DeleteMapping|PatchMapping)\b/g;
+  for (const match of blankLiterals(source).matchAll(annotationRegex)) {
+    const annotation = readAnnotation(source, match.index!);
+    if (!annotation) continue;
+
+    const args = parseAnnotationArguments(annotation.args);
+    const paths = (args.get("path") || args.get("value") || ['""']).map((p) =>
+      resolveExpression(p, constants)
+    );
+    const { header, start, paramsStart } = readDeclaration(source, annotation.end);
+
+    if (/\b(class|interface|record)\s+\w+/.test(header)) {
+      classPaths = paths;
+      continue;
+    }
+
+    const fixedMethod = MAPPING_METHODS[match[1]];
+    const methods = fixedMethod
+      ? [fixedMethod]
+      : (args.get("method") || ["ANY"]).map((m) => (m.split(".").pop() || m).toUpperCase());
+
+    const prefix = (paramsStart === -1 ? header : source.slice(start, paramsStart))
+      .replace(MODIFIERS, "")
+      .trim();
+    const handlerName = prefix.match(/([A-Za-z_$][\w$]*)\s*$/)?.[1];
+    const returnType = handlerName
+      ? prefix.slice(0, prefix.length - handlerName.length).replace(/^<[^>]*>\s*/, "").trim()
+      : undefined;
+    const parameters =
+      paramsStart === -1
+        ? []
+        : splitTopLevel(source.slice(paramsStart + 1, findClosing(source, paramsStart)))
+            .map((p) => parseParameter(p, constants))
+            .filter((p): p is EndpointParameter => p !== undefined);
+
+    const lineNumber = lineNumberAt(source, annotation.start);
+    for (const classPath of classPaths) {
+      for (const path of paths) {
+        for (const method of methods) {
+          endpoints.push({
+            method,
+            path: joinPaths(classPath, path),
+            handler: lines[lineNumber - 1].trim(),
+            lineNumber,
+            handlerName,
+            returnType: returnType || undefined,
+            parameters,
+          });
+        }
+      }
+    }
+  }
+
+  return endpoints;
+}
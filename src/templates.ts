@@ -0,0 +1,311 @@
+import { existsSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { ServiceConfig } from "./config.js";
+import { ToolError } from "./errors.js";
+import type { GrpcMethodContext } from "./protobuf.js";
+
+export type ApiType = "REST" | "GraphQL" | "gRPC";
+
+// A set of templates for one test framework, one file per API type
+export interface TemplatePack {
+  name: string;
+  description?: string;
+  fileExtension?: string;
+  source: string;
+  templates: Partial<Record<ApiType, string>>;
+}
+
+export type TemplateContext = Record<string, unknown>;
+
+// Packs shipped with the server live next to src/ and dist/
+const BUILT_IN_TEMPLATES = fileURLToPath(new URL("../templates/", import.meta.url));
+
+// Directory inside an automation repo that overrides or adds packs
+export const AUTOMATION_TEMPLATES_DIR = ".mcp-templates";
+
+const TEMPLATE_FILES: Record<string, ApiType> = {
+  "rest.tmpl": "REST",
+  "graphql.tmpl": "GraphQL",
+  "grpc.tmpl": "gRPC",
+};
+
+async function readPack(name: string, directory: string): Promise<TemplatePack | undefined> {
+  const files = await readdir(directory).catch(() => [] as string[]);
+  const templates: TemplatePack["templates"] = {};
+  for (const file of files) {
+    const apiType = TEMPLATE_FILES[file];
+    if (apiType) {
+      templates[apiType] = join(directory, file);
+    }
+  }
+  if (Object.keys(templates).length === 0) {
+    return undefined;
+  }
+
+  let manifest: { description?: string; fileExtension?: string } = {};
+  if (files.includes("pack.json")) {
+    try {
+      manifest = JSON.parse(await readFile(join(directory, "pack.json"), "utf-8"));
+    } catch (error) {
+      throw new ToolError("INVALID_CONFIG", `Invalid pack.json in ${directory}: ${error}`, { path: directory });
+    }
+  }
+
+  return { name, ...manifest, source: directory, templates };
+}
+
+async function readPacks(root: string, packs: Map<string, TemplatePack>): Promise<void> {
+  if (!existsSync(root)) {
+    return;
+  }
+  const entries = await readdir(root, { withFileTypes: true });
+  for (const entry of entries.filter((e) => e.isDirectory())) {
+    const pack = await readPack(entry.name, join(root, entry.name));
+    if (pack) {
+      // A user pack with a built-in name only replaces the API types it defines
+      const existing = packs.get(pack.name);
+      packs.set(
+        pack.name,
+        existing ? { ...existing, ...pack, templates: { ...existing.templates, ...pack.templates } } : pack
+      );
+    }
+  }
+}
+
+// Built-in packs, then the service's templatesPath (or the automation repo's
+// .mcp-templates directory) on top
+export async function loadTemplatePacks(service?: ServiceConfig): Promise<Map<string, TemplatePack>> {
+  const packs = new Map<string, TemplatePack>();
+  await readPacks(BUILT_IN_TEMPLATES, packs);
+
+  const userRoot =
+    service?.templatesPath ||
+    (service?.automationRepoPath ? join(service.automationRepoPath, AUTOMATION_TEMPLATES_DIR) : undefined);
+  if (userRoot) {
+    await readPacks(userRoot, packs);
+  }
+  return packs;
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string }
+  | { type: "each"; path: string; body: TemplateNode[] }
+  | { type: "if"; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG = /\{\{\s*(#each|#if|\/each|\/if|else)?\s*([\w.@]*)\s*\}\}/g;
+
+// Block tags alone on a line should not leave an empty line behind
+const STANDALONE_TAG = /^[ \t]*(\{\{\s*(?:#each|#if|\/each|\/if|else)\b[^}]*\}\})[ \t]*\r?\n/gm;
+
+function parseTemplate(source: string, name: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: "each" | "if" }>; target: TemplateNode[] }> = [];
+  let target = root;
+  let last = 0;
+
+  const text = source.replace(STANDALONE_TAG, "$1");
+  for (const match of text.matchAll(TAG)) {
+    if (match.index! > last) {
+      target.push({ type: "text", value: text.slice(last, match.index) });
+    }
+    last = match.index! + match[0].length;
+
+    const [, keyword, path] = match;
+    if (keyword === "#each" || keyword === "#if") {
+      const node: Extract<TemplateNode, { type: "each" | "if" }> =
+        keyword === "#each" ? { type: "each", path, body: [] } : { type: "if", path, body: [], otherwise: [] };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.body;
+    } else if (keyword === "else") {
+      const open = stack[stack.length - 1];
+      if (open?.node.type !== "if") {
+        throw new ToolError("INVALID_CONFIG", `Template ${name}: {{else}} outside {{#if}}`, { template: name });
+      }
+      target = open.node.otherwise;
+    } else if (keyword === "/each" || keyword === "/if") {
+      const open = stack.pop();
+      if (!open || `/${open.node.type}` !== keyword) {
+        throw new ToolError("INVALID_CONFIG", `Template ${name}: unexpected {{${keyword}}}`, { template: name });
+      }
+      target = open.target;
+    } else {
+      target.push({ type: "value", path });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new ToolError("INVALID_CONFIG", `Template ${name}: unclosed {{#${stack[stack.length - 1].node.type}}}`, {
+      template: name,
+    });
+  }
+  if (last < text.length) {
+    target.push({ type: "text", value: text.slice(last) });
+  }
+  return root;
+}
+
+// Look a dotted path up in the innermost scope that has its first segment
+function lookup(path: string, scopes: TemplateContext[]): unknown {
+  const [head, ...rest] = path.split(".");
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (head in scope) {
+      return rest.reduce<unknown>(
+        (value, key) => (value && typeof value === "object" ? (value as TemplateContext)[key] : undefined),
+        scope[head]
+      );
+    }
+  }
+  return undefined;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "value": {
+          const value = lookup(node.path, scopes);
+          return value === undefined || value === null
+            ? ""
+            : typeof value === "object"
+              ? JSON.stringify(value)
+              : String(value);
+        }
+        case "each": {
+          const items = lookup(node.path, scopes);
+          if (!Array.isArray(items)) {
+            return "";
+          }
+          return items
+            .map((item, index) => {
+              const scope: TemplateContext = { this: item, "@index": index };
+              if (item && typeof item === "object" && !Array.isArray(item)) {
+                Object.assign(scope, item);
+              }
+              return renderNodes(node.body, [...scopes, scope]);
+            })
+            .join("");
+        }
+        case "if": {
+          const value = lookup(node.path, scopes);
+          const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+          return renderNodes(truthy ? node.body : node.otherwise, scopes);
+        }
+      }
+    })
+    .join("");
+}
+
+// Render `{{name}}`, `{{a.b}}`, `{{#each list}}...{{/each}}` (with `{{this}}`
+// and `{{@index}}`) and `{{#if name}}...{{else}}...{{/if}}`
+export function renderTemplate(source: string, context: TemplateContext, name = "template"): string {
+  return renderNodes(parseTemplate(source, name), [context]);
+}
+
+// Render a pack's template for an API type, failing with the available
+// choices when the framework or API type is unknown
+export async function renderTestTemplate(
+  service: ServiceConfig | undefined,
+  framework: string,
+  apiType: ApiType,
+  context: TemplateContext
+): Promise<{ pack: TemplatePack; content: string }> {
+  const packs = await loadTemplatePacks(service);
+  const pack = packs.get(framework.toLowerCase());
+  if (!pack) {
+    throw new ToolError(
+      "INVALID_ARGUMENTS",
+      `Unknown test framework "${framework}". Available frameworks: ${[...packs.keys()].sort().join(", ")}`,
+      { framework, availableFrameworks: [...packs.keys()].sort() }
+    );
+  }
+
+  const file = pack.templates[apiType];
+  if (!file) {
+    throw new ToolError(
+      "INVALID_ARGUMENTS",
+      `The ${pack.name} templates have no ${apiType} template. Available API types: ${Object.keys(pack.templates).join(", ")}`,
+      { framework: pack.name, apiType, availableApiTypes: Object.keys(pack.templates) }
+    );
+  }
+
+  const content = renderTemplate(await readFile(file, "utf-8"), context, `${pack.name}/${apiType}`);
+  return { pack, content };
+}
+
+function toWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => word.toLowerCase());
+}
+
+// Stand-ins for gRPC templates when no .proto file could be read
+const PLACEHOLDER_GRPC: GrpcMethodContext = {
+  protoFile: "path/to/service.proto",
+  package: "",
+  service: "ServiceName",
+  clientPath: "ServiceName",
+  method: "methodName",
+  requestType: "Request",
+  responseType: "Response",
+  clientStreaming: false,
+  serverStreaming: false,
+  sampleRequest: '{ "field": "value" }',
+};
+
+// Variables available to every test template
+export function buildTemplateContext(options: {
+  serviceName: string;
+  automationPath: string;
+  apiType: ApiType;
+  httpMethod?: string;
+  path?: string;
+  grpc?: GrpcMethodContext;
+}): TemplateContext {
+  const httpMethod = (options.httpMethod || "GET").toUpperCase();
+  const path = options.path || "/api/v1/endpoint";
+  const words = toWords(options.serviceName);
+  const pascal = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join("");
+  const packageName = `tests.api.${words.join("_") || "service"}`;
+
+  return {
+    serviceName: options.serviceName,
+    automationPath: options.automationPath,
+    apiType: options.apiType,
+    httpMethod,
+    httpMethodLower: httpMethod.toLowerCase(),
+    path,
+    hasBody: ["POST", "PUT", "PATCH"].includes(httpMethod),
+    className: `${pascal}${options.apiType === "GraphQL" ? "GraphQl" : "Api"}Test`,
+    packageName,
+    packagePath: packageName.replace(/\./g, "/"),
+    grpc: options.grpc || PLACEHOLDER_GRPC,
+    cases: [
+      { name: "success", snakeName: "success", title: "should return success", path, expectedStatus: 200, auth: true },
+      {
+        name: "invalidRequest",
+        snakeName: "invalid_request",
+        title: "should handle invalid request",
+        path: `${path}/invalid`,
+        expectedStatus: 404,
+        auth: true,
+      },
+      {
+        name: "requiresAuthentication",
+        snakeName: "requires_authentication",
+        title: "should require authentication",
+        path,
+        expectedStatus: 401,
+        auth: false,
+      },
+    ],
+  };
+}
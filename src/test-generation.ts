@@ -0,0 +1,412 @@
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { basename, dirname, join, relative } from "node:path";
+import type { ServiceConfig } from "./config.js";
+import { diffApiEndpoints, endpointKey, type LocatedEndpoint } from "./endpoint-diff.js";
+import { ModelResolver, type EndpointModel } from "./models.js";
+import type { RepositoryProvider } from "./providers/index.js";
+import type { EndpointParameter } from "./types.js";
+
+export type EndpointChange = "added" | "method-changed" | "path-changed" | "signature-changed";
+
+export type NamingStyle = "kebab" | "snake" | "camel" | "pascal";
+
+// Where new tests go, inferred from the tests already in the automation repo
+export interface TestLayout {
+  directory: string;
+  suffix: string;
+  naming: NamingStyle;
+  basedOn: number;
+}
+
+export interface GeneratedTest {
+  method: string;
+  path: string;
+  change: EndpointChange;
+  source: { file: string; line: number };
+  targetPath: string;
+  exists: boolean;
+  cases: string[];
+  content: string;
+}
+
+export interface TestGenerationResult {
+  base: string;
+  head: string;
+  layout: TestLayout;
+  tests: GeneratedTest[];
+  skipped: Array<{ method: string; path: string; reason: string }>;
+  unresolvedTypes: string[];
+}
+
+const DEFAULT_LAYOUT: TestLayout = { directory: "tests/api", suffix: ".spec.ts", naming: "kebab", basedOn: 0 };
+
+const TEST_FILE = /^(.+?)(\.(?:spec|test)\.(?:ts|js|mjs))$/;
+
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules", "dist", "build", "playwright-report", "test-results"]);
+
+function namingStyleOf(name: string): NamingStyle | undefined {
+  if (name.includes("-")) return "kebab";
+  if (name.includes("_")) return "snake";
+  if (/^[A-Z]/.test(name)) return "pascal";
+  if (/[a-z][A-Z]/.test(name)) return "camel";
+  return undefined;
+}
+
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => word.toLowerCase());
+}
+
+function applyNaming(parts: string[], style: NamingStyle): string {
+  const capitalized = parts.map((word) => word.charAt(0).toUpperCase() + word.slice(1));
+  switch (style) {
+    case "snake":
+      return parts.join("_");
+    case "camel":
+      return parts[0] + capitalized.slice(1).join("");
+    case "pascal":
+      return capitalized.join("");
+    default:
+      return parts.join("-");
+  }
+}
+
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+// Find the directory, suffix and file naming the existing API tests use
+export async function detectTestLayout(root: string): Promise<TestLayout> {
+  const tests: string[] = [];
+
+  const walk = async (directory: string) => {
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+          await walk(join(directory, entry.name));
+        }
+      } else if (TEST_FILE.test(entry.name)) {
+        tests.push(relative(root, join(directory, entry.name)));
+      }
+    }
+  };
+  await walk(root);
+
+  if (tests.length === 0) {
+    return DEFAULT_LAYOUT;
+  }
+
+  const names = tests.map((path) => basename(path).match(TEST_FILE)!);
+  return {
+    directory: mostCommon(tests.map((path) => dirname(path))) || DEFAULT_LAYOUT.directory,
+    suffix: mostCommon(names.map((match) => match[2])) || DEFAULT_LAYOUT.suffix,
+    naming:
+      mostCommon(names.map((match) => namingStyleOf(match[1])).filter((s): s is NamingStyle => !!s)) ||
+      DEFAULT_LAYOUT.naming,
+    basedOn: tests.length,
+  };
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function literal(value: unknown, indent: string): string {
+  return JSON.stringify(value, null, 2).replace(/\n/g, `\n${indent}`);
+}
+
+function sampleParameter(param: EndpointParameter): unknown {
+  if (param.defaultValue !== undefined) {
+    return /^(int|long|short|Integer|Long|Short|double|float|Double|Float|BigDecimal)$/.test(param.type)
+      ? Number(param.defaultValue)
+      : param.defaultValue;
+  }
+  if (/^(int|long|short|Integer|Long|Short)$/.test(param.type)) return 1;
+  if (/^(boolean|Boolean)$/.test(param.type)) return true;
+  return "REPLACE_ME";
+}
+
+function isNumeric(type: string | undefined): boolean {
+  return !!type && /^(int|long|short|Integer|Long|Short|BigInteger)$/.test(type);
+}
+
+// Render a Playwright spec with a positive case, one case per request body
+// constraint, parameter validation cases and an authentication case. The
+// JavaScript flavour, for .js and .mjs suites, has no type annotations.
+// When the request body cannot be resolved there is no valid body to send, so
+// the body constraint cases are left out and the cases that need a valid body
+// are emitted as test.fixme with the reason.
+export function renderPlaywrightTest(
+  serviceName: string,
+  endpoint: LocatedEndpoint,
+  model: EndpointModel | undefined,
+  language: "typescript" | "javascript" = "typescript"
+): { content: string; cases: string[] } {
+  const method = endpoint.method.toLowerCase();
+  const pathNames = [...endpoint.path.matchAll(/\{(\w+)(?::[^}]*)?\}|:(\w+)|<(?:\w+:)?(\w+)>/g)].map(
+    (m) => m[1] || m[2] || m[3]
+  );
+  const declared = endpoint.parameters || [];
+  const queryParams = declared.filter((p) => p.in === "query");
+  const headerParams = declared.filter((p) => p.in === "header" && p.name.toLowerCase() !== "authorization");
+  const bodyParam = declared.find((p) => p.in === "body");
+  const hasBody = !!bodyParam || !!model?.request;
+  const sample = model?.request?.schema["x-unresolved"] ? undefined : model?.request?.sample;
+  const bodyType = model?.request?.type || bodyParam?.type;
+  const unresolvedBody =
+    hasBody && sample === undefined
+      ? `the request body${bodyType ? ` (${bodyType})` : ""} could not be resolved`
+      : undefined;
+
+  const url = endpoint.path.replace(
+    /\{(\w+)(?::[^}]*)?\}|:(\w+)|<(?:\w+:)?(\w+)>/g,
+    (_, a, b, c) => `\${pathParams.${a || b || c}}`
+  );
+
+  const cases: string[] = [];
+  const tests: string[] = [];
+  const options = (data: string, params = "query") =>
+    [queryParams.length > 0 ? `params: ${params}` : "", hasBody && !unresolvedBody ? `data: ${data}` : ""]
+      .filter(Boolean)
+      .join(", ");
+  const call = (data: string, params?: string) => {
+    const args = options(data, params);
+    return `apiContext.${method}(url${args ? `, { ${args} }` : ""})`;
+  };
+  const addTest = (name: string, body: string[], needsValidBody = false) => {
+    cases.push(name);
+    if (needsValidBody && unresolvedBody) {
+      tests.push([`  test.fixme(${quote(name)}, async () => {`, `    // Not generated: ${unresolvedBody}`, "  });"].join("\n"));
+      return;
+    }
+    tests.push(
+      [`  test(${quote(name)}, async () => {`, ...body.map((line) => (line ? `    ${line}` : "")), "  });"].join("\n")
+    );
+  };
+
+  addTest(
+    `${endpoint.method} ${endpoint.path} - should succeed with a valid request`,
+    [`const response = await ${call("validBody")};`, "", "expect(response.ok()).toBeTruthy();"],
+    hasBody
+  );
+
+  for (const testCase of unresolvedBody ? [] : model?.request?.cases || []) {
+    const expectation = testCase.expectValid
+      ? "expect(response.ok()).toBeTruthy();"
+      : "expect(response.status()).toBe(400);";
+    addTest(`${testCase.name} - should be ${testCase.expectValid ? "accepted" : "rejected"}`, [
+      `const response = await ${call(literal(testCase.payload, "    "))};`,
+      "",
+      expectation,
+    ]);
+  }
+
+  for (const param of queryParams.filter((p) => p.required && p.defaultValue === undefined)) {
+    addTest(
+      `query ${param.name}: missing required parameter - should be rejected`,
+      [
+        `const { ${param.name}: _omitted, ...params } = query;`,
+        `const response = await ${call("validBody", "params")};`,
+        "",
+        "expect(response.status()).toBe(400);",
+      ],
+      hasBody
+    );
+  }
+
+  for (const name of pathNames) {
+    const param = declared.find((p) => p.in === "path" && p.name === name);
+    if (isNumeric(param?.type)) {
+      addTest(
+        `path ${name}: non-numeric value - should be rejected`,
+        [
+          `const response = await apiContext.${method}(url.replace(String(pathParams.${name}), 'not-a-number')${
+            options("validBody") ? `, { ${options("validBody")} }` : ""
+          });`,
+          "",
+          "expect(response.status()).toBe(400);",
+        ],
+        hasBody
+      );
+    }
+  }
+
+  cases.push(`${endpoint.method} ${endpoint.path} - should require authentication`);
+  tests.push(
+    [
+      `  test(${quote(cases[cases.length - 1])}, async ({ playwright }) => {`,
+      "    const unauthContext = await playwright.request.newContext({",
+      "      baseURL: process.env.API_BASE_URL,",
+      "    });",
+      "",
+      `    const response = await unauthContext.${method}(url${options("validBody") ? `, { ${options("validBody")} }` : ""});`,
+      "    expect(response.status()).toBe(401);",
+      "",
+      "    await unauthContext.dispose();",
+      "  });",
+    ].join("\n")
+  );
+
+  const constants: string[] = [];
+  if (pathNames.length > 0) {
+    constants.push(
+      "const pathParams = {",
+      ...pathNames.map((name) => {
+        const variable = words(name).join("_").toUpperCase();
+        const param = declared.find((p) => p.in === "path" && p.name === name);
+        return isNumeric(param?.type)
+          ? `  ${name}: Number(process.env.${variable} || 1),`
+          : `  ${name}: process.env.${variable} || 'REPLACE_ME',`;
+      }),
+      "};",
+      ""
+    );
+  }
+  if (queryParams.length > 0) {
+    constants.push(
+      `const query = ${literal(Object.fromEntries(queryParams.map((p) => [p.name, sampleParameter(p)])), "")};`,
+      ""
+    );
+  }
+  if (hasBody && !unresolvedBody) {
+    constants.push(`const validBody = ${literal(sample, "")};`, "");
+  }
+  constants.push(`const url = \`${url}\`;`);
+
+  const extraHeaders = [
+    "        'Authorization': `Bearer ${process.env.API_TOKEN}`,",
+    "        'Content-Type': 'application/json',",
+    ...headerParams.map((p) => `        ${quote(p.name)}: ${quote(String(sampleParameter(p)))},`),
+  ];
+
+  const typescript = language === "typescript";
+  const content = `// Generated test for ${serviceName} - ${endpoint.method} ${endpoint.path}
+// Source: ${endpoint.file}:${endpoint.lineNumber}${endpoint.handlerName ? ` (${endpoint.handlerName})` : ""}
+
+import { test, expect } from '@playwright/test';
+${typescript ? "import { APIRequestContext } from '@playwright/test';\n" : ""}
+${constants.join("\n")}
+
+test.describe(${quote(`${serviceName} ${endpoint.method} ${endpoint.path}`)}, () => {
+  let apiContext${typescript ? ": APIRequestContext" : ""};
+
+  test.beforeAll(async ({ playwright }) => {
+    apiContext = await playwright.request.newContext({
+      baseURL: process.env.API_BASE_URL,
+      extraHTTPHeaders: {
+${extraHeaders.join("\n")}
+      },
+    });
+  });
+
+  test.afterAll(async () => {
+    await apiContext.dispose();
+  });
+
+${tests.join("\n\n")}
+});
+`;
+
+  return { content, cases };
+}
+
+// Generate one test file per endpoint added or changed between two refs
+export async function generateTestsForChanges(
+  provider: RepositoryProvider,
+  service: ServiceConfig,
+  base: string,
+  head: string,
+  only?: string[]
+): Promise<TestGenerationResult> {
+  const [result, layout] = await Promise.all([
+    diffApiEndpoints(provider, service, base, head),
+    detectTestLayout(service.automationRepoPath),
+  ]);
+
+  const changed: Array<{ endpoint: LocatedEndpoint; change: EndpointChange }> = [
+    ...result.diff.added.map((endpoint) => ({ endpoint, change: "added" as const })),
+    ...result.diff.methodChanged.map((m) => ({ endpoint: m.after, change: "method-changed" as const })),
+    ...result.diff.pathChanged.map((m) => ({ endpoint: m.after, change: "path-changed" as const })),
+    ...result.diff.signatureChanged.map((m) => ({ endpoint: m.after, change: "signature-changed" as const })),
+  ];
+  const wanted = only?.map((key) => key.replace(/\s+/, " ").toUpperCase());
+
+  const resolver = new ModelResolver(provider, head);
+  const tests: GeneratedTest[] = [];
+  const skipped: TestGenerationResult["skipped"] = [];
+  const usedPaths = new Set<string>();
+
+  for (const { endpoint, change } of changed) {
+    if (wanted && !wanted.includes(endpointKey(endpoint.method, endpoint.path).toUpperCase())) {
+      continue;
+    }
+    if (!/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)$/.test(endpoint.method)) {
+      skipped.push({ method: endpoint.method, path: endpoint.path, reason: "no single HTTP method" });
+      continue;
+    }
+    if (!endpoint.path) {
+      skipped.push({ method: endpoint.method, path: endpoint.path, reason: "path could not be determined" });
+      continue;
+    }
+
+    let model: EndpointModel | undefined;
+    if (endpoint.file.endsWith(".java")) {
+      const source = await resolver.loadSource(endpoint.file);
+      if (source) {
+        model = await resolver.describeEndpoint(endpoint, source);
+      }
+    }
+
+    const resource = basename(endpoint.file).replace(/\.\w+$/, "").replace(/(Controller|Resource|Router|Routes?|Handler)$/, "");
+    const nameParts = endpoint.handlerName
+      ? [...words(resource), ...words(endpoint.handlerName)]
+      : [endpoint.method.toLowerCase(), ...words(endpoint.path)];
+    let fileName = applyNaming(nameParts, layout.naming);
+    for (let i = 2; usedPaths.has(fileName); i++) {
+      fileName = applyNaming([...nameParts, String(i)], layout.naming);
+    }
+    usedPaths.add(fileName);
+
+    const targetPath = join(service.automationRepoPath, layout.directory, `${fileName}${layout.suffix}`);
+    const { content, cases } = renderPlaywrightTest(
+      service.name,
+      endpoint,
+      model,
+      layout.suffix.endsWith(".ts") ? "typescript" : "javascript"
+    );
+
+    tests.push({
+      method: endpoint.method,
+      path: endpoint.path,
+      change,
+      source: { file: endpoint.file, line: endpoint.lineNumber },
+      targetPath,
+      exists: existsSync(targetPath),
+      cases,
+      content,
+    });
+  }
+
+  return {
+    base,
+    head,
+    layout,
+    tests,
+    skipped,
+    unresolvedTypes: [...resolver.unresolved],
+  };
+}
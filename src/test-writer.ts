@@ -0,0 +1,401 @@
+import { execFile } from "node:child_process";
+import { existsSync, realpathSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, extname, isAbsolute, relative, resolve } from "node:path";
+import { promisify } from "node:util";
+import * as Diff from "diff";
+import { ToolError } from "./errors.js";
+import { findClosing } from "./java.js";
+
+const execFileAsync = promisify(execFile);
+
+export type ConflictMode = "merge" | "overwrite" | "fail";
+
+export interface WriteTestOptions {
+  dryRun?: boolean;
+  onConflict?: ConflictMode;
+  branch?: string;
+  commit?: boolean;
+  commitMessage?: string;
+}
+
+export interface WriteTestResult {
+  path: string;
+  relativePath: string;
+  action: "created" | "merged" | "overwritten" | "unchanged";
+  dryRun: boolean;
+  addedCases: string[];
+  existingCases: string[];
+  diff: string;
+  git?: { branch?: string; commit?: string };
+}
+
+// A single test case (method, test() call, function or scenario) in a file
+interface TestBlock {
+  name: string;
+  text: string;
+  classHeader?: string; // the `class Test...:` line of a pytest method
+}
+
+type Language = "typescript" | "java" | "python" | "karate";
+
+const LANGUAGES: Record<string, Language> = {
+  ".ts": "typescript",
+  ".js": "typescript",
+  ".mjs": "typescript",
+  ".java": "java",
+  ".py": "python",
+  ".feature": "karate",
+};
+
+const IMPORT_LINE: Record<Language, RegExp | undefined> = {
+  typescript: /^import .*;?$/gm,
+  java: /^import .*;$/gm,
+  python: /^(?:import|from) \S.*$/gm,
+  karate: undefined,
+};
+
+// Resolve a path against the automation root, refusing anything that would
+// land outside it (through "..", an absolute path or a symlinked directory)
+export function resolveInsideRoot(
+  root: string,
+  path: string,
+  action: "write" | "read" = "write"
+): { absolute: string; relative: string } {
+  const realRoot = realpathSync(root);
+  const target = resolve(realRoot, path);
+
+  let existing = target;
+  while (!existsSync(existing)) {
+    existing = dirname(existing);
+  }
+  const realTarget = resolve(realpathSync(existing), relative(existing, target));
+  const relativePath = relative(realRoot, realTarget);
+
+  if (relativePath === "" || relativePath.startsWith("..") || isAbsolute(relativePath)) {
+    throw new ToolError("INVALID_ARGUMENTS", `Refusing to ${action} "${path}": it is outside the automation repo ${root}`, {
+      path,
+    });
+  }
+  return { absolute: realTarget, relative: relativePath };
+}
+
+function blockEnd(source: string, open: number): number {
+  let end = findClosing(source, open) + 1;
+  if (source[end] === ";") end++;
+  return end;
+}
+
+function extractBlocks(source: string, language: Language): TestBlock[] {
+  const blocks: TestBlock[] = [];
+
+  switch (language) {
+    case "typescript":
+      for (const match of source.matchAll(/^[ \t]*(?:test|it)(?:\.only|\.skip)?\(\s*(['"`])(.*?)\1/gm)) {
+        const open = source.indexOf("(", match.index!);
+        blocks.push({ name: match[2], text: source.slice(match.index!, blockEnd(source, open)) });
+      }
+      break;
+    case "java":
+      for (const match of source.matchAll(/^[ \t]*@Test\b/gm)) {
+        const declaration = /\bvoid\s+(\w+)\s*\(/g;
+        declaration.lastIndex = match.index!;
+        const method = declaration.exec(source);
+        if (!method) continue;
+        const paramsEnd = findClosing(source, method.index + method[0].length - 1);
+        const bodyStart = source.indexOf("{", paramsEnd);
+        blocks.push({ name: method[1], text: source.slice(match.index!, blockEnd(source, bodyStart)) });
+      }
+      break;
+    case "python":
+      for (const match of source.matchAll(/^([ \t]*)(?:@.*\n[ \t]*)*(?:async )?def (test_\w+)\(/gm)) {
+        const indent = match[1].length;
+        const classHeader = indent > 0 ? pytestClass(source, match.index!, indent) : undefined;
+        if (indent > 0 && !classHeader) {
+          continue; // a nested function, not a test
+        }
+        // The body ends at the next line indented no deeper than the def
+        const rest = source.slice(match.index! + match[0].length);
+        const next = rest.search(new RegExp(`\\n(?=[ \\t]{0,${indent}}[^\\s#])`));
+        const text = next === -1 ? rest : rest.slice(0, next);
+        blocks.push({
+          name: classHeader ? `${classHeader.match(/^class (\w+)/)![1]}::${match[2]}` : match[2],
+          text: (match[0] + text).trimEnd(),
+          classHeader,
+        });
+      }
+      break;
+    case "karate": {
+      const matches = [...source.matchAll(/^[ \t]*Scenario(?: Outline)?:\s*(.+)$/gm)];
+      matches.forEach((match, i) => {
+        const end = i + 1 < matches.length ? matches[i + 1].index! : source.length;
+        blocks.push({ name: match[1].trim(), text: source.slice(match.index!, end).trimEnd() });
+      });
+      break;
+    }
+  }
+  return blocks;
+}
+
+// The `class Test...:` line that the method at `index`, indented by `width`,
+// belongs to, or undefined when it is not in a pytest class
+function pytestClass(source: string, index: number, width: number): string | undefined {
+  for (const line of source.slice(0, index).split("\n").reverse()) {
+    const indent = line.match(/^[ \t]*/)![0].length;
+    if (line.trim() === "" || line.trimStart().startsWith("#") || indent >= width) {
+      continue;
+    }
+    return /^class Test\w*\b.*:\s*$/.test(line) ? line.trimEnd() : undefined;
+  }
+  return undefined;
+}
+
+// Put pytest methods at the end of their class (adding the class when the
+// file does not have it) and functions at the end of the file
+function insertPythonCases(source: string, added: TestBlock[]): string {
+  let content = source;
+  const functions = added.filter((block) => !block.classHeader).map((block) => block.text);
+  const classes = new Map<string, string[]>();
+  for (const block of added) {
+    if (block.classHeader) {
+      classes.set(block.classHeader, [...(classes.get(block.classHeader) || []), block.text]);
+    }
+  }
+
+  for (const [header, methods] of classes) {
+    const start = content.search(new RegExp(`^class ${header.match(/^class (\w+)/)![1]}\\b`, "m"));
+    if (start === -1) {
+      functions.push(`${header}\n${methods.join("\n\n")}`);
+      continue;
+    }
+    const next = content.slice(start).search(/\n(?=[^\s#])/);
+    const end = next === -1 ? content.length : start + next;
+    const after = content.slice(end);
+    content = `${content.slice(0, end).trimEnd()}\n\n${methods.join("\n\n")}\n${after ? "\n" : ""}${after}`;
+  }
+
+  return functions.length > 0 ? `${content.trimEnd()}\n\n\n${functions.join("\n\n\n")}\n` : content;
+}
+
+function mergeImports(existing: string, incoming: string, language: Language): string {
+  const pattern = IMPORT_LINE[language];
+  if (!pattern) {
+    return existing;
+  }
+  const present = new Set(existing.match(pattern) || []);
+  const missing = (incoming.match(pattern) || []).filter((line) => !present.has(line));
+  if (missing.length === 0) {
+    return existing;
+  }
+
+  const anchors = [...existing.matchAll(pattern)];
+  const last = anchors[anchors.length - 1];
+  if (last) {
+    const at = last.index! + last[0].length;
+    return `${existing.slice(0, at)}\n${missing.join("\n")}${existing.slice(at)}`;
+  }
+  const packageLine = language === "java" ? existing.match(/^package .*;$/m) : null;
+  if (packageLine) {
+    const at = packageLine.index! + packageLine[0].length;
+    return `${existing.slice(0, at)}\n\n${missing.join("\n")}${existing.slice(at)}`;
+  }
+  return `${missing.join("\n")}\n${existing}`;
+}
+
+// Strip the indentation cases had inside an incoming describe block
+function dedent(text: string): string {
+  const indents = text.match(/^[ \t]*(?=\S)/gm) || [];
+  const width = Math.min(...indents.map((indent) => indent.length));
+  return width > 0 && width < Infinity ? text.replace(new RegExp(`^[ \\t]{${width}}`, "gm"), "") : text;
+}
+
+// The closing brace of the last top-level describe() callback, or undefined
+// for a file of top-level test() calls, which new cases are appended to
+function describeClosing(source: string): number | undefined {
+  const describe = [...source.matchAll(/^(?:test\.)?describe(?:\.\w+)*\(/gm)].pop();
+  if (!describe) {
+    return undefined;
+  }
+  const close = findClosing(source, describe.index! + describe[0].length - 1);
+  const brace = source.lastIndexOf("}", close);
+  return brace > describe.index! ? brace : undefined;
+}
+
+// Add the test cases from `incoming` that `existing` does not have yet,
+// placing them at the end of the describe block or class, or of the file
+export function mergeTestCases(
+  existing: string,
+  incoming: string,
+  filename: string
+): { content: string; added: string[]; existing: string[] } | undefined {
+  const language = LANGUAGES[extname(filename)];
+  if (!language) {
+    return undefined;
+  }
+  const current = extractBlocks(existing, language);
+  const candidates = extractBlocks(incoming, language);
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const names = new Set(current.map((block) => block.name));
+  const added = candidates.filter((block) => !names.has(block.name));
+  const duplicates = candidates.filter((block) => names.has(block.name)).map((block) => block.name);
+  if (added.length === 0) {
+    return { content: existing, added: [], existing: duplicates };
+  }
+
+  let content = mergeImports(existing, incoming, language);
+  const insertion = added.map((block) => block.text).join("\n\n");
+
+  if (language === "python") {
+    content = insertPythonCases(content, added);
+  } else if (language === "typescript" || language === "java") {
+    const closing = language === "typescript" ? describeClosing(content) : content.lastIndexOf("}");
+    if (closing !== undefined && closing >= 0) {
+      const before = content.slice(0, closing).trimEnd();
+      content = `${before}\n\n${insertion}\n${content.slice(closing)}`;
+    } else {
+      content = `${content.trimEnd()}\n\n${dedent(insertion)}\n`;
+    }
+  } else {
+    content = `${content.trimEnd()}\n\n${insertion}\n`;
+  }
+
+  return { content, added: added.map((block) => block.name), existing: duplicates };
+}
+
+async function git(root: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", ["-C", root, ...args]);
+    return stdout.trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed in ${root}: ${stderr || error}`);
+  }
+}
+
+// Refuse names git would read as an option or reject as a branch
+async function checkBranchName(root: string, branch: string): Promise<void> {
+  const invalid = new ToolError("INVALID_ARGUMENTS", `"${branch}" is not a valid git branch name`, { branch });
+  if (branch.startsWith("-")) {
+    throw invalid;
+  }
+  try {
+    await execFileAsync("git", ["-C", root, "check-ref-format", "--branch", branch]);
+  } catch {
+    throw invalid;
+  }
+}
+
+// The file at `path` on `branch`, or undefined when the branch does not have it
+async function readOnBranch(root: string, branch: string, path: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync("git", ["-C", root, "show", `${branch}:./${path}`], {
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout;
+  } catch {
+    return undefined;
+  }
+}
+
+// Write (or preview) a generated test file inside an automation repository
+export async function writeTestFile(
+  root: string,
+  path: string,
+  content: string,
+  options: WriteTestOptions = {}
+): Promise<WriteTestResult> {
+  const target = resolveInsideRoot(root, path);
+  const onConflict = options.onConflict || "merge";
+  if (options.branch) {
+    await checkBranchName(root, options.branch);
+  }
+
+  // Merge against the file as it is on the target branch, not on whatever
+  // happens to be checked out. A dry run reads it from the branch instead
+  // of switching to it.
+  const branchExists = options.branch ? !!(await git(root, ["branch", "--list", options.branch])) : false;
+  if (options.branch && !options.dryRun) {
+    await git(root, branchExists ? ["switch", options.branch] : ["switch", "-c", options.branch]);
+  }
+  const previous =
+    options.branch && options.dryRun && branchExists
+      ? await readOnBranch(root, options.branch, target.relative)
+      : existsSync(target.absolute)
+        ? await readFile(target.absolute, "utf-8")
+        : undefined;
+
+  let next = content;
+  let action: WriteTestResult["action"] = "created";
+  let addedCases: string[] = [];
+  let existingCases: string[] = [];
+
+  if (previous !== undefined) {
+    if (onConflict === "fail") {
+      throw new ToolError("WRITE_CONFLICT", `${target.relative} already exists; use onConflict "merge" or "overwrite"`, {
+        path: target.relative,
+      });
+    }
+    if (onConflict === "merge") {
+      const merged = mergeTestCases(previous, content, target.absolute);
+      if (!merged) {
+        throw new ToolError(
+          "WRITE_CONFLICT",
+          `Cannot merge into ${target.relative}: no test cases recognised for this file type; use onConflict "overwrite"`,
+          { path: target.relative }
+        );
+      }
+      next = merged.content;
+      addedCases = merged.added;
+      existingCases = merged.existing;
+      action = merged.added.length > 0 ? "merged" : "unchanged";
+    } else {
+      action = previous === content ? "unchanged" : "overwritten";
+    }
+  } else {
+    const language = LANGUAGES[extname(target.absolute)];
+    addedCases = language ? extractBlocks(content, language).map((block) => block.name) : [];
+  }
+
+  const diff = Diff.createTwoFilesPatch(
+    previous === undefined ? "/dev/null" : `a/${target.relative}`,
+    `b/${target.relative}`,
+    previous || "",
+    next
+  );
+  const result: WriteTestResult = {
+    path: target.absolute,
+    relativePath: target.relative,
+    action,
+    dryRun: !!options.dryRun,
+    addedCases,
+    existingCases,
+    diff,
+  };
+
+  if (options.branch && !options.dryRun) {
+    result.git = { branch: options.branch };
+  }
+  if (options.dryRun || action === "unchanged") {
+    return result;
+  }
+
+  await mkdir(dirname(target.absolute), { recursive: true });
+  await writeFile(target.absolute, next, "utf-8");
+
+  if (options.commit) {
+    await git(root, ["add", "--", target.relative]);
+    await git(root, [
+      "commit",
+      "-m",
+      options.commitMessage || `Add API tests in ${target.relative}`,
+      "--",
+      target.relative,
+    ]);
+    result.git = { ...result.git, commit: await git(root, ["rev-parse", "HEAD"]) };
+  }
+
+  return result;
+}
@@ -0,0 +1,92 @@
+// Shared types used across the server modules
+
+export type Framework = "spring" | "express" | "nestjs" | "fastapi" | "gin";
+
+// A file changed between two refs, normalized across repository providers
+export interface ChangedFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+  previousFilename?: string;
+}
+
+export interface CommitSummary {
+  sha: string;
+  message: string;
+  author?: string;
+  date?: string;
+  url?: string;
+}
+
+export interface Comparison {
+  status: string;
+  aheadBy: number;
+  behindBy: number;
+  totalCommits: number;
+  mergeBaseSha?: string;
+  files: ChangedFile[];
+  commits: CommitSummary[];
+  truncated: boolean; // files or commits are incomplete, or files were rebuilt from single commits
+}
+
+export interface TagSummary {
+  name: string;
+  sha: string; // the commit the tag points at
+}
+
+export interface ReleaseSummary {
+  tagName: string;
+  name?: string;
+  draft: boolean;
+  prerelease: boolean;
+  publishedAt?: string;
+  url?: string;
+}
+
+export interface PullRequestSummary {
+  number: number;
+  title: string;
+  state: string;
+  author?: string;
+  createdAt: string;
+  headBranch: string;
+  baseBranch: string;
+  url?: string;
+}
+
+export interface PullRequestReview {
+  reviewer: string;
+  state: string; // APPROVED, CHANGES_REQUESTED, COMMENTED, DISMISSED
+  submittedAt?: string;
+}
+
+export interface PullRequestDetails extends PullRequestSummary {
+  body: string;
+  draft: boolean;
+  merged: boolean;
+  labels: string[];
+  baseSha: string;
+  headSha: string;
+  requestedReviewers: string[];
+  reviews: PullRequestReview[];
+}
+
+export interface EndpointParameter {
+  name: string;
+  in: "path" | "query" | "header" | "body";
+  type: string;
+  required: boolean;
+  defaultValue?: string;
+}
+
+export interface ApiEndpoint {
+  method: string;
+  path: string;
+  handler: string;
+  lineNumber: number;
+  handlerName?: string;
+  returnType?: string;
+  parameters?: EndpointParameter[];
+}
@@ -0,0 +1,101 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Octokit } from "@octokit/rest";
+import { afterEach, describe, expect, it } from "vitest";
+import { installResponseCache, isImmutableUrl, ResponseCache, trackCacheUsage } from "../src/cache.js";
+
+const SHA = "b858c7f996ca1b5f3f64b307c001e3d06a829c04";
+const OTHER_SHA = "9118eae17789b9c00a0e0368fc97b818eb2e09a6";
+const API = "https://api.github.com/repos/acme/campaign-service";
+
+describe("isImmutableUrl", () => {
+  it("pins contents, trees and commits read at a SHA", () => {
+    expect(isImmutableUrl(`${API}/contents/README.md?ref=${SHA}`)).toBe(true);
+    expect(isImmutableUrl(`${API}/git/trees/${SHA}?recursive=true`)).toBe(true);
+    expect(isImmutableUrl(`${API}/contents/README.md?ref=main`)).toBe(false);
+  });
+
+  it("pins a comparison only when both sides are SHAs", () => {
+    expect(isImmutableUrl(`${API}/compare/${OTHER_SHA}...${SHA}?per_page=100&page=1`)).toBe(true);
+    expect(isImmutableUrl(`${API}/compare/${SHA}...main?per_page=100&page=1`)).toBe(false);
+    expect(isImmutableUrl(`${API}/compare/main...${SHA}`)).toBe(false);
+    expect(isImmutableUrl(`${API}/compare/${SHA}...feature%2Fbudget`)).toBe(false);
+  });
+});
+
+describe("installResponseCache", () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    rmSync(directory!, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  // An Octokit whose requests are answered by `respond`, counting them
+  function cachedOctokit(respond: (headers: Headers) => Response, token?: string) {
+    directory ??= mkdtempSync(join(tmpdir(), "api-test-mcp-cache-"));
+    const requests: Headers[] = [];
+    const octokit = new Octokit({
+      request: {
+        fetch: async (_url: string, init: RequestInit) => {
+          const headers = new Headers(init.headers);
+          requests.push(headers);
+          return respond(headers);
+        },
+      },
+    });
+    installResponseCache(octokit, new ResponseCache(directory, 1024 * 1024), token);
+    return { octokit, requests };
+  }
+
+  function json(data: unknown, etag: string): Response {
+    return new Response(JSON.stringify(data), { status: 200, headers: { "content-type": "application/json", etag } });
+  }
+
+  it("revalidates a comparison between a SHA and a branch instead of serving it from disk", async () => {
+    let head = "first";
+    const { octokit, requests } = cachedOctokit((headers) =>
+      headers.get("if-none-match") === `"${head}"`
+        ? new Response(null, { status: 304 })
+        : json({ status: "ahead", head }, `"${head}"`)
+    );
+    const compare = () =>
+      trackCacheUsage(() =>
+        octokit.repos.compareCommitsWithBasehead({ owner: "acme", repo: "campaign-service", basehead: `${SHA}...main` })
+      );
+
+    expect((await compare()).usage).toMatchObject({ misses: 1 });
+    const unchanged = await compare();
+    expect(unchanged.usage).toMatchObject({ hits: 0, revalidated: 1 });
+    expect(unchanged.result.data).toMatchObject({ head: "first" });
+
+    head = "second";
+    const moved = await compare();
+    expect(moved.result.data).toMatchObject({ head: "second" });
+    expect(requests).toHaveLength(3);
+  });
+
+  it("serves a file read at a SHA from disk", async () => {
+    const { octokit, requests } = cachedOctokit(() => json({ type: "file", content: "" }, '"blob"'));
+    const read = () =>
+      trackCacheUsage(() => octokit.repos.getContent({ owner: "acme", repo: "campaign-service", path: "README.md", ref: SHA }));
+
+    await read();
+    expect((await read()).usage).toMatchObject({ hits: 1 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("does not serve a response fetched with one token to another", async () => {
+    const respond = () => json({ type: "file", content: "" }, '"blob"');
+    const first = cachedOctokit(respond, "token-a");
+    const second = cachedOctokit(respond, "token-b");
+    const read = (octokit: Octokit) =>
+      trackCacheUsage(() => octokit.repos.getContent({ owner: "acme", repo: "campaign-service", path: "README.md", ref: SHA }));
+
+    await read(first.octokit);
+    expect((await read(second.octokit)).usage).toMatchObject({ hits: 0, misses: 1 });
+    expect((await read(first.octokit)).usage).toMatchObject({ hits: 1 });
+    expect([first.requests.length, second.requests.length]).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { detectApiChanges, extractApiEndpoints } from "../src/endpoints.js";
+import type { ChangedFile } from "../src/types.js";
+
+function changed(filename: string, patch?: string): ChangedFile {
+  return { filename, status: "modified", additions: 1, deletions: 1, patch };
+}
+
+function routes(content: string, filename: string): string[] {
+  return extractApiEndpoints(content, filename).map((e) => `${e.method} ${e.path} :${e.lineNumber}`);
+}
+
+describe("detectApiChanges", () => {
+  const spring = { apiPatterns: ["src/routes/**"], framework: "spring" as const };
+
+  it("keeps only API files, leaving out tests and docs", () => {
+    const files = [
+      changed("README.md", "+@GetMapping"),
+      changed("src/test/java/acme/controller/CampaignControllerTest.java", "+  @GetMapping(\"/a\")"),
+      changed("src/main/java/acme/controller/CampaignController.java", "+  @GetMapping(\"/a\")"),
+      changed("src/routes/users.ts", "+router.get('/users', list);"),
+    ];
+    expect(detectApiChanges(files, spring).map((f) => f.filename)).toEqual([
+      "src/main/java/acme/controller/CampaignController.java",
+      "src/routes/users.ts",
+    ]);
+  });
+
+  it("picks route annotations and calls out of the patch", () => {
+    const [file] = detectApiChanges(
+      [
+        changed(
+          "src/main/java/acme/controller/CampaignController.java",
+          [
+            "@@ -10,3 +10,4 @@",
+            "-  @PostMapping(\"/b\")",
+            "+  @PutMapping(\"/b\")",
+            "+  private int retries;",
+            "+  @QueryMapping",
+          ].join("\n")
+        ),
+      ],
+      spring
+    );
+    expect(file.changes).toEqual(["-  @PostMapping(\"/b\")", "+  @PutMapping(\"/b\")", "+  @QueryMapping"]);
+  });
+
+  it("recognizes the route styles of other frameworks", () => {
+    const [file] = detectApiChanges(
+      [
+        changed(
+          "src/routes/handlers.ts",
+          [
+            "+app.post('/orders', create);",
+            "+router.delete('/orders/:id', remove);",
+            "+  [HttpGet]",
+            "+def get(self, request):",
+            "+func (h *Handler) GetOrder(c *gin.Context) {",
+            "+const total = orders.length;",
+          ].join("\n")
+        ),
+      ],
+      spring
+    );
+    expect(file.changes).toEqual([
+      "+app.post('/orders', create);",
+      "+router.delete('/orders/:id', remove);",
+      "+  [HttpGet]",
+      "+def get(self, request):",
+      "+func (h *Handler) GetOrder(c *gin.Context) {",
+    ]);
+  });
+
+  it("treats every changed definition in a GraphQL schema as API surface, but not comments or headers", () => {
+    const patch = [
+      "--- a/schema.graphqls",
+      "+++ b/schema.graphqls",
+      "@@ -1 +1 @@",
+      "-  status: String",
+      "+  # the new name",
+      "+  state: String",
+      " }",
+    ].join("\n");
+    const [file] = detectApiChanges([changed("src/main/resources/graphql/schema.graphqls", patch)], spring);
+    expect(file.changes).toEqual(["-  status: String", "+  state: String"]);
+  });
+
+  it("treats every changed proto field as API surface, but not comments or blank lines", () => {
+    const patch = ["+  // order id", "+  string id = 1;", "+", "-  int64 total = 2;"].join("\n");
+    const [file] = detectApiChanges([changed("proto/orders/v1/orders.proto", patch)], spring);
+    expect(file.changes).toEqual(["+  string id = 1;", "-  int64 total = 2;"]);
+  });
+
+  it("lists files without a patch (binary or too large) with no changes", () => {
+    expect(detectApiChanges([changed("src/main/java/acme/controller/Big.java")], spring)).toEqual([
+      { filename: "src/main/java/acme/controller/Big.java", status: "modified", changes: [], isApiFile: true },
+    ]);
+  });
+});
+
+describe("extractApiEndpoints", () => {
+  it("composes Spring class prefixes, constants, path lists and request methods", () => {
+    const controller = `@RestController
+@RequestMapping(BASE)
+public class OrderController {
+  private static final String BASE = "/api/v1/orders";
+  // @GetMapping("/commented-out")
+  /* @PostMapping("/also-commented-out") */
+  @GetMapping({"/open", "/recent"})
+  public List<Order> list() { return orders; }
+
+  @RequestMapping(value = "/{id}", method = {RequestMethod.PUT, RequestMethod.PATCH})
+  public Order update(@PathVariable String id, @RequestBody OrderRequest request) { return null; }
+}`;
+    expect(routes(controller, "OrderController.java")).toEqual([
+      "GET /api/v1/orders/open :7",
+      "GET /api/v1/orders/recent :7",
+      "PUT /api/v1/orders/{id} :10",
+      "PATCH /api/v1/orders/{id} :10",
+    ]);
+    expect(extractApiEndpoints(controller, "OrderController.java")[2]).toMatchObject({
+      handlerName: "update",
+      returnType: "Order",
+      parameters: [
+        { name: "id", in: "path", type: "String", required: true },
+        { name: "request", in: "body", type: "OrderRequest", required: true },
+      ],
+    });
+  });
+
+  it("ignores mapping annotations inside string, char and text-block literals", () => {
+    const controller = `@RestController
+public class DocsController {
+  private static final String EXAMPLE = "@GetMapping(\\"/string\\")";
+  private static final String BLOCK = """
+      @PostMapping("/text-block")
+      """;
+  private static final char AT = '@';
+
+  @GetMapping("/docs")
+  public String docs() { return EXAMPLE + BLOCK; }
+}`;
+    expect(routes(controller, "DocsController.java")).toEqual(["GET /docs :9"]);
+  });
+
+  it("reads Spring for GraphQL handlers in Java controllers", () => {
+    const controller = `@Controller
+public class OrderGraphQlController {
+  @QueryMapping
+  public Order order(@Argument String id) { return null; }
+}`;
+    expect(routes(controller, "OrderGraphQlController.java")).toEqual(["QUERY order :3"]);
+  });
+
+  it("finds nothing in a Java class without mappings", () => {
+    expect(extractApiEndpoints("public class Order {\n  private String id;\n}", "Order.java")).toEqual([]);
+  });
+
+  it("reports each Express, FastAPI and Gin route once", () => {
+    expect(routes("router.post('/users/:id', update);\napp.get(\"/health\", ok);", "routes.ts")).toEqual([
+      "POST /users/:id :1",
+      "GET /health :2",
+    ]);
+    expect(routes('@app.get("/items/{item_id}")\ndef read_item(item_id): ...', "main.py")).toEqual([
+      "GET /items/{item_id} :1",
+    ]);
+    expect(routes('r.GET("/ping", ping)\nr.POST("/users", create)', "main.go")).toEqual([
+      "GET /ping :1",
+      "POST /users :2",
+    ]);
+  });
+
+  it("lists the operations of a GraphQL schema", () => {
+    const schema = "type Query {\n  order(id: ID!): Order\n}\n\ntype Mutation {\n  cancelOrder(id: ID!): Order\n}";
+    expect(routes(schema, "schema.graphqls")).toEqual(["QUERY order :2", "MUTATION cancelOrder :6"]);
+  });
+
+  it("lists the RPCs of a proto service with their full names", () => {
+    const proto = 'syntax = "proto3";\npackage orders.v1;\n\nservice Orders {\n  rpc GetOrder(GetOrderRequest) returns (Order);\n}';
+    expect(routes(proto, "orders.proto")).toEqual(["GRPC /orders.v1.Orders/GetOrder :5"]);
+  });
+});
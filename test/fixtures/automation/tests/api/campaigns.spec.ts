@@ -0,0 +1,15 @@
+import { expect, test } from "@playwright/test";
+
+test.describe("Campaigns", () => {
+  test("lists campaigns", async ({ request }) => {
+    const response = await request.get("/api/v1/campaigns?page=0");
+    expect(response.status()).toBe(200);
+  });
+
+  test("creates a campaign", async ({ request }) => {
+    const response = await request.post("/api/v1/campaigns", {
+      data: { name: "Summer sale", dailyBudget: 50000 },
+    });
+    expect(response.status()).toBe(200);
+  });
+});
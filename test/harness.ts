@@ -0,0 +1,82 @@
+import { cpSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { stringify as stringifyYaml } from "yaml";
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+export const FIXTURES = join(ROOT, "test", "fixtures");
+
+export interface ToolCall<T = unknown> {
+  isError: boolean;
+  data: T;
+  meta?: Record<string, unknown>;
+}
+
+export interface TestServer {
+  workDir: string;
+  automationRepoPath: string;
+  listTools(): Promise<string[]>;
+  call<T = unknown>(name: string, args?: Record<string, unknown>): Promise<ToolCall<T>>;
+  close(): Promise<void>;
+}
+
+// Run the server over stdio against a copy of the automation fixtures, with
+// its GitHub traffic replayed from `fixture` (test/fixtures/github/<fixture>.json).
+// The fixtures are synthetic: they were captured from a local stand-in for the
+// GitHub API serving made-up repositories, not from github.com.
+// GITHUB_FIXTURES_MODE=record sends the requests to GITHUB_API_URL (or GitHub)
+// instead and rewrites the fixture.
+export async function startServer(
+  fixture: string,
+  services: Array<Record<string, unknown>>
+): Promise<TestServer> {
+  const workDir = mkdtempSync(join(tmpdir(), "api-test-mcp-"));
+  const automationRepoPath = join(workDir, "automation");
+  cpSync(join(FIXTURES, "automation"), automationRepoPath, { recursive: true });
+
+  const apiHost = process.env.GITHUB_API_URL;
+  const configFile = join(workDir, "services.yaml");
+  writeFileSync(
+    configFile,
+    stringifyYaml(services.map((service) => ({ automationRepoPath, ...(apiHost ? { apiHost } : {}), ...service })))
+  );
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", "tsx", join(ROOT, "src", "index.ts"), "--config", configFile],
+    cwd: ROOT,
+    env: {
+      ...(process.env as Record<string, string>),
+      // Replays never send it, but validate_config warns about a missing token
+      GITHUB_TOKEN: process.env.GITHUB_TOKEN || "replay-token",
+      GITHUB_FIXTURES_MODE: process.env.GITHUB_FIXTURES_MODE || "replay",
+      GITHUB_FIXTURES_FILE: join(FIXTURES, "github", `${fixture}.json`),
+      GITHUB_MAX_RETRIES: "0",
+      CACHE_DIR: join(workDir, "cache"),
+      DEFAULT_BASE_BRANCH: "main",
+    },
+    stderr: "ignore",
+  });
+  const client = new Client({ name: "api-test-mcp-server-tests", version: "1.0.0" });
+  await client.connect(transport);
+
+  return {
+    workDir,
+    automationRepoPath,
+    async listTools() {
+      return (await client.listTools()).tools.map((tool) => tool.name);
+    },
+    async call<T>(name: string, args: Record<string, unknown> = {}): Promise<ToolCall<T>> {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as Array<{ type: string; text: string }>;
+      return { isError: result.isError === true, data: JSON.parse(content[0].text), meta: result._meta };
+    },
+    async close() {
+      await client.close();
+      rmSync(workDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { LocalGitProvider } from "../src/providers/local.js";
+
+describe("LocalGitProvider", () => {
+  let root: string;
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function git(...args: string[]): void {
+    execFileSync("git", ["-C", root, "-c", "user.name=test", "-c", "user.email=test@example.com", ...args]);
+  }
+
+  it("pairs patches with files whose names have spaces, quotes or non-ASCII characters", async () => {
+    root = mkdtempSync(join(tmpdir(), "api-test-mcp-local-"));
+    git("init", "-q", "-b", "main");
+    writeFileSync(join(root, "README.md"), "# orders\n");
+    git("add", ".");
+    git("commit", "-qm", "init");
+
+    const names = ["Order Controller.java", 'say "hi".ts', "café.py", "plain.ts"];
+    for (const name of names) {
+      writeFileSync(join(root, name), "one\ntwo\n");
+    }
+    git("add", ".");
+    git("commit", "-qm", "add files");
+
+    const { files } = await new LocalGitProvider(root).compareCommits("HEAD~1", "HEAD");
+    expect(files.map((file) => [file.filename, file.additions, file.patch])).toEqual(
+      [...names].sort().map((name) => [name, 2, "@@ -0,0 +1,2 @@\n+one\n+two"])
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { classifyFile, isApiFile } from "../src/patterns.js";
+
+describe("classifyFile", () => {
+  it("matches a pattern without glob characters anywhere in the path", () => {
+    const config = { apiPatterns: ["controller", "api/v1", "!Legacy"] };
+    expect(isApiFile("src/main/java/acme/controller/CampaignController.java", config)).toBe(true);
+    expect(isApiFile("src/main/java/acme/campaigncontroller.java", config)).toBe(true);
+    expect(isApiFile("docs/api/v1/campaigns.md", config)).toBe(true);
+    expect(isApiFile("src/main/java/acme/CampaignController.java", config)).toBe(false);
+    expect(classifyFile("src/main/java/acme/controller/LegacyController.java", config)).toMatchObject({
+      isApiFile: false,
+      matchedPattern: { pattern: "controller", source: "apiPatterns" },
+      excludedBy: { pattern: "Legacy", source: "apiPatterns" },
+    });
+  });
+
+  it("anchors glob patterns, and matches those without a slash against the file name", () => {
+    const config = { apiPatterns: ["src/api/*", "*Controller.java"] };
+    expect(isApiFile("src/api/campaigns.ts", config)).toBe(true);
+    expect(isApiFile("src/api/v1/campaigns.ts", config)).toBe(false);
+    expect(isApiFile("lib/src/api/campaigns.ts", config)).toBe(false);
+    expect(isApiFile("src/main/java/acme/CampaignController.java", config)).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import type { ServiceConfig } from "../src/config.js";
+import { getPrompt, listPrompts, type PromptContext } from "../src/prompts.js";
+
+const SERVICE: ServiceConfig = {
+  name: "campaign-service",
+  repoOwner: "acme",
+  repoName: "campaign-service",
+  automationRepoPath: "/automation",
+  apiPatterns: ["src/main/java/**/controller/**"],
+};
+
+// A context whose tools answer with `results[name]`, recording each call
+function promptContext(results: Record<string, unknown> = {}) {
+  const calls: Array<{ name: string; args: Record<string, unknown> }> = [];
+  const context: PromptContext = {
+    services: [SERVICE],
+    baseBranchOf: () => "main",
+    async callTool(name, args) {
+      calls.push({ name, args });
+      return { content: [{ type: "text", text: JSON.stringify(results[name] ?? {}) }] };
+    },
+  };
+  return { context, calls };
+}
+
+function texts(messages: Array<{ content: { type: string; text?: string } }>): string[] {
+  return messages.map((message) => message.content.text ?? "");
+}
+
+describe("listPrompts", () => {
+  it("lists each prompt with its arguments but not its schema", () => {
+    const prompts = listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "write_tests_for_pr",
+      "review_release_changes",
+      "find_untested_endpoints",
+    ]);
+    expect(prompts[0].arguments).toEqual([
+      { name: "serviceName", description: "Name of the service", required: true },
+      { name: "number", description: "Pull request number", required: true },
+    ]);
+    expect(Object.keys(prompts[0])).not.toContain("run");
+  });
+});
+
+describe("getPrompt", () => {
+  it("rejects missing or malformed arguments", async () => {
+    const { context, calls } = promptContext();
+    await expect(getPrompt("write_tests_for_pr", { serviceName: "campaign-service" }, context)).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining("Invalid arguments for write_tests_for_pr: number:"),
+    });
+    await expect(
+      getPrompt("write_tests_for_pr", { serviceName: "campaign-service", number: "twelve" }, context)
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    expect(calls).toEqual([]);
+  });
+
+  it("rejects unknown prompts and services", async () => {
+    const { context } = promptContext();
+    await expect(getPrompt("nope", {}, context)).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining("Available prompts: write_tests_for_pr"),
+    });
+    await expect(getPrompt("review_release_changes", { serviceName: "billing" }, context)).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('Service "billing" not found. Configured services: campaign-service'),
+    });
+  });
+
+  it("runs the pull request analysis and test drafts for write_tests_for_pr", async () => {
+    const { context, calls } = promptContext({
+      analyze_pull_request: { comparison: { base: "main", head: "feature/budget" } },
+      generate_tests_for_changes: { tests: [] },
+    });
+    const result = await getPrompt("write_tests_for_pr", { serviceName: "Campaign-Service", number: "12" }, context);
+
+    expect(calls).toEqual([
+      { name: "analyze_pull_request", args: { serviceName: "campaign-service", number: 12 } },
+      {
+        name: "generate_tests_for_changes",
+        args: { serviceName: "campaign-service", baseBranch: "main", headBranch: "feature/budget" },
+      },
+    ]);
+    const [instructions, analysis, drafts] = texts(result.messages);
+    expect(instructions).toContain("Write API tests for pull request #12 of campaign-service (acme/campaign-service).");
+    expect(analysis).toContain('Result of `analyze_pull_request` with {"serviceName":"campaign-service","number":12}:');
+    expect(drafts).toContain("Result of `generate_tests_for_changes`");
+  });
+
+  it("compares up to the base branch for review_release_changes", async () => {
+    const { context, calls } = promptContext();
+    const result = await getPrompt("review_release_changes", { serviceName: "campaign-service", from: "v1.0.0" }, context);
+    expect(calls).toEqual([{ name: "compare_versions", args: { serviceName: "campaign-service", from: "v1.0.0", to: "main" } }]);
+    expect(texts(result.messages)[0]).toContain("between v1.0.0 and main");
+  });
+
+  it("covers every service when find_untested_endpoints has no serviceName", async () => {
+    const { context, calls } = promptContext();
+    const result = await getPrompt("find_untested_endpoints", undefined, context);
+    expect(calls).toEqual([{ name: "find_untested_endpoints", args: {} }]);
+    expect(texts(result.messages)[0]).toContain("every configured service");
+  });
+});
@@ -0,0 +1,261 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ErrorCode, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ServiceConfig } from "../src/config.js";
+import { ToolError } from "../src/errors.js";
+import type { RepositoryProvider } from "../src/providers/index.js";
+import {
+  completeResourceArgument,
+  listServiceResources,
+  readServiceResource,
+  resourceVersion,
+  ResourceSubscriptions,
+  type ResourceContext,
+} from "../src/resources.js";
+
+const RESOURCE_NOT_FOUND = -32002;
+const CONTROLLER = "src/main/java/acme/controller/CampaignController.java";
+
+// An in-memory repository with one branch, whose head can be moved
+class FakeProvider implements RepositoryProvider {
+  readonly kind = "github";
+  head = "1111111111111111111111111111111111111111";
+  files: Record<string, string> = {
+    [CONTROLLER]: `@RestController
+@RequestMapping("/api/v1/campaigns")
+public class CampaignController {
+  @GetMapping("/{id}")
+  public String get(@PathVariable String id) { return id; }
+}`,
+    "README.md": "# campaign-service\n",
+  };
+  failure: Error | undefined;
+
+  async getFileContent(path: string, ref: string): Promise<string> {
+    this.check(ref);
+    if (!(path in this.files)) {
+      throw new ToolError("FILE_NOT_FOUND", `${path} does not exist at ${ref}`, { path, ref });
+    }
+    return this.files[path];
+  }
+
+  async listFiles(ref: string): Promise<string[]> {
+    this.check(ref);
+    return Object.keys(this.files).sort();
+  }
+
+  async listCommits(options: { ref?: string }) {
+    this.check(options.ref || "main");
+    return { items: [{ sha: this.head, author: "dev", date: "2024-01-01T00:00:00Z", message: "change" }], truncated: false };
+  }
+
+  private check(ref: string): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+    if (ref !== "main" && ref !== this.head) {
+      throw new ToolError("REF_NOT_FOUND", `Unknown ref "${ref}"`, { ref });
+    }
+  }
+
+  compareCommits(): never {
+    throw new Error("not used");
+  }
+  listTags(): never {
+    throw new Error("not used");
+  }
+  listReleases(): never {
+    throw new Error("not used");
+  }
+  listPullRequests(): never {
+    throw new Error("not used");
+  }
+  getPullRequest(): never {
+    throw new Error("not used");
+  }
+  listPullRequestFiles(): never {
+    throw new Error("not used");
+  }
+}
+
+let automationRepoPath: string;
+let provider: FakeProvider;
+let context: ResourceContext;
+
+beforeEach(() => {
+  automationRepoPath = mkdtempSync(join(tmpdir(), "api-test-mcp-resources-"));
+  mkdirSync(join(automationRepoPath, "tests", "api"), { recursive: true });
+  writeFileSync(join(automationRepoPath, "tests", "api", "campaigns.spec.ts"), "test('lists campaigns', async () => {});\n");
+  writeFileSync(join(automationRepoPath, "package.json"), "{}\n");
+  provider = new FakeProvider();
+  const service: ServiceConfig = {
+    name: "campaign-service",
+    repoOwner: "acme",
+    repoName: "campaign-service",
+    automationRepoPath,
+    apiPatterns: ["src/**/controller/**"],
+  };
+  context = { services: [service], baseBranchOf: () => "main", providerFor: () => provider };
+});
+
+afterEach(() => {
+  rmSync(automationRepoPath, { recursive: true, force: true });
+});
+
+function parsed<T>(result: ReadResourceResult): T {
+  const [content] = result.contents;
+  return JSON.parse("text" in content ? content.text : "");
+}
+
+describe("listServiceResources", () => {
+  it("lists the automation repo, endpoint catalog and OpenAPI document of each service", () => {
+    expect(listServiceResources(context).map((resource) => resource.uri)).toEqual([
+      "automation://campaign-service",
+      "endpoints://campaign-service/main",
+      "openapi://campaign-service",
+    ]);
+  });
+
+  it("completes service names", () => {
+    expect(completeResourceArgument("service", "Camp", context.services)).toEqual(["campaign-service"]);
+    expect(completeResourceArgument("ref", "m", context.services)).toEqual([]);
+  });
+});
+
+describe("readServiceResource", () => {
+  it("reads repository files and lists directories through repo://", async () => {
+    const file = await readServiceResource(`repo://campaign-service/main/${CONTROLLER}`, context);
+    expect(file.contents[0]).toMatchObject({ mimeType: "text/x-java", text: provider.files[CONTROLLER] });
+
+    const listing = await readServiceResource("repo://campaign-service/main/src/", context);
+    expect(parsed<{ files: string[] }>(listing).files).toEqual([CONTROLLER]);
+  });
+
+  it("reports missing files, refs and services as unknown resources", async () => {
+    for (const uri of [
+      "repo://campaign-service/main/Missing.java",
+      "repo://campaign-service/nope/README.md",
+      "repo://campaign-service/main/docs/",
+      "openapi://billing-service",
+    ]) {
+      await expect(readServiceResource(uri, context)).rejects.toMatchObject({ code: RESOURCE_NOT_FOUND });
+    }
+    await expect(readServiceResource("ftp://campaign-service", context)).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+    });
+  });
+
+  it("builds the endpoint catalog and OpenAPI document from the controllers", async () => {
+    const catalog = parsed<{ endpoints: unknown[] }>(await readServiceResource("endpoints://campaign-service/main", context));
+    expect(catalog).toMatchObject({ ref: "main", files: 1, total: 1 });
+    expect(catalog.endpoints[0]).toMatchObject({ method: "GET", path: "/api/v1/campaigns/{id}", file: CONTROLLER, line: 4 });
+
+    const openapi = parsed<{ paths: object }>(await readServiceResource("openapi://campaign-service", context));
+    expect(Object.keys(openapi.paths)).toEqual(["/api/v1/campaigns/{id}"]);
+  });
+
+  it("keeps the tool error code of GitHub failures", async () => {
+    provider.failure = new ToolError("AUTH_FAILED", "GitHub rejected the token");
+    for (const uri of ["openapi://campaign-service", "endpoints://campaign-service/main"]) {
+      await expect(readServiceResource(uri, context)).rejects.toMatchObject({
+        code: ErrorCode.InternalError,
+        data: { code: "AUTH_FAILED" },
+      });
+    }
+  });
+
+  it("reads automation files and lists test files, but nothing outside the repo", async () => {
+    const file = await readServiceResource("automation://campaign-service/tests/api/campaigns.spec.ts", context);
+    expect(file.contents[0]).toMatchObject({ mimeType: "text/x-typescript" });
+
+    const listing = parsed<{ files: string[] }>(await readServiceResource("automation://campaign-service", context));
+    expect(listing.files).toEqual(["package.json", "tests/api/campaigns.spec.ts"]);
+
+    await expect(readServiceResource("automation://campaign-service/..%2F..%2Fetc%2Fpasswd", context)).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+    });
+  });
+});
+
+describe("resourceVersion", () => {
+  it("is the commit of the ref for repository resources, and undefined for automation files", async () => {
+    expect(await resourceVersion("openapi://campaign-service", context)).toBe(provider.head);
+    expect(await resourceVersion("repo://campaign-service/main/README.md", context)).toBe(provider.head);
+    expect(await resourceVersion("automation://campaign-service/package.json", context)).toBeUndefined();
+    expect(await resourceVersion("repo://campaign-service/nope/README.md", context)).toBeUndefined();
+  });
+});
+
+describe("ResourceSubscriptions", () => {
+  const URI = "openapi://campaign-service";
+
+  function subscriptions() {
+    let reads = 0;
+    const watcher = new ResourceSubscriptions(
+      (uri) => {
+        reads++;
+        return readServiceResource(uri, context);
+      },
+      60_000,
+      (uri) => resourceVersion(uri, context)
+    );
+    const updates: string[] = [];
+    const subscriber = {
+      async sendResourceUpdated({ uri }: { uri: string }) {
+        updates.push(uri);
+      },
+    };
+    return { watcher, subscriber, updates, reads: () => reads };
+  }
+
+  it("only rebuilds a resource when the commit moves, and notifies when its content changed", async () => {
+    const { watcher, subscriber, updates, reads } = subscriptions();
+    await watcher.subscribe(URI, subscriber);
+
+    await watcher.check();
+    expect(reads()).toBe(1); // the baseline, nothing since
+    expect(updates).toEqual([]);
+
+    provider.head = "2222222222222222222222222222222222222222";
+    await watcher.check();
+    expect(reads()).toBe(2);
+    expect(updates).toEqual([]); // same content at the new commit
+
+    provider.files[CONTROLLER] = provider.files[CONTROLLER].replace('"/{id}"', '"/{campaignId}"');
+    provider.head = "3333333333333333333333333333333333333333";
+    await watcher.check();
+    expect(updates).toEqual([URI]);
+
+    await watcher.refresh();
+    expect(reads()).toBe(4);
+    watcher.close();
+  });
+
+  it("returns from subscribe before the first read finishes", async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const watcher = new ResourceSubscriptions(async (uri) => {
+      await blocked;
+      return readServiceResource(uri, context);
+    }, 60_000);
+    const subscribed = watcher.subscribe(URI, { sendResourceUpdated: async () => undefined });
+    const outcome = await Promise.race([subscribed.then(() => "subscribed"), blocked.then(() => "read")]);
+    expect(outcome).toBe("subscribed");
+    release();
+    watcher.close();
+  });
+
+  it("stops notifying after unsubscribe", async () => {
+    const { watcher, subscriber, updates } = subscriptions();
+    await watcher.subscribe(URI, subscriber);
+    await watcher.check();
+    watcher.unsubscribe(URI, subscriber);
+
+    provider.files[CONTROLLER] = provider.files[CONTROLLER].replace("@GetMapping", "@PostMapping");
+    provider.head = "2222222222222222222222222222222222222222";
+    await watcher.check();
+    expect(updates).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import type { LocatedEndpoint } from "../src/endpoint-diff.js";
+import { renderPlaywrightTest } from "../src/test-generation.js";
+
+const ENDPOINT: LocatedEndpoint = {
+  key: "GET /api/v1/campaigns/{campaignId}",
+  method: "GET",
+  path: "/api/v1/campaigns/{campaignId}",
+  file: "src/main/java/acme/controller/CampaignController.java",
+  lineNumber: 12,
+  handler: '@GetMapping("/{campaignId}")',
+  handlerName: "getCampaign",
+  signature: "",
+  parameters: [
+    { name: "campaignId", in: "path", type: "Long", required: true },
+    { name: "expand", in: "query", type: "String", required: true },
+  ],
+};
+
+describe("renderPlaywrightTest", () => {
+  it("types the request context in TypeScript suites", () => {
+    const { content } = renderPlaywrightTest("campaign-service", ENDPOINT, undefined);
+    expect(content).toContain("import { APIRequestContext } from '@playwright/test';");
+    expect(content).toContain("let apiContext: APIRequestContext;");
+  });
+
+  it("writes plain JavaScript for .js and .mjs suites", () => {
+    const { content, cases } = renderPlaywrightTest("campaign-service", ENDPOINT, undefined, "javascript");
+    expect(content).not.toContain("APIRequestContext");
+    expect(cases).toHaveLength(4);
+
+    const directory = mkdtempSync(join(tmpdir(), "api-test-mcp-generated-"));
+    try {
+      const file = join(directory, "get-campaign.spec.mjs");
+      writeFileSync(file, content);
+      expect(() => execFileSync(process.execPath, ["--check", file], { stdio: "pipe" })).not.toThrow();
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("leaves the cases that need a request body as fixme when the body cannot be resolved", () => {
+    const endpoint: LocatedEndpoint = {
+      ...ENDPOINT,
+      key: "PUT /api/v1/campaigns/{campaignId}",
+      method: "PUT",
+      parameters: [
+        { name: "campaignId", in: "path", type: "Long", required: true },
+        { name: "request", in: "body", type: "CampaignRequest", required: true },
+      ],
+    };
+    const { content, cases } = renderPlaywrightTest("campaign-service", endpoint, undefined);
+    expect(cases).toEqual([
+      "PUT /api/v1/campaigns/{campaignId} - should succeed with a valid request",
+      "path campaignId: non-numeric value - should be rejected",
+      "PUT /api/v1/campaigns/{campaignId} - should require authentication",
+    ]);
+    expect(content).toContain(
+      "  test.fixme('PUT /api/v1/campaigns/{campaignId} - should succeed with a valid request', async () => {\n" +
+        "    // Not generated: the request body (CampaignRequest) could not be resolved\n  });"
+    );
+    expect(content).toContain("test.fixme('path campaignId: non-numeric value - should be rejected'");
+    expect(content).toContain("const response = await unauthContext.put(url);");
+    expect(content).not.toContain("validBody");
+  });
+});
@@ -0,0 +1,178 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { mergeTestCases, writeTestFile } from "../src/test-writer.js";
+
+const INCOMING = `import { test, expect } from "@playwright/test";
+
+test.describe("campaigns", () => {
+  test("lists campaigns", async ({ request }) => {
+    expect((await request.get("/campaigns")).ok()).toBeTruthy();
+  });
+});
+`;
+
+describe("mergeTestCases", () => {
+  it("adds new cases at the end of the describe block", () => {
+    const existing = `import { test, expect } from "@playwright/test";
+
+test.describe("campaigns", () => {
+  test("creates a campaign", async ({ request }) => {
+    expect((await request.post("/campaigns")).ok()).toBeTruthy();
+  });
+});
+`;
+    expect(mergeTestCases(existing, INCOMING, "campaigns.spec.ts")).toEqual({
+      content: `import { test, expect } from "@playwright/test";
+
+test.describe("campaigns", () => {
+  test("creates a campaign", async ({ request }) => {
+    expect((await request.post("/campaigns")).ok()).toBeTruthy();
+  });
+
+  test("lists campaigns", async ({ request }) => {
+    expect((await request.get("/campaigns")).ok()).toBeTruthy();
+  });
+});
+`,
+      added: ["lists campaigns"],
+      existing: [],
+    });
+  });
+
+  it("appends new cases at the top level of a file without a describe block", () => {
+    const existing = `import { test, expect } from "@playwright/test";
+
+test("creates a campaign", async ({ request }) => {
+  expect((await request.post("/campaigns")).ok()).toBeTruthy();
+});
+`;
+    expect(mergeTestCases(existing, INCOMING, "campaigns.spec.ts")?.content).toBe(`import { test, expect } from "@playwright/test";
+
+test("creates a campaign", async ({ request }) => {
+  expect((await request.post("/campaigns")).ok()).toBeTruthy();
+});
+
+test("lists campaigns", async ({ request }) => {
+  expect((await request.get("/campaigns")).ok()).toBeTruthy();
+});
+`);
+  });
+  it("adds pytest methods to the end of their class and new classes to the end of the file", () => {
+    const existing = `import requests
+
+
+class TestCampaigns:
+    def test_create(self, api):
+        assert api.post("/campaigns").ok
+
+
+def test_health(api):
+    assert api.get("/health").ok
+`;
+    const incoming = `import requests
+
+
+class TestCampaigns:
+    def test_create(self, api):
+        assert api.post("/campaigns").ok
+
+    @pytest.mark.smoke
+    def test_list(self, api):
+        assert api.get("/campaigns").ok
+
+
+class TestBudgets:
+    def test_update(self, api):
+        assert api.put("/campaigns/1/budget").ok
+`;
+    expect(mergeTestCases(existing, incoming, "test_campaigns.py")).toEqual({
+      content: `import requests
+
+
+class TestCampaigns:
+    def test_create(self, api):
+        assert api.post("/campaigns").ok
+
+    @pytest.mark.smoke
+    def test_list(self, api):
+        assert api.get("/campaigns").ok
+
+
+def test_health(api):
+    assert api.get("/health").ok
+
+
+class TestBudgets:
+    def test_update(self, api):
+        assert api.put("/campaigns/1/budget").ok
+`,
+      added: ["TestCampaigns::test_list", "TestBudgets::test_update"],
+      existing: ["TestCampaigns::test_create"],
+    });
+  });
+});
+
+describe("writeTestFile", () => {
+  let root: string;
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function git(...args: string[]): string {
+    return execFileSync("git", ["-C", root, "-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+      encoding: "utf-8",
+    }).trim();
+  }
+
+  // An automation repo whose tests branch has a case that main does not
+  function automationRepo(): void {
+    root = mkdtempSync(join(tmpdir(), "api-test-mcp-writer-"));
+    git("init", "-q", "-b", "main");
+    writeFileSync(join(root, "campaigns.spec.ts"), 'import { test, expect } from "@playwright/test";\n');
+    git("add", ".");
+    git("commit", "-qm", "init");
+    git("switch", "-qc", "tests");
+    writeFileSync(
+      join(root, "campaigns.spec.ts"),
+      'import { test, expect } from "@playwright/test";\n\ntest("creates a campaign", async () => {});\n'
+    );
+    git("commit", "-qam", "add a case");
+    git("switch", "-q", "main");
+  }
+
+  it("merges into the file as it is on the target branch", async () => {
+    automationRepo();
+    const preview = await writeTestFile(root, "campaigns.spec.ts", INCOMING, { branch: "tests", dryRun: true });
+    expect(git("branch", "--show-current")).toBe("main");
+    expect(preview.diff).toContain(' test("creates a campaign"');
+
+    const result = await writeTestFile(root, "campaigns.spec.ts", INCOMING, { branch: "tests" });
+    expect(result).toMatchObject({ action: "merged", addedCases: ["lists campaigns"], git: { branch: "tests" } });
+    expect(git("branch", "--show-current")).toBe("tests");
+    expect(readFileSync(join(root, "campaigns.spec.ts"), "utf-8")).toContain('test("creates a campaign"');
+  });
+
+  it("reports conflicts and paths outside the repo with their codes", async () => {
+    automationRepo();
+    await expect(writeTestFile(root, "campaigns.spec.ts", INCOMING, { onConflict: "fail" })).rejects.toMatchObject({
+      code: "WRITE_CONFLICT",
+    });
+    writeFileSync(join(root, "notes.txt"), "notes\n");
+    await expect(writeTestFile(root, "notes.txt", "more notes\n")).rejects.toMatchObject({ code: "WRITE_CONFLICT" });
+    await expect(writeTestFile(root, "../escape.spec.ts", INCOMING)).rejects.toMatchObject({ code: "INVALID_ARGUMENTS" });
+  });
+
+  it("refuses branch names git would read as options or reject", async () => {
+    automationRepo();
+    for (const branch of ["--orphan", "bad..name"]) {
+      await expect(writeTestFile(root, "campaigns.spec.ts", INCOMING, { branch })).rejects.toMatchObject({
+        code: "INVALID_ARGUMENTS",
+      });
+    }
+    expect(git("branch", "--show-current")).toBe("main");
+  });
+});
@@ -0,0 +1,433 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { FIXTURES, startServer, type TestServer } from "./harness.js";
+
+// The GitHub responses in test/fixtures/github/tools.json are synthetic: they
+// were captured from a local stand-in for the GitHub API, serving made-up
+// repositories, not from github.com.
+//
+// acme/campaign-service: a Spring service with a GraphQL schema, a .proto
+// contract and an OpenAPI spec. main is tagged v1.0.0 and v1.1.0 (which added
+// DELETE); feature/budget (pull request #12) adds PUT .../budget, makes
+// advertiserId required when listing and changes both contracts.
+// acme/billing-service does not exist, so every request for it answers 404.
+const CONTROLLER = "src/main/java/com/acme/campaign/controller/CampaignController.java";
+const SERVICE = "campaign-service";
+const HEAD = "feature/budget";
+
+// The shape of a tool error, for the tests that read one
+interface Failure {
+  error: { code: string; message: string };
+}
+
+interface ApiChanges {
+  comparison: unknown;
+  apiChanges: Array<{ filename: string; changes: string[] }>;
+  classification: { summary: unknown; gate: unknown };
+}
+
+interface EndpointDiff {
+  summary: unknown;
+  added: Array<{ key: string }>;
+  signatureChanged: Array<{ key: string }>;
+}
+
+interface EndpointModels {
+  models: Array<{
+    request: { type: string; schema: { required: string[] }; sample: unknown; cases: Array<{ name: string }> };
+  }>;
+}
+
+interface PullRequestAnalysis {
+  linkedIssues: unknown;
+  reviews: unknown;
+  endpointChanges: { added: Array<{ key: string }> };
+}
+
+interface Releases {
+  latest?: unknown;
+  tags: Array<{ name: string }>;
+}
+
+interface VersionComparison {
+  from: unknown;
+  to: unknown;
+  classification: { changes: Array<{ id: string }> };
+  changelog: string;
+}
+
+interface UntestedEndpoints {
+  services: Array<{ summary: unknown; uncovered: Array<{ method: string; path: string }> }>;
+}
+
+interface GeneratedTests {
+  layout: unknown;
+  tests: Array<{ method: string; path: string; targetPath: string; cases: string[] }>;
+}
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startServer("tools", [
+    { name: SERVICE, repoOwner: "acme", repoName: "campaign-service", framework: "spring" },
+    { name: "billing-service", repoOwner: "acme", repoName: "billing-service", framework: "spring" },
+  ]);
+});
+
+afterAll(async () => {
+  await server?.close();
+});
+
+describe("services and files", () => {
+  it("list_services lists the configured services", async () => {
+    const { data } = await server.call<{ services: Array<{ name: string }> }>("list_services");
+    expect(data.services.map((s: { name: string }) => s.name)).toEqual([SERVICE, "billing-service"]);
+    expect(data.services[0]).toMatchObject({ repo: "acme/campaign-service", baseBranch: "main", framework: "spring" });
+  });
+
+  it("get_api_details returns the file content at the base branch", async () => {
+    const { isError, data } = await server.call<{ ref: string; content: string }>("get_api_details", { serviceName: SERVICE, filePath: CONTROLLER });
+    expect(isError).toBe(false);
+    expect(data.ref).toBe("main");
+    expect(data.content).toContain("@DeleteMapping(DETAIL)");
+    expect(data.content).not.toContain("/budget");
+  });
+
+  it("get_api_details reports a missing file, repository and service with their codes", async () => {
+    const missingFile = await server.call<Failure>("get_api_details", { serviceName: SERVICE, filePath: "src/Missing.java" });
+    expect(missingFile.isError).toBe(true);
+    expect(missingFile.data.error).toMatchObject({ code: "FILE_NOT_FOUND", path: "src/Missing.java", ref: "main" });
+
+    const missingRepository = await server.call<Failure>("get_api_details", { serviceName: "billing-service", filePath: "x" });
+    expect(missingRepository.data.error.code).toBe("REPOSITORY_NOT_FOUND");
+
+    const unknownService = await server.call<Failure>("get_api_details", { serviceName: "nope", filePath: "x" });
+    expect(unknownService.data.error).toMatchObject({
+      code: "SERVICE_NOT_FOUND",
+      availableServices: [SERVICE, "billing-service"],
+    });
+  });
+
+  it("get_recent_commits lists the newest commits first", async () => {
+    const { data } = await server.call<{ commits: Array<{ message: string }>; truncated: boolean }>("get_recent_commits", { serviceName: SERVICE, limit: 2 });
+    expect(data.commits.map((c: { message: string }) => c.message)).toEqual([
+      "Add campaign deletion",
+      "Initial campaign API",
+    ]);
+    expect(data.truncated).toBe(false);
+  });
+
+  it("explain_file_classification explains includes and excludes", async () => {
+    const { data } = await server.call<{ files: Array<{ isApiFile: boolean; excludedBy?: unknown }> }>("explain_file_classification", {
+      serviceName: SERVICE,
+      paths: [CONTROLLER, "src/test/java/com/acme/campaign/controller/CampaignControllerTest.java", "README.md"],
+    });
+    expect(data.files.map((f: { isApiFile: boolean }) => f.isApiFile)).toEqual([true, false, false]);
+    expect(data.files[1].excludedBy).toEqual({ pattern: "**/src/test/**", source: "preset:spring" });
+  });
+});
+
+describe("branch comparisons", () => {
+  it("get_api_changes finds the changed API files and classifies the changes", async () => {
+    const { data } = await server.call<ApiChanges>("get_api_changes", { serviceName: SERVICE, headBranch: HEAD, classify: true });
+    expect(data.comparison).toMatchObject({ base: "main", head: HEAD, aheadBy: 3, filesChanged: 6, truncated: false });
+    expect(data.apiChanges.map((c: { filename: string }) => c.filename)).toEqual([
+      "proto/campaign/v1/campaign.proto",
+      CONTROLLER,
+      "src/main/resources/graphql/schema.graphqls",
+    ]);
+    const graphql = data.apiChanges.find((c: { filename: string }) => c.filename.endsWith(".graphqls"));
+    expect(graphql?.changes).toEqual([
+      "-  campaigns(first: Int = 20): [Campaign!]!",
+      "+  campaigns(advertiserId: ID!, first: Int = 20): [Campaign!]!",
+      "-  status: CampaignStatus!",
+      "+  dailyBudget: Int!",
+    ]);
+    expect(data.classification.summary).toEqual({ breaking: 1, "potentially-breaking": 1, additive: 1 });
+    expect(data.classification.gate).toEqual({
+      passed: false,
+      unacknowledgedBreaking: ["required-param-added:GET /api/v1/campaigns#advertiserId"],
+    });
+  });
+
+  it("get_api_changes passes the gate once the breaking change is acknowledged", async () => {
+    const { data } = await server.call<ApiChanges>("get_api_changes", {
+      serviceName: SERVICE,
+      headBranch: HEAD,
+      classify: true,
+      acknowledgedChanges: ["required-param-added:GET /api/v1/campaigns#advertiserId"],
+    });
+    expect(data.classification.gate).toEqual({ passed: true, unacknowledgedBreaking: [] });
+  });
+
+  it("get_api_changes warns when only some commits are read", async () => {
+    const { data, meta } = await server.call<ApiChanges>("get_api_changes", { serviceName: SERVICE, headBranch: HEAD, limit: 1 });
+    expect(data.comparison).toMatchObject({ commitsListed: 1, truncated: true });
+    expect(meta?.warnings).toEqual([expect.objectContaining({ code: "COMPARISON_TRUNCATED" })]);
+  });
+
+  it("get_api_changes reports a missing branch", async () => {
+    const { isError, data } = await server.call<Failure>("get_api_changes", { serviceName: SERVICE, headBranch: "no-such-branch" });
+    expect(isError).toBe(true);
+    expect(data.error.code).toBe("REF_NOT_FOUND");
+  });
+
+  it("compare_branches summarizes files and commits", async () => {
+    const { data } = await server.call<{ summary: unknown; commits: Array<{ message: string }> }>("compare_branches", { serviceName: SERVICE, headBranch: HEAD });
+    expect(data.summary).toEqual({ totalFilesChanged: 6, apiFilesChanged: 3 });
+    expect(data.commits.map((c: { message: string }) => c.message)).toEqual([
+      "Add campaign budget endpoint",
+      "Require advertiser id when listing campaigns",
+      "Document budget endpoint",
+    ]);
+  });
+
+  it("diff_api_endpoints pairs endpoints before and after", async () => {
+    const { data } = await server.call<EndpointDiff>("diff_api_endpoints", { serviceName: SERVICE, headBranch: HEAD });
+    expect(data.summary).toMatchObject({ added: 1, removed: 0, signatureChanged: 2 });
+    expect(data.added.map((e: { key: string }) => e.key)).toEqual(["PUT /api/v1/campaigns/{campaignId}/budget"]);
+    expect(data.signatureChanged.map((e: { key: string }) => e.key)).toContain("GET /api/v1/campaigns");
+  });
+
+  it("diff_openapi finds the new required parameter and operation", async () => {
+    const { data } = await server.call<{ specs: Array<{ file: string; changes: Array<{ severity: string; kind: string }> }> }>("diff_openapi", { serviceName: SERVICE, headBranch: HEAD });
+    expect(data.specs[0].file).toBe("src/main/resources/openapi.yaml");
+    expect(data.specs[0].changes.map((c: { severity: string; kind: string }) => `${c.severity} ${c.kind}`)).toEqual([
+      "breaking required-parameter-added",
+      "additive operation-added",
+    ]);
+  });
+
+  it("diff_graphql_schema flags removed fields and new required arguments", async () => {
+    const { data } = await server.call<{ changes: Array<{ severity: string; location: string }> }>("diff_graphql_schema", { serviceName: SERVICE, headBranch: HEAD });
+    expect(data.changes.map((c: { severity: string; location: string }) => `${c.severity} ${c.location}`)).toEqual([
+      "breaking Query.campaigns(advertiserId)",
+      "breaking Campaign.status",
+      "additive Campaign.dailyBudget",
+    ]);
+  });
+
+  it("diff_proto checks wire compatibility", async () => {
+    const { data } = await server.call<{ summary: unknown; changes: unknown[] }>("diff_proto", { serviceName: SERVICE, headBranch: HEAD });
+    expect(data.summary).toMatchObject({ breaking: 0, potentiallyBreaking: 1, additive: 2 });
+    expect(data.changes[1]).toMatchObject({
+      kind: "field-type-changed-compatible",
+      location: "campaign.v1.Campaign.daily_budget",
+    });
+  });
+
+  it("scan_all_services reports each service, including the ones that fail", async () => {
+    const { data } = await server.call<{ totals: unknown; services: unknown[] }>("scan_all_services", { headBranch: HEAD });
+    expect(data.totals).toMatchObject({ services: 2, succeeded: 1, failed: 1, breaking: 1 });
+    expect(data.services[1]).toMatchObject({
+      service: "billing-service",
+      status: "failed",
+      errorCode: "REPOSITORY_NOT_FOUND",
+    });
+
+    const conflicting = await server.call<Failure>("scan_all_services", { tagPattern: "v*", since: "2024-01-01" });
+    expect(conflicting.isError).toBe(true);
+    expect(conflicting.data.error).toMatchObject({ code: "INVALID_ARGUMENTS" });
+  });
+});
+
+describe("endpoints and models", () => {
+  it("analyze_api_endpoint extracts the Spring endpoints with their parameters", async () => {
+    const { data } = await server.call<{ endpoints: Array<{ method: string; path: string; parameters: unknown[] }> }>("analyze_api_endpoint", { serviceName: SERVICE, filePath: CONTROLLER, ref: HEAD });
+    expect(data.endpoints.map((e: { method: string; path: string }) => `${e.method} ${e.path}`)).toEqual([
+      "GET /api/v1/campaigns",
+      "GET /api/v1/campaigns/{campaignId}",
+      "POST /api/v1/campaigns",
+      "DELETE /api/v1/campaigns/{campaignId}",
+      "PUT /api/v1/campaigns/{campaignId}/budget",
+    ]);
+    expect(data.endpoints[0].parameters).toEqual([
+      { name: "advertiserId", in: "query", type: "String", required: true },
+      { name: "page", in: "query", type: "int", required: false, defaultValue: "0" },
+    ]);
+  });
+
+  it("get_endpoint_models resolves the request DTO and its validation cases", async () => {
+    const { data } = await server.call<EndpointModels>("get_endpoint_models", { serviceName: SERVICE, filePath: CONTROLLER, method: "POST" });
+    expect(data.models).toHaveLength(1);
+    const { request } = data.models[0];
+    expect(request.type).toBe("CampaignRequest");
+    expect(request.schema.required).toEqual(["name", "dailyBudget"]);
+    expect(request.sample).toEqual({ name: "sample-name", dailyBudget: 1, startDate: "sample-startDate" });
+    expect(request.cases.map((c: { name: string }) => c.name)).toContain("name: missing required field");
+  });
+
+  it("generate_openapi builds paths from the controllers", async () => {
+    const { data } = await server.call<{ openapi: string; paths: Record<string, object> }>("generate_openapi", { serviceName: SERVICE, includeModels: false });
+    expect(data.openapi).toBe("3.1.0");
+    expect(Object.keys(data.paths)).toEqual(["/api/v1/campaigns", "/api/v1/campaigns/{campaignId}"]);
+    expect(Object.keys(data.paths["/api/v1/campaigns/{campaignId}"])).toEqual(["get", "delete"]);
+  });
+
+  it("get_test_template fills in a REST and a gRPC template", async () => {
+    const rest = await server.call<{ framework: string; template: string }>("get_test_template", {
+      serviceName: SERVICE,
+      apiType: "REST",
+      httpMethod: "POST",
+      path: "/api/v1/campaigns",
+    });
+    expect(rest.data.framework).toBe("playwright");
+    expect(rest.data.template).toContain("apiContext.post('/api/v1/campaigns'");
+
+    const grpc = await server.call<{ rpc: string; template: string }>("get_test_template", { serviceName: SERVICE, apiType: "gRPC", rpc: "GetCampaign" });
+    expect(grpc.data.rpc).toBe("/campaign.v1.CampaignService/GetCampaign");
+    expect(grpc.data.template).toContain("client.GetCampaign({\"campaign_id\":\"value\"}");
+
+    const unknown = await server.call<Failure>("get_test_template", { serviceName: SERVICE, apiType: "REST", framework: "cypress" });
+    expect(unknown.data.error).toMatchObject({ code: "INVALID_ARGUMENTS", framework: "cypress" });
+
+    const unknownService = await server.call<Failure>("get_test_template", { serviceName: "nope", apiType: "REST" });
+    expect(unknownService.isError).toBe(true);
+    expect(unknownService.data.error).toMatchObject({ code: "SERVICE_NOT_FOUND", serviceName: "nope" });
+  });
+});
+
+describe("pull requests", () => {
+  it("get_pull_requests keeps the pull requests that touch API files", async () => {
+    const { data } = await server.call<{ pullRequests: Array<{ number: number; apiFiles: string[] }> }>("get_pull_requests", { serviceName: SERVICE, state: "all", touchesApiFiles: true });
+    expect(data.pullRequests.map((pr: { number: number }) => pr.number)).toEqual([12]);
+    expect(data.pullRequests[0].apiFiles).toContain(CONTROLLER);
+  });
+
+  it("analyze_pull_request links issues, reviews and endpoint changes", async () => {
+    const { data } = await server.call<PullRequestAnalysis>("analyze_pull_request", { serviceName: SERVICE, number: 12 });
+    expect(data.linkedIssues).toEqual([{ reference: "#10", tracker: "github", closes: true }]);
+    expect(data.reviews).toMatchObject({ decision: "changes_requested", pendingReviewers: ["qa-lead", "team:qa"] });
+    expect(data.endpointChanges.added.map((e: { key: string }) => e.key)).toEqual([
+      "PUT /api/v1/campaigns/{campaignId}/budget",
+    ]);
+  });
+
+  it("analyze_pull_request reports a missing pull request", async () => {
+    const { isError, data } = await server.call<Failure>("analyze_pull_request", { serviceName: SERVICE, number: 404 });
+    expect(isError).toBe(true);
+    expect(data.error).toMatchObject({ code: "PULL_REQUEST_NOT_FOUND", number: 404 });
+  });
+});
+
+describe("releases", () => {
+  it("list_releases lists releases and version tags", async () => {
+    const { data } = await server.call<Releases>("list_releases", { serviceName: SERVICE });
+    expect(data.latest).toMatchObject({ tag: "v1.1.0", source: "release" });
+    expect(data.tags.map((t: { name: string }) => t.name)).toEqual(["v1.1.0", "v1.0.0"]);
+
+    const none = await server.call<Releases>("list_releases", { serviceName: SERVICE, tagPattern: "release-*" });
+    expect(none.isError).toBe(false);
+    expect(none.data).toMatchObject({ totalTags: 0, totalReleases: 0 });
+    expect(none.data.latest).toBeUndefined();
+  });
+
+  it("compare_versions compares the deployed version with the latest release", async () => {
+    const { data } = await server.call<VersionComparison>("compare_versions", {
+      serviceName: SERVICE,
+      from: "deployed:production",
+      to: "latest",
+      manifestPath: join(FIXTURES, "deployments.yaml"),
+    });
+    expect(data.from).toMatchObject({ tag: "v1.0.0", source: "manifest", environment: "production" });
+    expect(data.to).toMatchObject({ tag: "v1.1.0" });
+    expect(data.classification.changes.map((c: { id: string }) => c.id)).toEqual([
+      "endpoint-added:DELETE /api/v1/campaigns/{campaignId}",
+    ]);
+    expect(data.changelog).toContain("### Additions");
+
+    const unknown = await server.call<Failure>("compare_versions", {
+      serviceName: SERVICE,
+      from: "deployed:qa",
+      to: "latest",
+      manifestPath: join(FIXTURES, "deployments.yaml"),
+    });
+    expect(unknown.data.error).toMatchObject({ code: "INVALID_ARGUMENTS", environment: "qa" });
+  });
+});
+
+describe("automation repository", () => {
+  it("find_untested_endpoints matches the Playwright calls to endpoints", async () => {
+    const { data } = await server.call<UntestedEndpoints>("find_untested_endpoints", { serviceName: SERVICE });
+    const [coverage] = data.services;
+    expect(coverage.summary).toMatchObject({ endpoints: 4, covered: 2, uncovered: 2 });
+    expect(coverage.uncovered.map((e: { method: string; path: string }) => `${e.method} ${e.path}`)).toEqual([
+      "GET /api/v1/campaigns/{campaignId}",
+      "DELETE /api/v1/campaigns/{campaignId}",
+    ]);
+  });
+
+  it("generate_tests_for_changes drafts a test next to the existing ones", async () => {
+    const { data } = await server.call<GeneratedTests>("generate_tests_for_changes", { serviceName: SERVICE, headBranch: HEAD });
+    expect(data.layout).toMatchObject({ directory: "tests/api", suffix: ".spec.ts" });
+    expect(data.tests.map((t: { method: string; path: string }) => `${t.method} ${t.path}`)).toContain(
+      "PUT /api/v1/campaigns/{campaignId}/budget"
+    );
+    const budget = data.tests.find((t: { path: string }) => t.path.endsWith("/budget"));
+    expect(budget?.targetPath).toBe(join(server.automationRepoPath, "tests/api/campaign-update-budget.spec.ts"));
+    expect(budget?.cases).toContain("dailyBudget: 0 (exclusive minimum) - should be rejected");
+  });
+
+  it("write_test_file shows a diff on a dry run and writes otherwise", async () => {
+    const args = { serviceName: SERVICE, path: "tests/api/budget.spec.ts", content: "test('budget', () => {});\n" };
+    const target = join(server.automationRepoPath, "tests/api/budget.spec.ts");
+
+    const dryRun = await server.call("write_test_file", { ...args, dryRun: true });
+    expect(dryRun.data).toMatchObject({ action: "created", dryRun: true });
+    expect(existsSync(target)).toBe(false);
+
+    const written = await server.call("write_test_file", args);
+    expect(written.isError).toBe(false);
+    expect(readFileSync(target, "utf-8")).toBe(args.content);
+  });
+
+  it("write_test_file refuses paths outside the automation repo", async () => {
+    const { isError, data } = await server.call<Failure>("write_test_file", {
+      serviceName: SERVICE,
+      path: "../escape.spec.ts",
+      content: "x",
+    });
+    expect(isError).toBe(true);
+    expect(data.error).toMatchObject({ code: "INVALID_ARGUMENTS", message: expect.stringContaining("outside the automation repo") });
+  });
+});
+
+describe("server state", () => {
+  it("validate_config checks each repository and base branch", async () => {
+    const { data } = await server.call<{ services: Array<{ name: string; status: string }> }>("validate_config", {});
+    expect(data.services.map((s: { name: string; status: string }) => `${s.name} ${s.status}`)).toEqual([
+      "campaign-service ok",
+      "billing-service error",
+    ]);
+  });
+
+  it("get_rate_limit_status reports the quota of each token", async () => {
+    const { data } = await server.call<{ clients: Array<{ services: string[]; resources: unknown[] }> }>("get_rate_limit_status", {});
+    expect(data.clients).toHaveLength(1);
+    expect(data.clients[0].services).toEqual([SERVICE, "billing-service"]);
+    expect(data.clients[0].resources[0]).toMatchObject({ resource: "core", limit: 5000, remaining: 4987 });
+  });
+
+  it("clear_cache empties the response cache", async () => {
+    const { data } = await server.call("clear_cache", {});
+    expect(data).toMatchObject({ removed: 0, cache: { directory: join(server.workDir, "cache") } });
+  });
+
+  it("rejects unknown tools and invalid arguments", async () => {
+    const unknown = await server.call<Failure>("bogus_tool");
+    expect(unknown.data.error.code).toBe("UNKNOWN_TOOL");
+
+    const invalid = await server.call<Failure>("get_api_details", { serviceName: SERVICE });
+    expect(invalid.data.error).toMatchObject({ code: "INVALID_ARGUMENTS", message: "filePath: Required" });
+  });
+
+  // Fails when a tool is added without a test in this file
+  it("exercises every tool", async () => {
+    const source = readFileSync(fileURLToPath(import.meta.url), "utf-8");
+    const called = new Set([...source.matchAll(/server\.call(?:<[^(]*>)?\("(\w+)"/g)].map((match) => match[1]));
+    const tools = await server.listTools();
+    expect(tools.filter((tool) => !called.has(tool))).toEqual([]);
+  });
+});